@@ -1,20 +1,26 @@
 
 import React, { useState, useEffect } from 'react';
-import { AppMode, ProjectData } from './types';
+import { AppMode, LessonMode, ProjectData } from './types';
 import Editor from './components/Editor';
 import Viewer from './components/Viewer';
 import Library from './components/Library';
 import { WebXR } from './components/WebXR';
+import ValidationReport from './components/ValidationReport';
+import { CURRENT_SCHEMA_VERSION } from './utils/projectMigrations';
+import { loadProjectData, ValidationIssue } from './utils/projectValidation';
+import { parseLessonMode } from './utils/lessonMode';
 import { Box, Plus, BookOpen, Key, ArrowRight, Bug } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 const DEFAULT_PROJECT: ProjectData = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   projectName: "Anatomy of the Heart",
   assets: [
     {
       id: "default_env_01",
       name: "Environment",
       type: "model",
+      geometryType: "room",
       url: "/models/rooms/mainHospital.glb",
       color: "#ffffff",
       position: [0, 0, 0],
@@ -30,27 +36,50 @@ const DEFAULT_PROJECT: ProjectData = {
       title: "Introduction",
       instruction: "Welcome to the 3D Heart Anatomy lesson.\\nAre you ready to start?",
       cameraPosition: [5, 5, 5],
-      targetAction: 'click',
-      targetAssetId: "obj_01"
+      targetAction: 'none'
     }
   ]
 };
 
+// Restore the last saved lesson, upgrading it if it was stored by an older version
+const loadStoredProject = (): ProjectData => {
+  try {
+    const stored = localStorage.getItem('3d_edtech_project');
+    if (stored) {
+      const { project, issues } = loadProjectData(JSON.parse(stored));
+      if (issues.length > 0) {
+        console.warn("Saved project had problems", issues);
+      }
+      if (project) return project;
+    }
+  } catch (e) {
+    console.error("Failed to restore saved project", e);
+  }
+  return DEFAULT_PROJECT;
+};
+
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode | 'HOME' | 'LIBRARY' | 'WEBXR'>('HOME');
-  const [project, setProject] = useState<ProjectData>(DEFAULT_PROJECT);
+  const [project, setProject] = useState<ProjectData>(loadStoredProject);
   const [testMode, setTestMode] = useState<'auto' | 'desktop' | 'mobile' | 'vr'>('auto');
   const [isShared, setIsShared] = useState(false);
+  const [launchMode, setLaunchMode] = useState<LessonMode | undefined>(); // Practice or assessment, when the link asks for one
+  const [lessonKey, setLessonKey] = useState<string | undefined>(); // Lesson opened by code or from the Library; learner progress is saved under it
   const [inputCode, setInputCode] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [loadIssues, setLoadIssues] = useState<ValidationIssue[] | null>(null);
 
+  // Projects loaded or changed in the Editor are no longer the lesson the key names
   const handleSave = (newProject: ProjectData) => {
     setProject(newProject);
+    setLessonKey(undefined);
     localStorage.setItem('3d_edtech_project', JSON.stringify(newProject));
   };
 
   const handleSwitchMode = (updatedProject?: ProjectData) => {
     if (updatedProject) {
+      // The Editor hands back the same project when nothing was edited, so its preview keeps the lesson's progress
+      if (updatedProject !== project) setLessonKey(undefined);
       setProject(updatedProject);
     }
     setMode(prev => prev === AppMode.EDITOR ? AppMode.VIEWER : AppMode.EDITOR);
@@ -81,8 +110,18 @@ const App: React.FC = () => {
           // Load the matched scene file
           const sceneResponse = await fetch(matchedScene.path);
           if (sceneResponse.ok) {
-            const sceneData = await sceneResponse.json();
+            const { project: sceneData, issues } = loadProjectData(await sceneResponse.json());
+            if (!sceneData) {
+              setError("This lesson file is damaged and cannot be opened.");
+              setLoadIssues(issues);
+              return;
+            }
+            if (issues.length > 0) {
+              // Learners get the repaired lesson; authors see the full report when opening it in the Editor
+              console.warn(`Lesson ${trimmedCode} was repaired on load`, issues);
+            }
             setProject(sceneData);
+            setLessonKey(trimmedCode);
 
             // Check for VR Support to auto-direct
             let isVRSupported = false;
@@ -115,8 +154,9 @@ const App: React.FC = () => {
   };
 
   useEffect(() => {
-    // Check for URL hash commands
-    const hash = window.location.hash;
+    // Check for URL hash commands; options may follow, e.g. "#project=ABC123&mode=assessment"
+    const [hash, ...options] = window.location.hash.split('&');
+    setLaunchMode(parseLessonMode(new URLSearchParams(options.join('&')).get('mode')));
     if (hash === '#debug=xr' || hash === '#xr') {
       setMode(AppMode.WEBXR);
       return;
@@ -237,6 +277,13 @@ const App: React.FC = () => {
           </div>
         </motion.div>
 
+        <ValidationReport
+          isOpen={!!loadIssues}
+          title="Lesson Problems"
+          issues={loadIssues || []}
+          onClose={() => setLoadIssues(null)}
+        />
+
         <div className="absolute bottom-8 text-slate-600 text-[10px] font-bold uppercase tracking-[0.2em]">
           Powered by Gemini AI & Three.js
         </div>
@@ -248,8 +295,9 @@ const App: React.FC = () => {
   if (mode === 'LIBRARY') {
     return (
       <Library
-        onSelectScene={(sceneProject) => {
+        onSelectScene={(sceneProject, sceneKey) => {
           setProject(sceneProject);
+          setLessonKey(sceneKey);
           setMode(AppMode.EDITOR);
         }}
         onBack={() => setMode('HOME')}
@@ -267,7 +315,10 @@ const App: React.FC = () => {
           onSwitchMode={handleSwitchMode}
           testMode={testMode}
           onTestModeChange={setTestMode}
-          onBackToHome={() => setMode('HOME')}
+          onBackToHome={() => {
+            setMode('HOME');
+            setLessonKey(undefined);
+          }}
         />
       ) : mode === AppMode.VIEWER ? (
         <Viewer
@@ -278,12 +329,16 @@ const App: React.FC = () => {
             }
             setMode('HOME');
             setIsShared(false);
+            setLaunchMode(undefined);
+            setLessonKey(undefined);
           }}
           testMode={testMode}
           isShared={isShared}
+          mode={launchMode}
+          progressKey={lessonKey}
         />
       ) : mode === AppMode.WEBXR ? (
-        <WebXR project={project} />
+        <WebXR project={project} mode={launchMode} progressKey={lessonKey} />
       ) : null}
     </div>
   );
@@ -1,13 +1,25 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ProjectData, Asset, Step, Vector3Tuple } from '../types';
-import Viewport from './Viewport';
+import Viewport, { ViewportCameraControls } from './Viewport';
 import Sidebar from './Sidebar';
 import PropertiesPanel from './PropertiesPanel';
 import StepManager from './StepManager';
+import LessonPanel from './LessonPanel';
 import ExportPopup from './ExportPopup';
-import { Save, Play, Download, Trash2, Box, Type, Layers, Eye, EyeOff, CheckCircle, FolderOpen, User, Monitor, Smartphone, Glasses, Globe, Copy, X, Link, CheckCircle2, Home } from 'lucide-react';
+import ValidationReport from './ValidationReport';
+import LintPanel from './LintPanel';
+import { CURRENT_SCHEMA_VERSION } from '../utils/projectMigrations';
+import { loadProjectData, ValidationResult } from '../utils/projectValidation';
+import { lintProject, removeAssetReferences, LintIssue } from '../utils/lessonLint';
+import { createAssetId } from '../utils/ids';
+import { canHaveChildren, canReparent, getChildren, getDescendantIds, getRootAssets, getWorldTransform, removeAssets, reparentAsset } from '../utils/hierarchy';
+import { copyLessonContent, readLessonContent, cloneAssets, cloneSteps } from '../utils/clipboard';
+import { ZONE_COLOR } from '../utils/zones';
+import { useProjectHistory } from '../hooks/useProjectHistory';
+import HistoryPanel from './HistoryPanel';
+import { Save, Play, Download, Trash2, Box, Type, Layers, Eye, EyeOff, CheckCircle, FolderOpen, User, Monitor, Smartphone, Glasses, Globe, Copy, X, Link, CheckCircle2, Home, ShieldCheck, AlertTriangle, Undo2, Redo2, History, CornerDownRight, BoxSelect } from 'lucide-react';
 
 interface EditorProps {
   project: ProjectData;
@@ -18,17 +30,40 @@ interface EditorProps {
   onBackToHome?: () => void;
 }
 
-const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode, onTestModeChange, onBackToHome }) => {
-  const [activeProject, setActiveProject] = useState<ProjectData>(project);
+// Every lesson needs a spawn point; add one at the origin when it is missing
+const withPlayerStart = (project: ProjectData): ProjectData => {
+  if (project.assets.some(a => a.type === 'player_start')) return project;
+  const playerStart: Asset = {
+    id: createAssetId(),
+    name: 'New player_start',
+    type: 'player_start',
+    color: '#ffffff',
+    position: [0, 0, 0],
+    rotation: [0, 0, 0],
+    scale: [1, 1, 1],
+    visible: true,
+    opacity: 1
+  };
+  return { ...project, assets: [...project.assets, playerStart] };
+};
+
+const TEXT_INPUT_TYPES = new Set(['text', 'number', 'search', 'email', 'url', 'password', 'tel']);
 
-  // Sync state with props when project changes (state update from parent)
-  // React.useEffect(() => {
-  //   setActiveProject(project);
-  //   setLastSaved(null); // Reset save timer on new load
-  // }, [project]);
+// Fields where Ctrl+Z and friends edit the text; sliders, colour pickers and checkboxes leave them to the editor
+const isTextField = (target: EventTarget | null) =>
+  (target instanceof HTMLInputElement && TEXT_INPUT_TYPES.has(target.type)) ||
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
 
-  const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'library' | 'steps' | 'layers'>('library');
+const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode, onTestModeChange, onBackToHome }) => {
+  // All edits go through the history so they can be undone
+  const history = useProjectHistory(() => withPlayerStart(project));
+  const activeProject = history.project;
+  const applyEdit = history.apply;
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectedNode, setSelectedNode] = useState<{ assetId: string; path: string } | null>(null);
+  const [activeTab, setActiveTab] = useState<'library' | 'steps' | 'layers' | 'lesson'>('library');
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
   const [showToast, setShowToast] = useState(false);
@@ -37,7 +72,13 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
   const [publishLink, setPublishLink] = useState('');
   const [copied, setCopied] = useState(false);
   const [showExportPopup, setShowExportPopup] = useState(false);
+  const [loadReport, setLoadReport] = useState<ValidationResult | null>(null);
+  const [openPanel, setOpenPanel] = useState<'lint' | 'history' | null>(null);
+  const [draggedLayerId, setDraggedLayerId] = useState<string | null>(null);
+  const [layerDropTarget, setLayerDropTarget] = useState<string | 'root' | null>(null);
+  const [pendingLintAction, setPendingLintAction] = useState<'publish' | 'export' | null>(null);
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const viewportCamera = React.useRef<ViewportCameraControls | null>(null);
 
   const handleOpen = () => {
     fileInputRef.current?.click();
@@ -49,21 +90,19 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
 
     const reader = new FileReader();
     reader.onload = (e) => {
+      let result: ValidationResult;
       try {
         const content = e.target?.result as string;
-        const data = JSON.parse(content) as ProjectData;
-
-        // Basic validation or migration could go here
-        if (data && data.assets) {
-          setActiveProject(data);
-          setToastMessage("Project Loaded Successfully!");
-          setShowToast(true);
-          setTimeout(() => setShowToast(false), 2000);
-        } else {
-          console.error("Invalid project file format");
-        }
+        result = loadProjectData(JSON.parse(content));
       } catch (error) {
         console.error("Error parsing project file:", error);
+        result = { project: null, issues: [{ path: '(root)', message: 'File is not valid JSON.', repaired: false }] };
+      }
+
+      if (result.project && result.issues.length === 0) {
+        openLoadedProject(result.project);
+      } else {
+        setLoadReport(result);
       }
     };
     reader.readAsText(file);
@@ -71,6 +110,14 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
     event.target.value = '';
   };
 
+  const openLoadedProject = (data: ProjectData) => {
+    applyEdit('Open lesson file', () => data);
+    setLoadReport(null);
+    setToastMessage("Project Loaded Successfully!");
+    setShowToast(true);
+    setTimeout(() => setShowToast(false), 2000);
+  };
+
   const handleSave = async () => {
     if (saveStatus !== 'idle') return;
 
@@ -79,15 +126,17 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
     // Simulate network/processing delay for better UX
     await new Promise(resolve => setTimeout(resolve, 600));
 
+    const versionedProject = { ...activeProject, schemaVersion: CURRENT_SCHEMA_VERSION };
+
     // Save to LocalStorage
     try {
-      localStorage.setItem('3d_edtech_project', JSON.stringify(activeProject));
+      localStorage.setItem('3d_edtech_project', JSON.stringify(versionedProject));
     } catch (e) {
       console.error("Failed to save to localStorage", e);
     }
 
     // Call parent handler
-    onSave(activeProject);
+    onSave(versionedProject);
 
     const now = new Date();
     setLastSaved(now);
@@ -102,21 +151,145 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
     }, 2000);
   };
 
-  const updateAsset = useCallback((assetId: string, updates: Partial<Asset>) => {
-    setActiveProject(prev => ({
-      ...prev,
-      assets: prev.assets.map(a => a.id === assetId ? { ...a, ...updates } : a)
-    }));
+  // Continuous edits (sliders, typing) to the same fields merge into one history entry;
+  // discrete actions like gizmo drags pass coalesce = false to get their own entry
+  const updateAsset = useCallback((assetId: string, updates: Partial<Asset>, coalesce: boolean = true) => {
+    const fields = Object.keys(updates).sort().join(', ');
+    applyEdit(
+      `Edit ${fields}`,
+      prev => ({
+        ...prev,
+        assets: prev.assets.map(a => a.id === assetId ? { ...a, ...updates } : a)
+      }),
+      coalesce ? `asset:${assetId}:${fields}` : undefined
+    );
+  }, [applyEdit]);
+
+  // Several assets edited together form a single history entry
+  const updateAssets = useCallback((changes: { id: string; updates: Partial<Asset> }[], label: string, coalesceKey?: string) => {
+    const byId = new Map(changes.map(change => [change.id, change.updates]));
+    applyEdit(
+      label,
+      prev => ({
+        ...prev,
+        assets: prev.assets.map(a => byId.has(a.id) ? { ...a, ...byId.get(a.id) } : a)
+      }),
+      coalesceKey
+    );
+  }, [applyEdit]);
+
+  // Undo can remove selected assets, so the selection only keeps ids that still exist
+  const selectedAssetIds = useMemo(
+    () => selectedIds.filter(id => activeProject.assets.some(a => a.id === id)),
+    [selectedIds, activeProject.assets]
+  );
+  // The most recently selected asset is the primary one (single-object gizmo, step targeting)
+  const selectedAssetId = selectedAssetIds.length > 0 ? selectedAssetIds[selectedAssetIds.length - 1] : null;
+
+  // A picked model part only stays active while its model is the primary selection
+  const selectedNodePath = selectedNode && selectedNode.assetId === selectedAssetId ? selectedNode.path : null;
+
+  const setSelectedAssetId = useCallback((id: string | null) => {
+    setSelectedIds(id ? [id] : []);
+  }, []);
+
+  // Additive selection toggles the asset in or out of the current selection
+  const selectAsset = useCallback((id: string | null, additive: boolean = false) => {
+    if (!id) {
+      setSelectedIds([]);
+      return;
+    }
+    setSelectedIds(prev => {
+      if (!additive) return [id];
+      return prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id];
+    });
+  }, []);
+
+  const selectAssets = useCallback((ids: string[], additive: boolean) => {
+    setSelectedIds(prev => additive ? [...prev.filter(id => !ids.includes(id)), ...ids] : ids);
   }, []);
 
   const hasPlayerStart = activeProject.assets.some(a => a.type === 'player_start');
 
-  // Ensure default player spawn exists
-  React.useEffect(() => {
-    if (!hasPlayerStart) {
-      addAsset('player_start', undefined, [0, 0, 0]);
+  // Adds copies of assets as one edit and selects them. The spawn point and room are singletons and are skipped.
+  const insertAssetCopies = useCallback((sources: Asset[], label: string) => {
+    const copies = cloneAssets(sources.filter(a => a.type !== 'player_start' && a.geometryType !== 'room'));
+    if (copies.length === 0) return;
+    applyEdit(label, prev => {
+      const assets = [...prev.assets, ...copies];
+      // Copies whose parent isn't in this lesson land at the top level
+      return { ...prev, assets: assets.map(a => a.parentId && !assets.some(p => p.id === a.parentId) ? { ...a, parentId: undefined } : a) };
+    });
+    const copiedIds = new Set(copies.map(a => a.id));
+    setSelectedIds(copies.filter(a => !a.parentId || !copiedIds.has(a.parentId)).map(a => a.id));
+  }, [applyEdit]);
+
+  // The selection plus everything nested under it, so groups are copied as a unit
+  const getSelectionWithDescendants = () => {
+    const ids = new Set(selectedAssetIds);
+    selectedAssetIds.forEach(id => getDescendantIds(activeProject.assets, id).forEach(child => ids.add(child)));
+    return activeProject.assets.filter(a => ids.has(a.id));
+  };
+
+  const copySelection = () => {
+    const assets = getSelectionWithDescendants();
+    if (assets.length === 0) return;
+    // Top-level copies are stored in world space, since their parent may not exist where they are pasted
+    const copiedIds = new Set(assets.map(a => a.id));
+    copyLessonContent({
+      assets: assets.map(a => {
+        if (!a.parentId || copiedIds.has(a.parentId)) return a;
+        const { parentId, ...rest } = a;
+        return { ...rest, ...getWorldTransform(activeProject.assets, a.id) };
+      })
+    });
+  };
+
+  const pasteFromClipboard = async () => {
+    const content = await readLessonContent();
+    if (!content) return;
+    if (content.assets.length > 0) {
+      insertAssetCopies(content.assets, content.assets.length === 1 ? 'Paste object' : `Paste ${content.assets.length} objects`);
+    } else if (content.steps.length > 0) {
+      const steps = cloneSteps(content.steps, activeProject.assets, activeProject.steps);
+      applyEdit(steps.length === 1 ? 'Paste step' : `Paste ${steps.length} steps`, prev => ({ ...prev, steps: [...prev.steps, ...steps] }));
     }
-  }, []);
+  };
+
+  const duplicateSelection = () => {
+    const assets = getSelectionWithDescendants();
+    insertAssetCopies(assets, assets.length === 1 ? 'Duplicate object' : `Duplicate ${assets.length} objects`);
+  };
+
+  // Undo/Redo and clipboard shortcuts; text fields keep their native behaviour
+  const shortcutHandlers = React.useRef({ copySelection, pasteFromClipboard, duplicateSelection });
+  shortcutHandlers.current = { copySelection, pasteFromClipboard, duplicateSelection };
+
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTextField(e.target)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      } else if (key === 'c') {
+        shortcutHandlers.current.copySelection();
+      } else if (key === 'v') {
+        e.preventDefault();
+        shortcutHandlers.current.pasteFromClipboard();
+      } else if (key === 'd') {
+        // Ctrl+D would otherwise bookmark the page
+        e.preventDefault();
+        shortcutHandlers.current.duplicateSelection();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
 
   const [showTextModal, setShowTextModal] = useState(false);
   const [textContent, setTextContent] = useState('');
@@ -146,27 +319,22 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
   const createAsset = (type: Asset['type'], position: Vector3Tuple, subType?: any, url?: string, label?: string, content?: string, scaleVal: number = 1) => {
     // Check if we are updating the room environment (Singleton pattern for Room)
     if (subType === 'room') {
-      let existingRoom = activeProject.assets.find(a => a.geometryType === 'room');
-
-      // Fallback: Check if there's a default "Environment" asset (legacy data)
-      if (!existingRoom) {
-        existingRoom = activeProject.assets.find(a => a.name === 'Environment' && a.type === 'model');
-      }
+      // Legacy "Environment" rooms are tagged by the v1 migration when the lesson is loaded
+      const existingRoom = activeProject.assets.find(a => a.geometryType === 'room');
 
       if (existingRoom) {
         updateAsset(existingRoom.id, {
           url,
-          name: label || existingRoom.name,
-          geometryType: 'room' // Ensure it's tagged correctly now
+          name: label || existingRoom.name
         });
         setSelectedAssetId(existingRoom.id);
         return;
       }
     }
 
-    const newAssetId = `asset_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+    const newAssetId = createAssetId();
 
-    setActiveProject(prev => {
+    applyEdit(`Add ${label || subType || type}`, prev => {
       // Robust check against race conditions
       if (type === 'player_start' && prev.assets.some(a => a.type === 'player_start')) {
         return prev;
@@ -177,10 +345,11 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
         name: label || (subType === 'custom' ? 'Custom Model' : `New ${subType || type}`),
         type,
         geometryType: subType,
-        color: type === 'shape' ? "#3b82f6" : "#ffffff",
+        color: type === 'shape' ? "#3b82f6" : type === 'zone' ? ZONE_COLOR : "#ffffff",
         position,
         rotation: [0, 0, 0],
-        scale: [scaleVal, scaleVal, scaleVal],
+        // Zones start large enough to stand in
+        scale: type === 'zone' ? [2, 2, 2] : [scaleVal, scaleVal, scaleVal],
         content: content,
         url: url,
         visible: true,
@@ -192,7 +361,7 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
 
     // Automatically select the new asset
     // We delay slightly to ensure the asset exists in the scene before selection highlights occur, though standard React batching usually handles this fine.
-    // However, if we don't want to select player_start repeatedly if it failed, we should check type. But `player_start` check is inside setActiveProject.
+    // However, if we don't want to select player_start repeatedly if it failed, we should check type. But `player_start` check is inside applyEdit.
     // For now, we'll optimistically select it. If it wasn't added due to the check, it might just select nothing or fail gracefully if we tried to find it. 
     // Actually, simply setting the ID is safe.
     if (type !== 'player_start' || !hasPlayerStart) {
@@ -208,16 +377,27 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
     }
   };
 
-  const deleteAsset = (id: string) => {
-    setActiveProject(prev => ({ ...prev, assets: prev.assets.filter(a => a.id !== id) }));
-    if (selectedAssetId === id) setSelectedAssetId(null);
+  const deleteAssets = (ids: string[]) => {
+    applyEdit(ids.length === 1 ? 'Delete object' : `Delete ${ids.length} objects`, prev => ({
+      ...prev,
+      assets: removeAssets(prev.assets, ids),
+      steps: ids.reduce((steps, id) => removeAssetReferences(steps, id), prev.steps)
+    }));
+    setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  const deleteAsset = (id: string) => deleteAssets([id]);
+
+  const moveAssetToParent = (id: string, parentId: string | null) => {
+    if (!canReparent(activeProject.assets, id, parentId)) return;
+    applyEdit(parentId ? 'Group object' : 'Ungroup object', prev => ({ ...prev, assets: reparentAsset(prev.assets, id, parentId) }));
   };
 
   const toggleVisibility = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     const asset = activeProject.assets.find(a => a.id === id);
     if (asset) {
-      updateAsset(id, { visible: asset.visible === false ? true : false });
+      updateAsset(id, { visible: asset.visible === false ? true : false }, false);
     }
   };
 
@@ -231,15 +411,47 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
     return result;
   };
 
+  const lintIssues = useMemo(() => lintProject(activeProject), [activeProject]);
+  const lintErrorCount = lintIssues.filter(i => i.severity === 'error').length;
+
+  const applyLintFix = (issue: LintIssue) => {
+    if (issue.fix) {
+      applyEdit(`Fix: ${issue.fix.label}`, prev => issue.fix!.apply(prev));
+    }
+  };
+
+  const closeLintPanel = () => {
+    setOpenPanel(null);
+    setPendingLintAction(null);
+  };
+
+  // Publish/Export run the lesson checks first and only proceed directly when nothing is flagged
+  const runLintGate = (action: 'publish' | 'export', proceed: () => void) => {
+    if (lintIssues.length === 0) {
+      proceed();
+      return;
+    }
+    setPendingLintAction(action);
+    setOpenPanel('lint');
+  };
+
+  const continuePendingAction = () => {
+    const action = pendingLintAction;
+    closeLintPanel();
+    if (action === 'publish') publishProject();
+    if (action === 'export') setShowExportPopup(true);
+  };
+
   const handleExport = () => {
-    setShowExportPopup(true);
+    runLintGate('export', () => setShowExportPopup(true));
   };
 
   const confirmExport = (filename: string) => {
     const uuid = generateUUID6();
     const fullFilename = `${uuid}_${filename}.json`;
 
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(activeProject, null, 2));
+    const versionedProject = { ...activeProject, schemaVersion: CURRENT_SCHEMA_VERSION };
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(versionedProject, null, 2));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
     downloadAnchorNode.setAttribute("download", fullFilename);
@@ -254,8 +466,12 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
   };
 
   const handlePublish = () => {
+    runLintGate('publish', publishProject);
+  };
+
+  const publishProject = () => {
     try {
-      const jsonStr = JSON.stringify(activeProject);
+      const jsonStr = JSON.stringify({ ...activeProject, schemaVersion: CURRENT_SCHEMA_VERSION });
       const base64Data = btoa(jsonStr);
       const fullUrl = `${window.location.origin}${window.location.pathname}#project=${base64Data}`;
       setPublishLink(fullUrl);
@@ -271,7 +487,67 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const endLayerDrag = () => {
+    setDraggedLayerId(null);
+    setLayerDropTarget(null);
+  };
+
+  // Layers rows are drawn as a tree; dropping one row onto another nests it under that object
+  const renderLayer = (asset: Asset, depth: number): React.ReactNode => {
+    const canDropHere = !!draggedLayerId && canReparent(activeProject.assets, draggedLayerId, asset.id);
+    const isDropTarget = canDropHere && layerDropTarget === asset.id;
+
+    return (
+      <React.Fragment key={asset.id}>
+        <div
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggedLayerId(asset.id);
+          }}
+          onDragEnd={endLayerDrag}
+          onDragOver={(e) => {
+            if (!canDropHere) return;
+            e.preventDefault();
+            setLayerDropTarget(asset.id);
+          }}
+          onDragLeave={() => setLayerDropTarget(null)}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (draggedLayerId && canDropHere) moveAssetToParent(draggedLayerId, asset.id);
+            endLayerDrag();
+          }}
+          onClick={(e) => selectAsset(asset.id, e.shiftKey || e.ctrlKey || e.metaKey)}
+          style={{ marginLeft: depth * 16 }}
+          className={`p-3 rounded-lg flex items-center justify-between cursor-pointer transition-colors ${isDropTarget ? 'bg-blue-600/30 border border-blue-400' : selectedAssetIds.includes(asset.id) ? 'bg-blue-600/20 border border-blue-500/50' : 'bg-slate-800 hover:bg-slate-700'} ${asset.visible === false || draggedLayerId === asset.id ? 'opacity-50' : ''}`}
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            {depth > 0 && <CornerDownRight size={12} className="text-slate-500 shrink-0 -mr-1" />}
+            {asset.type === 'shape' ? <Box size={16} /> : asset.type === 'text' ? <Type size={16} /> : asset.type === 'player_start' ? <User size={16} /> : asset.type === 'zone' ? <BoxSelect size={16} /> : <Layers size={16} />}
+            <span className="text-sm font-medium truncate max-w-[120px]">{asset.name}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={(e) => toggleVisibility(e, asset.id)}
+              className={`p-1.5 rounded hover:bg-slate-600 transition-colors ${asset.visible === false ? 'text-slate-500' : 'text-blue-400'}`}
+            >
+              {asset.visible === false ? <EyeOff size={14} /> : <Eye size={14} />}
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); deleteAsset(asset.id); }}
+              className="p-1.5 text-slate-400 hover:text-red-400 rounded hover:bg-slate-600"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+        {canHaveChildren(asset) && getChildren(activeProject.assets, asset.id).map(child => renderLayer(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
   const selectedAsset = activeProject.assets.find(a => a.id === selectedAssetId);
+  const selectedAssets = activeProject.assets.filter(a => selectedAssetIds.includes(a.id));
 
   return (
     <div className="flex h-screen w-full overflow-hidden bg-slate-950">
@@ -280,7 +556,10 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
           <input
             className="bg-transparent font-bold text-lg focus:outline-none focus:ring-1 focus:ring-blue-500 rounded px-1 w-full"
             value={activeProject.projectName}
-            onChange={(e) => setActiveProject({ ...activeProject, projectName: e.target.value })}
+            onChange={(e) => {
+              const projectName = e.target.value;
+              applyEdit('Rename lesson', prev => ({ ...prev, projectName }), 'projectName');
+            }}
           />
           {lastSaved && (
             <span className="text-xs text-slate-500 ml-1">
@@ -308,6 +587,12 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
           >
             Layers
           </button>
+          <button
+            onClick={() => setActiveTab('lesson')}
+            className={`flex-1 py-3 text-xs font-medium uppercase tracking-wider ${activeTab === 'lesson' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-slate-400'}`}
+          >
+            Lesson
+          </button>
         </div>
 
         <div className="flex-1 overflow-y-auto p-4">
@@ -318,38 +603,37 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
             <StepManager
               steps={activeProject.steps}
               assets={activeProject.assets}
-              onUpdateSteps={(steps) => setActiveProject({ ...activeProject, steps })}
+              variables={activeProject.variables || []}
+              onUpdateSteps={(steps, label, coalesceKey) => applyEdit(label, prev => ({ ...prev, steps }), coalesceKey)}
               selectedAssetId={selectedAssetId}
+              selectedNodePath={selectedNodePath}
+              onCaptureView={() => viewportCamera.current ? viewportCamera.current.capture() : null}
+              onPreviewView={(step) => viewportCamera.current?.moveTo({ position: step.cameraPosition, target: step.cameraTarget })}
+            />
+          )}
+          {activeTab === 'lesson' && (
+            <LessonPanel
+              variables={activeProject.variables || []}
+              scoring={activeProject.scoring}
+              mode={activeProject.mode}
+              timeLimitSeconds={activeProject.timeLimitSeconds}
+              onUpdateProject={applyEdit}
             />
           )}
           {activeTab === 'layers' && (
             <div className="space-y-2">
-              {activeProject.assets.map(asset => (
+              {getRootAssets(activeProject.assets).map(asset => renderLayer(asset, 0))}
+
+              {draggedLayerId && (
                 <div
-                  key={asset.id}
-                  onClick={() => setSelectedAssetId(asset.id)}
-                  className={`p-3 rounded-lg flex items-center justify-between cursor-pointer transition-colors ${selectedAssetId === asset.id ? 'bg-blue-600/20 border border-blue-500/50' : 'bg-slate-800 hover:bg-slate-700'} ${asset.visible === false ? 'opacity-50' : ''}`}
+                  onDragOver={(e) => { e.preventDefault(); setLayerDropTarget('root'); }}
+                  onDragLeave={() => setLayerDropTarget(null)}
+                  onDrop={(e) => { e.preventDefault(); moveAssetToParent(draggedLayerId, null); endLayerDrag(); }}
+                  className={`p-3 rounded-lg border-2 border-dashed text-center text-[10px] font-bold uppercase tracking-widest transition-colors ${layerDropTarget === 'root' ? 'border-blue-500 text-blue-400' : 'border-slate-700 text-slate-500'}`}
                 >
-                  <div className="flex items-center gap-3">
-                    {asset.type === 'shape' ? <Box size={16} /> : asset.type === 'text' ? <Type size={16} /> : asset.type === 'player_start' ? <User size={16} /> : <Layers size={16} />}
-                    <span className="text-sm font-medium truncate max-w-[120px]">{asset.name}</span>
-                  </div>
-                  <div className="flex items-center gap-1">
-                    <button
-                      onClick={(e) => toggleVisibility(e, asset.id)}
-                      className={`p-1.5 rounded hover:bg-slate-600 transition-colors ${asset.visible === false ? 'text-slate-500' : 'text-blue-400'}`}
-                    >
-                      {asset.visible === false ? <EyeOff size={14} /> : <Eye size={14} />}
-                    </button>
-                    <button
-                      onClick={(e) => { e.stopPropagation(); deleteAsset(asset.id); }}
-                      className="p-1.5 text-slate-400 hover:text-red-400 rounded hover:bg-slate-600"
-                    >
-                      <Trash2 size={14} />
-                    </button>
-                  </div>
+                  Drop here to move to top level
                 </div>
-              ))}
+              )}
             </div>
           )}
         </div>
@@ -359,8 +643,13 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
         <Viewport
           assets={activeProject.assets}
           selectedAssetId={selectedAssetId}
-          onAssetUpdate={updateAsset}
-          onSelectAsset={setSelectedAssetId}
+          selectedAssetIds={selectedAssetIds}
+          onAssetUpdate={(id, updates) => updateAsset(id, updates, false)}
+          onAssetsUpdate={(changes) => updateAssets(changes, `Transform ${changes.length} objects`)}
+          onSelectAsset={selectAsset}
+          onSelectAssets={selectAssets}
+          selectedNodePath={selectedNodePath}
+          cameraControlsRef={viewportCamera}
           onDropAsset={(type, subType, pos, url, label) => addAsset(type as any, subType, pos, url, label)}
         />
 
@@ -466,6 +755,35 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
           )}
         </AnimatePresence>
 
+        <AnimatePresence>
+          {openPanel === 'history' && (
+            <HistoryPanel
+              entries={history.entries}
+              currentIndex={history.index}
+              onJump={history.jumpTo}
+              onClose={() => setOpenPanel(null)}
+            />
+          )}
+          {openPanel === 'lint' && (
+            <LintPanel
+              issues={lintIssues}
+              onApplyFix={applyLintFix}
+              onSelectAsset={setSelectedAssetId}
+              onClose={closeLintPanel}
+              pendingActionLabel={pendingLintAction === 'publish' ? 'Publish' : pendingLintAction === 'export' ? 'Export' : undefined}
+              onContinue={pendingLintAction ? continuePendingAction : undefined}
+            />
+          )}
+        </AnimatePresence>
+
+        <ValidationReport
+          isOpen={!!loadReport}
+          title="Lesson File Problems"
+          issues={loadReport?.issues || []}
+          onClose={() => setLoadReport(null)}
+          onContinue={loadReport?.project ? () => openLoadedProject(loadReport.project!) : undefined}
+        />
+
         <ExportPopup
           isOpen={showExportPopup}
           onClose={() => setShowExportPopup(false)}
@@ -549,6 +867,41 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
           >
             <Download size={18} /> Export
           </button>
+
+          <button
+            onClick={() => openPanel === 'lint' ? closeLintPanel() : (setPendingLintAction(null), setOpenPanel('lint'))}
+            className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium shadow-lg transition-transform active:scale-95 ${lintErrorCount > 0 ? 'bg-red-600/80 hover:bg-red-500' : lintIssues.length > 0 ? 'bg-amber-600/80 hover:bg-amber-500' : 'bg-slate-700 hover:bg-slate-600'}`}
+            title="Check steps for broken references"
+          >
+            {lintIssues.length > 0 ? <AlertTriangle size={18} /> : <ShieldCheck size={18} />} Checks
+            {lintIssues.length > 0 && <span className="bg-black/30 px-1.5 rounded text-xs font-bold">{lintIssues.length}</span>}
+          </button>
+
+          <div className="flex bg-slate-700 rounded-lg shadow-lg overflow-hidden">
+            <button
+              onClick={history.undo}
+              disabled={!history.canUndo}
+              className="px-3 py-2 hover:bg-slate-600 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 size={18} />
+            </button>
+            <button
+              onClick={history.redo}
+              disabled={!history.canRedo}
+              className="px-3 py-2 hover:bg-slate-600 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 size={18} />
+            </button>
+            <button
+              onClick={() => setOpenPanel(openPanel === 'history' ? null : 'history')}
+              className={`px-3 py-2 border-l border-slate-600 transition-colors ${openPanel === 'history' ? 'bg-blue-600' : 'hover:bg-slate-600'}`}
+              title="Edit history"
+            >
+              <History size={18} />
+            </button>
+          </div>
         </div>
       </div>
 
@@ -559,8 +912,19 @@ const Editor: React.FC<EditorProps> = ({ project, onSave, onSwitchMode, testMode
         {selectedAsset ? (
           <PropertiesPanel
             asset={selectedAsset}
+            selection={selectedAssets}
             onChange={(updates) => updateAsset(selectedAsset.id, updates)}
-            onDelete={() => deleteAsset(selectedAsset.id)}
+            onBulkChange={(updates) => {
+              const fields = Object.keys(updates).sort().join(', ');
+              updateAssets(
+                selectedAssets.map(a => ({ id: a.id, updates })),
+                `Edit ${fields} on ${selectedAssets.length} objects`,
+                `assets:${selectedAssetIds.join(',')}:${fields}`
+              );
+            }}
+            onDelete={() => deleteAssets(selectedAssetIds)}
+            selectedNodePath={selectedNodePath}
+            onSelectNode={(path) => setSelectedNode(path ? { assetId: selectedAsset.id, path } : null)}
           />
         ) : (
           <div className="p-8 text-center text-slate-500 flex flex-col items-center gap-4">
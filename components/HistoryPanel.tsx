@@ -0,0 +1,45 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { X, History } from 'lucide-react';
+import { HistoryEntry } from '../hooks/useProjectHistory';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  currentIndex: number;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, currentIndex, onJump, onClose }) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      className="absolute top-20 right-4 w-72 max-h-[70vh] flex flex-col bg-slate-900/95 backdrop-blur-xl border border-slate-700 rounded-2xl shadow-2xl z-40"
+    >
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2"><History size={16} className="text-blue-400" /> Edit History</h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      {/* Newest first; entries after the current one are the redo branch */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+          <button
+            key={entry.id}
+            onClick={() => onJump(index)}
+            className={`w-full text-left px-3 py-2 rounded-lg flex items-center justify-between gap-2 transition-colors ${index === currentIndex ? 'bg-blue-600/20 border border-blue-500/50 text-white' : index > currentIndex ? 'text-slate-600 hover:bg-slate-800' : 'text-slate-300 hover:bg-slate-800'}`}
+          >
+            <span className="text-xs font-medium truncate">{entry.label}</span>
+            <span className="text-[9px] font-mono text-slate-500 shrink-0">{new Date(entry.time).toLocaleTimeString()}</span>
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
+
+export default HistoryPanel;
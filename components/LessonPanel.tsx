@@ -0,0 +1,341 @@
+import React from 'react';
+import { Plus, Trash2, Eye, EyeOff, Variable, Award, GraduationCap } from 'lucide-react';
+import { LessonMode, LessonVariable, ProjectData, ScoringRubric } from '../types';
+import { VARIABLE_NAME_PATTERN, createVariable, defaultValue, removeVariable, renameVariable } from '../utils/variables';
+import { DEFAULT_RUBRIC } from '../utils/scoring';
+import { LESSON_MODES } from '../utils/lessonMode';
+
+interface LessonPanelProps {
+  variables: LessonVariable[];
+  scoring?: ScoringRubric;
+  mode?: LessonMode;
+  timeLimitSeconds?: number;
+  // label and coalesceKey describe the change for the Editor's undo history
+  onUpdateProject: (label: string, updater: (project: ProjectData) => ProjectData, coalesceKey?: string) => void;
+}
+
+interface VariableEditorProps {
+  variable: LessonVariable;
+  takenNames: string[];
+  onUpdate: (updates: Partial<LessonVariable>) => void;
+  onRename: (name: string) => void;
+  onRemove: () => void;
+}
+
+const parseOptionalNumber = (text: string): number | undefined => {
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * One variable. The name is only renamed on blur or Enter, since every effect, condition
+ * and placeholder using it is rewritten along with it.
+ */
+const VariableEditor: React.FC<VariableEditorProps> = ({ variable, takenNames, onUpdate, onRename, onRemove }) => {
+  const [draftName, setDraftName] = React.useState(variable.name);
+  React.useEffect(() => setDraftName(variable.name), [variable.name]);
+  const nameError = !VARIABLE_NAME_PATTERN.test(draftName)
+    ? 'Use letters, digits and _, starting with a letter'
+    : draftName !== variable.name && takenNames.includes(draftName) ? 'Another variable has this name' : null;
+
+  const commitName = () => {
+    if (nameError) setDraftName(variable.name);
+    else if (draftName !== variable.name) onRename(draftName);
+  };
+
+  const isNumber = variable.type === 'number';
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-3 space-y-2 shadow-lg">
+      <div className="flex items-center gap-2">
+        <input
+          className={`flex-1 min-w-0 bg-slate-900 border rounded px-2 py-1 text-xs font-mono focus:ring-1 focus:ring-blue-500 ${nameError ? 'border-red-500' : 'border-slate-700'}`}
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+          title={nameError || `Shown in instructions as {${variable.name}}`}
+        />
+        <button
+          onClick={() => onUpdate({ hidden: variable.hidden ? undefined : true })}
+          className={`p-1 ${variable.hidden ? 'text-slate-600' : 'text-blue-400'} hover:text-white`}
+          title={variable.hidden ? 'Hidden from the learner\'s monitor' : 'Shown on the learner\'s monitor'}
+        >
+          {variable.hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+        </button>
+        <button onClick={onRemove} className="text-slate-500 hover:text-red-400 p-1" title="Delete variable and the changes and branches that use it">
+          <Trash2 size={14} />
+        </button>
+      </div>
+      {nameError && <p className="text-[9px] text-red-400">{nameError}</p>}
+
+      <input
+        className={inputClass}
+        value={variable.label || ''}
+        placeholder="Label on the monitor (optional)"
+        onChange={(e) => onUpdate({ label: e.target.value || undefined })}
+      />
+
+      <div className="flex gap-2">
+        {(['number', 'boolean'] as const).map(type => (
+          <button
+            key={type}
+            onClick={() => type !== variable.type && onUpdate({ type, initial: defaultValue(type), unit: undefined, min: undefined, max: undefined })}
+            className={`flex-1 py-1 text-[10px] rounded font-bold transition-colors ${variable.type === type ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+          >
+            {type === 'number' ? 'NUMBER' : 'FLAG'}
+          </button>
+        ))}
+      </div>
+
+      {isNumber ? (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="space-y-0.5">
+            <span className="text-[9px] uppercase font-bold text-slate-500">Start</span>
+            <input
+              type="number"
+              className={inputClass}
+              value={variable.initial as number}
+              onChange={(e) => onUpdate({ initial: parseOptionalNumber(e.target.value) ?? 0 })}
+            />
+          </label>
+          <label className="space-y-0.5">
+            <span className="text-[9px] uppercase font-bold text-slate-500">Unit</span>
+            <input
+              className={inputClass}
+              value={variable.unit || ''}
+              placeholder="e.g. bpm"
+              onChange={(e) => onUpdate({ unit: e.target.value || undefined })}
+            />
+          </label>
+          <label className="space-y-0.5">
+            <span className="text-[9px] uppercase font-bold text-slate-500">Min</span>
+            <input
+              type="number"
+              className={inputClass}
+              value={variable.min ?? ''}
+              placeholder="None"
+              onChange={(e) => onUpdate({ min: parseOptionalNumber(e.target.value) })}
+            />
+          </label>
+          <label className="space-y-0.5">
+            <span className="text-[9px] uppercase font-bold text-slate-500">Max</span>
+            <input
+              type="number"
+              className={inputClass}
+              value={variable.max ?? ''}
+              placeholder="None"
+              onChange={(e) => onUpdate({ max: parseOptionalNumber(e.target.value) })}
+            />
+          </label>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <span className="text-[9px] uppercase font-bold text-slate-500 w-12">Start</span>
+          {[false, true].map(value => (
+            <button
+              key={String(value)}
+              onClick={() => onUpdate({ initial: value })}
+              className={`flex-1 py-1 text-[10px] rounded font-bold transition-colors ${variable.initial === value ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+            >
+              {value ? 'YES' : 'NO'}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ModeEditorProps {
+  mode: LessonMode;
+  timeLimitSeconds?: number;
+  onChange: (label: string, updates: Pick<ProjectData, 'mode' | 'timeLimitSeconds'>, coalesceKey?: string) => void;
+}
+
+/**
+ * Practice or assessment. Launch links can still pick the other mode, so the time limit is
+ * kept when switching to practice.
+ */
+const ModeEditor: React.FC<ModeEditorProps> = ({ mode, timeLimitSeconds, onChange }) => {
+  const minutes = timeLimitSeconds !== undefined ? timeLimitSeconds / 60 : undefined;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs font-bold uppercase tracking-widest text-slate-400 flex items-center gap-2">
+        <GraduationCap size={14} className="text-blue-400" /> Mode
+      </h3>
+      <div className="flex gap-2">
+        {LESSON_MODES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => option.value !== mode && onChange(`Switch to ${option.label.toLowerCase()}`, { mode: option.value === 'practice' ? undefined : option.value, timeLimitSeconds })}
+            className={`flex-1 py-1 text-[10px] rounded font-bold uppercase transition-colors ${mode === option.value ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500 leading-relaxed">
+        {LESSON_MODES.find(o => o.value === mode)!.description}
+      </p>
+      {mode === 'assessment' && (
+        <label className="flex items-center gap-2">
+          <span className="text-[9px] uppercase font-bold text-slate-500 flex-1">Time limit (minutes)</span>
+          <input
+            type="number"
+            min={1}
+            className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500"
+            value={minutes ?? ''}
+            placeholder="None"
+            onChange={(e) => {
+              const value = parseOptionalNumber(e.target.value);
+              onChange('Edit time limit', { mode, timeLimitSeconds: value !== undefined && value > 0 ? Math.round(value * 60) : undefined }, 'lesson:timeLimit');
+            }}
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+const RUBRIC_FIELDS: { key: keyof ScoringRubric; label: string; optional?: boolean }[] = [
+  { key: 'stepPoints', label: 'Points per step' },
+  { key: 'wrongClickPenalty', label: 'Per wrong click' },
+  { key: 'missedDropPenalty', label: 'Per missed drop' },
+  { key: 'hintPenalty', label: 'Per hint' },
+  { key: 'targetSeconds', label: 'Target seconds', optional: true },
+  { key: 'slowPenalty', label: 'If slower', optional: true },
+  { key: 'passPercent', label: 'Pass mark %', optional: true }
+];
+
+/**
+ * Points for the results screen. Without a rubric learners still see their times and mistakes.
+ */
+const ScoringEditor: React.FC<{ rubric?: ScoringRubric; onChange: (label: string, rubric: ScoringRubric | undefined, coalesceKey?: string) => void }> = ({ rubric, onChange }) => {
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500';
+
+  const updateField = (key: keyof ScoringRubric, optional: boolean | undefined, text: string) => {
+    const value = parseOptionalNumber(text);
+    const next = { ...rubric!, [key]: value === undefined ? (optional ? undefined : 0) : Math.max(0, value) };
+    if (next[key] === undefined) delete next[key];
+    onChange(`Edit scoring ${key}`, next, `scoring:${key}`);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <Award size={14} className="text-blue-400" /> Scoring
+        </h3>
+        <button
+          onClick={() => onChange(rubric ? 'Turn off scoring' : 'Turn on scoring', rubric ? undefined : { ...DEFAULT_RUBRIC })}
+          className={`px-2 py-0.5 text-[10px] rounded font-bold transition-colors ${rubric ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+        >
+          {rubric ? 'ON' : 'OFF'}
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-500 leading-relaxed">
+        Each step with a task is worth the same points, minus penalties. Quizzes score all or nothing. Assessments are scored with the defaults while this is off.
+      </p>
+
+      {rubric && (
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-3 grid grid-cols-2 gap-2 shadow-lg">
+          {RUBRIC_FIELDS.map(({ key, label, optional }) => (
+            <label key={key} className="space-y-0.5">
+              <span className="text-[9px] uppercase font-bold text-slate-500">{label}</span>
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={rubric[key] ?? ''}
+                placeholder={optional ? 'None' : undefined}
+                onChange={(e) => updateField(key, optional, e.target.value)}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lesson-wide settings: practice or assessment, the variables steps can change and branch on,
+ * and how learners are scored.
+ */
+const LessonPanel: React.FC<LessonPanelProps> = ({ variables, scoring, mode = 'practice', timeLimitSeconds, onUpdateProject }) => {
+  const updateVariable = (name: string, updates: Partial<LessonVariable>) => {
+    const fields = Object.keys(updates).sort().join(', ');
+    onUpdateProject(`Edit variable ${fields}`, prev => ({
+      ...prev,
+      variables: (prev.variables || []).map(v => {
+        if (v.name !== name) return v;
+        const next = { ...v, ...updates };
+        (Object.keys(next) as (keyof LessonVariable)[]).forEach(key => next[key] === undefined && delete next[key]);
+        return next;
+      })
+    }), `variable:${name}:${fields}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="pb-4 border-b border-slate-800">
+        <ModeEditor
+          mode={mode}
+          timeLimitSeconds={timeLimitSeconds}
+          onChange={(label, updates, coalesceKey) => onUpdateProject(label, prev => {
+            const { mode: _mode, timeLimitSeconds: _limit, ...rest } = prev;
+            return {
+              ...rest,
+              ...(updates.mode ? { mode: updates.mode } : {}),
+              ...(updates.timeLimitSeconds ? { timeLimitSeconds: updates.timeLimitSeconds } : {})
+            };
+          }, coalesceKey)}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <h3 className="text-xs font-bold uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <Variable size={14} className="text-blue-400" /> Variables
+        </h3>
+        <p className="text-[10px] text-slate-500 leading-relaxed">
+          Values like a patient's heart rate that steps change when completed or on mistakes, and branch on.
+          Write <span className="font-mono text-slate-400">{'{name}'}</span> in an instruction to show the current value.
+        </p>
+      </div>
+
+      {variables.map(variable => (
+        <VariableEditor
+          key={variable.name}
+          variable={variable}
+          takenNames={variables.map(v => v.name)}
+          onUpdate={(updates) => updateVariable(variable.name, updates)}
+          onRename={(name) => onUpdateProject('Rename variable', prev => renameVariable(prev, variable.name, name))}
+          onRemove={() => onUpdateProject('Delete variable', prev => removeVariable(prev, variable.name))}
+        />
+      ))}
+
+      <button
+        onClick={() => onUpdateProject('Add variable', prev => ({ ...prev, variables: [...(prev.variables || []), createVariable(prev.variables || [])] }))}
+        className="w-full py-3 border-2 border-dashed border-slate-700 rounded-xl text-slate-500 hover:border-blue-500 hover:text-blue-400 flex items-center justify-center gap-2 transition-all active:scale-95"
+      >
+        <Plus size={16} />
+        <span className="text-xs font-bold uppercase tracking-widest">Add Variable</span>
+      </button>
+
+      <div className="pt-4 border-t border-slate-800">
+        <ScoringEditor
+          rubric={scoring}
+          onChange={(label, rubric, coalesceKey) => onUpdateProject(label, prev => {
+            const { scoring: _, ...rest } = prev;
+            return rubric ? { ...rest, scoring: rubric } : rest;
+          }, coalesceKey)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default LessonPanel;
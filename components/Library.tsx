@@ -2,9 +2,11 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { BookOpen, Play, ArrowLeft, Copy, Check } from 'lucide-react';
 import { ProjectData } from '../types';
+import { loadProjectData, ValidationResult } from '../utils/projectValidation';
+import ValidationReport from './ValidationReport';
 
 interface LibraryProps {
-    onSelectScene: (project: ProjectData) => void;
+    onSelectScene: (project: ProjectData, lessonKey: string) => void; // Keyed by lesson code, or the path for scenes without one
     onBack: () => void;
 }
 
@@ -20,6 +22,7 @@ const Library: React.FC<LibraryProps> = ({ onSelectScene, onBack }) => {
     const [scenes, setScenes] = React.useState<SceneInfo[]>([]);
     const [discovering, setDiscovering] = React.useState(true);
     const [copiedCode, setCopiedCode] = React.useState<string | null>(null);
+    const [loadReport, setLoadReport] = React.useState<(ValidationResult & { lessonKey: string }) | null>(null);
 
     // Dynamically discover all scenes from manifest.json
     React.useEffect(() => {
@@ -60,13 +63,19 @@ const Library: React.FC<LibraryProps> = ({ onSelectScene, onBack }) => {
         discoverScenes();
     }, []);
 
-    const loadScene = async (scenePath: string) => {
+    const loadScene = async (scene: SceneInfo) => {
+        const scenePath = scene.path;
+        const lessonKey = scene.code || scenePath;
         setLoading(scenePath);
         try {
             const response = await fetch(scenePath);
             if (response.ok) {
-                const sceneData = await response.json();
-                onSelectScene(sceneData);
+                const result = loadProjectData(await response.json());
+                if (result.project && result.issues.length === 0) {
+                    onSelectScene(result.project, lessonKey);
+                } else {
+                    setLoadReport({ ...result, lessonKey });
+                }
             } else {
                 alert('Failed to load scene');
             }
@@ -80,6 +89,14 @@ const Library: React.FC<LibraryProps> = ({ onSelectScene, onBack }) => {
 
     return (
         <div className="w-full h-full bg-slate-950 flex flex-col font-['Inter']">
+            <ValidationReport
+                isOpen={!!loadReport}
+                title="Scene Problems"
+                issues={loadReport?.issues || []}
+                onClose={() => setLoadReport(null)}
+                onContinue={loadReport?.project ? () => onSelectScene(loadReport.project!, loadReport.lessonKey) : undefined}
+            />
+
             {/* Background Effects */}
             <div className="absolute inset-0 overflow-hidden pointer-events-none">
                 <div className="absolute top-[-10%] left-[-10%] w-[40%] h-[40%] bg-indigo-600/10 blur-[120px] rounded-full" />
@@ -167,7 +184,7 @@ const Library: React.FC<LibraryProps> = ({ onSelectScene, onBack }) => {
 
                                     {/* Load Button */}
                                     <button
-                                        onClick={() => loadScene(scene.path)}
+                                        onClick={() => loadScene(scene)}
                                         disabled={loading === scene.path}
                                         className="w-full bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 text-white px-6 py-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 transition-all active:scale-95 disabled:cursor-not-allowed"
                                     >
@@ -0,0 +1,88 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { X, AlertTriangle, XCircle, CheckCircle2, Wrench } from 'lucide-react';
+import { LintIssue } from '../utils/lessonLint';
+
+interface LintPanelProps {
+  issues: LintIssue[];
+  onApplyFix: (issue: LintIssue) => void;
+  onSelectAsset: (assetId: string) => void;
+  onClose: () => void;
+  // Set when the panel was opened by Publish/Export so the author can proceed anyway
+  pendingActionLabel?: string;
+  onContinue?: () => void;
+}
+
+const LintPanel: React.FC<LintPanelProps> = ({ issues, onApplyFix, onSelectAsset, onClose, pendingActionLabel, onContinue }) => {
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      className="absolute top-20 right-4 w-96 max-h-[70vh] flex flex-col bg-slate-900/95 backdrop-blur-xl border border-slate-700 rounded-2xl shadow-2xl z-40"
+    >
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-white">Lesson Checks</h3>
+          <p className="text-[10px] text-slate-500">
+            {issues.length === 0 ? 'No problems found' : `${errorCount} error${errorCount === 1 ? '' : 's'}, ${issues.length - errorCount} warning${issues.length - errorCount === 1 ? '' : 's'}`}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {issues.length === 0 ? (
+          <div className="py-8 flex flex-col items-center gap-2 text-green-400">
+            <CheckCircle2 size={32} />
+            <span className="text-xs font-bold">All steps look good</span>
+          </div>
+        ) : issues.map(issue => (
+          <div
+            key={issue.id}
+            onClick={() => issue.assetId && onSelectAsset(issue.assetId)}
+            className={`p-3 rounded-xl border flex items-start gap-3 ${issue.severity === 'error' ? 'bg-red-500/10 border-red-500/30' : 'bg-amber-500/10 border-amber-500/30'} ${issue.assetId ? 'cursor-pointer' : ''}`}
+          >
+            {issue.severity === 'error'
+              ? <XCircle size={14} className="text-red-400 shrink-0 mt-0.5" />
+              : <AlertTriangle size={14} className="text-amber-400 shrink-0 mt-0.5" />}
+            <div className="flex-1 min-w-0 space-y-2">
+              <p className="text-xs text-slate-200 leading-relaxed">{issue.message}</p>
+              {issue.fix && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onApplyFix(issue); }}
+                  className="flex items-center gap-1.5 px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded text-[10px] font-bold uppercase text-blue-300 transition-colors active:scale-95"
+                >
+                  <Wrench size={10} /> {issue.fix.label}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {pendingActionLabel && onContinue && (
+        <div className="p-3 border-t border-slate-800 flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-slate-800 hover:bg-slate-700 text-white py-2 rounded-xl font-bold text-xs transition-all active:scale-95"
+          >
+            Keep Editing
+          </button>
+          <button
+            onClick={onContinue}
+            className={`flex-1 py-2 rounded-xl font-bold text-xs transition-all active:scale-95 text-white ${issues.length === 0 ? 'bg-blue-600 hover:bg-blue-500' : 'bg-amber-600 hover:bg-amber-500'}`}
+          >
+            {issues.length === 0 ? pendingActionLabel : `${pendingActionLabel} Anyway`}
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default LintPanel;
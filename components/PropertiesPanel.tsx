@@ -1,15 +1,270 @@
 
-import React from 'react';
-import { Asset, Vector3Tuple } from '../types';
-import { Eye, EyeOff, Shield, ShieldOff, Trash2, Anchor } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Asset, NodeOverride, Vector3Tuple } from '../types';
+import { Eye, EyeOff, Shield, ShieldOff, Trash2, Anchor, Box, Circle, Loader2, ChevronRight, ChevronDown, X } from 'lucide-react';
+import { listModelNodes, ModelNode } from '../utils/modelNodes';
+import { ZONE_SHAPES } from '../utils/zones';
 
 interface PropertiesPanelProps {
   asset: Asset;
+  // Every selected asset, including `asset`; with more than one only shared properties are editable
+  selection: Asset[];
   onChange: (updates: Partial<Asset>) => void;
+  onBulkChange: (updates: Partial<Asset>) => void;
   onDelete: () => void;
+  // Part of a model picked in the node tree, used by steps that target a single part
+  selectedNodePath: string | null;
+  onSelectNode: (path: string | null) => void;
 }
 
-const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ asset, onChange, onDelete }) => {
+// Explorer for the parts of a model file: pick a part as a step target and override how it looks
+const ModelNodeTree: React.FC<{
+  url: string;
+  overrides: Record<string, NodeOverride>;
+  onChangeOverrides: (overrides: Record<string, NodeOverride> | undefined) => void;
+  selectedNodePath: string | null;
+  onSelectNode: (path: string | null) => void;
+}> = ({ url, overrides, onChangeOverrides, selectedNodePath, onSelectNode }) => {
+  const [nodes, setNodes] = useState<ModelNode[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setNodes(null);
+    setFailed(false);
+    setCollapsed(new Set());
+    listModelNodes(url)
+      .then(result => { if (!cancelled) setNodes(result); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [url]);
+
+  // Empty overrides are dropped so untouched parts don't clutter the saved lesson
+  const updateOverride = (path: string, updates: Partial<NodeOverride>) => {
+    const merged: NodeOverride = { ...overrides[path], ...updates };
+    (Object.keys(merged) as (keyof NodeOverride)[]).forEach(key => merged[key] === undefined && delete merged[key]);
+    const next = { ...overrides };
+    if (Object.keys(merged).length === 0) {
+      delete next[path];
+    } else {
+      next[path] = merged;
+    }
+    onChangeOverrides(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const hasChildren = (index: number) => !!nodes && index + 1 < nodes.length && nodes[index + 1].depth > nodes[index].depth;
+  const isHiddenByCollapse = (path: string) => [...collapsed].some(parent => path.startsWith(`${parent}/`));
+  const selectedOverride = selectedNodePath ? overrides[selectedNodePath] || {} : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] uppercase font-bold text-slate-500">Model Parts</label>
+        {Object.keys(overrides).length > 0 && (
+          <button onClick={() => onChangeOverrides(undefined)} className="text-[9px] font-bold uppercase text-slate-500 hover:text-white">
+            Reset All
+          </button>
+        )}
+      </div>
+      <div className="max-h-64 overflow-y-auto bg-slate-950/50 border border-slate-800 rounded-lg p-1">
+        {failed ? (
+          <p className="p-2 text-[10px] text-red-400">Could not read the model file.</p>
+        ) : !nodes ? (
+          <div className="p-2 flex items-center gap-2 text-[10px] text-slate-500">
+            <Loader2 size={12} className="animate-spin" /> Reading parts...
+          </div>
+        ) : nodes.map((node, index) => {
+          if (isHiddenByCollapse(node.path)) return null;
+          const override = overrides[node.path];
+          const isCollapsed = collapsed.has(node.path);
+
+          return (
+            <div
+              key={node.path}
+              style={{ paddingLeft: node.depth * 12 }}
+              className={`flex items-center gap-1 pr-1 rounded transition-colors ${node.path === selectedNodePath ? 'bg-yellow-500/20' : 'hover:bg-slate-800'}`}
+            >
+              <button
+                onClick={() => setCollapsed(prev => {
+                  const next = new Set(prev);
+                  if (next.has(node.path)) { next.delete(node.path); } else { next.add(node.path); }
+                  return next;
+                })}
+                className={`w-4 h-4 flex items-center justify-center text-slate-500 hover:text-white shrink-0 ${hasChildren(index) ? '' : 'invisible'}`}
+              >
+                {isCollapsed ? <ChevronRight size={10} /> : <ChevronDown size={10} />}
+              </button>
+              <button
+                onClick={() => onSelectNode(node.path === selectedNodePath ? null : node.path)}
+                title={node.path}
+                className={`flex-1 min-w-0 flex items-center gap-1.5 py-1 text-left text-[11px] ${node.path === selectedNodePath ? 'text-yellow-300' : 'text-slate-300'} ${override?.visible === false ? 'opacity-40' : ''}`}
+              >
+                {node.isMesh ? <Box size={10} className="shrink-0" /> : <Circle size={8} className="shrink-0" />}
+                <span className="truncate">{node.name}</span>
+                {(override?.color || override?.emissive) && (
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: override.emissive || override.color }} />
+                )}
+              </button>
+              <button
+                onClick={() => updateOverride(node.path, { visible: override?.visible === false ? undefined : false })}
+                className={`p-1 rounded hover:bg-slate-700 shrink-0 ${override?.visible === false ? 'text-slate-500' : 'text-blue-400'}`}
+                title={override?.visible === false ? 'Show part' : 'Hide part'}
+              >
+                {override?.visible === false ? <EyeOff size={10} /> : <Eye size={10} />}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {selectedNodePath && selectedOverride && (
+        <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-[10px] font-bold text-yellow-300 truncate" title={selectedNodePath}>{selectedNodePath.split('/').pop()}</span>
+            <button onClick={() => onSelectNode(null)} className="text-[9px] font-bold uppercase text-slate-500 hover:text-white shrink-0">
+              Deselect
+            </button>
+          </div>
+
+          {(['color', 'emissive'] as const).map(key => (
+            <div key={key} className="flex items-center justify-between">
+              <label className="text-[9px] uppercase font-bold text-slate-500">{key === 'color' ? 'Tint' : 'Highlight'}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  className="w-6 h-6 bg-transparent border-none cursor-pointer"
+                  value={selectedOverride[key] || '#ffffff'}
+                  onChange={(e) => updateOverride(selectedNodePath, { [key]: e.target.value })}
+                />
+                {selectedOverride[key] && (
+                  <button onClick={() => updateOverride(selectedNodePath, { [key]: undefined })} className="text-slate-500 hover:text-white">
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <label className="text-[9px] uppercase font-bold text-slate-500">Opacity</label>
+              <span className="text-[9px] text-blue-400 font-mono">{(selectedOverride.opacity ?? 1).toFixed(2)}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              className="w-full"
+              value={selectedOverride.opacity ?? 1}
+              onChange={(e) => {
+                const opacity = parseFloat(e.target.value);
+                updateOverride(selectedNodePath, { opacity: opacity < 1 ? opacity : undefined });
+              }}
+            />
+          </div>
+
+          <button
+            onClick={() => updateOverride(selectedNodePath, { visible: undefined, color: undefined, emissive: undefined, opacity: undefined })}
+            className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 rounded text-[10px] font-bold uppercase text-slate-300 transition-colors"
+          >
+            Reset Part
+          </button>
+        </div>
+      )}
+
+      <p className="text-[9px] text-slate-500 leading-tight">Pick a part to change how it looks, or use it as a step target in the Steps tab.</p>
+    </div>
+  );
+};
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Hex text field that keeps what is typed to itself and only reports complete colors, so "#1", "#12"… never reach the assets
+const HexColorInput: React.FC<{ value: string | null; onChange: (color: string) => void; placeholder?: string }> = ({ value, onChange, placeholder }) => {
+  const [draft, setDraft] = useState(value ?? '');
+
+  useEffect(() => {
+    setDraft(value ?? '');
+  }, [value]);
+
+  return (
+    <input
+      className="flex-1 bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm uppercase font-mono"
+      placeholder={placeholder}
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        if (HEX_COLOR_PATTERN.test(e.target.value)) onChange(e.target.value);
+      }}
+      onBlur={() => setDraft(value ?? '')}
+    />
+  );
+};
+
+const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ asset, selection, onChange, onBulkChange, onDelete, selectedNodePath, onSelectNode }) => {
+  if (selection.length > 1) {
+    const allHidden = selection.every(a => a.visible === false);
+    const allNonCollidable = selection.every(a => a.isCollidable === false);
+    const sharedColor = selection.every(a => a.color.toLowerCase() === asset.color.toLowerCase()) ? asset.color : null;
+
+    return (
+      <div className="p-4 space-y-6">
+        <p className="text-xs text-slate-400">
+          <span className="font-bold text-blue-400">{selection.length} objects</span> selected. Changes apply to all of them.
+        </p>
+
+        <div className="flex items-center justify-between">
+          <label className="text-[10px] uppercase font-bold text-slate-500">Visibility</label>
+          <button
+            onClick={() => onBulkChange({ visible: allHidden })}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${allHidden ? 'bg-slate-800 text-slate-400' : 'bg-blue-600/20 text-blue-400 border border-blue-500/30'}`}
+          >
+            {allHidden ? <><EyeOff size={14} /> Hidden</> : <><Eye size={14} /> Visible</>}
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="text-[10px] uppercase font-bold text-slate-500">Collision</label>
+          <button
+            onClick={() => onBulkChange({ isCollidable: allNonCollidable })}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${allNonCollidable ? 'bg-slate-800 text-slate-400' : 'bg-green-600/20 text-green-400 border border-green-500/30'}`}
+          >
+            {allNonCollidable ? <><ShieldOff size={14} /> Disabled</> : <><Shield size={14} /> Enabled</>}
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-[10px] uppercase font-bold text-slate-500">Color</label>
+          <div className="flex gap-2 items-center">
+            <input
+              type="color"
+              className="w-10 h-10 bg-transparent border-none cursor-pointer"
+              value={sharedColor ?? '#ffffff'}
+              onChange={(e) => onBulkChange({ color: e.target.value })}
+            />
+            <HexColorInput
+              placeholder="Mixed"
+              value={sharedColor}
+              onChange={(color) => onBulkChange({ color })}
+            />
+          </div>
+        </div>
+
+        <div className="pt-4 border-t border-slate-800">
+          <button
+            onClick={onDelete}
+            className="w-full flex items-center justify-center gap-2 p-3 bg-red-600/10 hover:bg-red-600/20 text-red-500 rounded-xl transition-all border border-red-500/20 hover:border-red-500/50"
+          >
+            <Trash2 size={16} />
+            <span className="text-sm font-bold">Delete {selection.length} Objects</span>
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   const handleVectorChange = (key: 'position' | 'rotation' | 'scale', axis: number, value: string) => {
     const newVal = parseFloat(value);
     if (isNaN(newVal)) return;
@@ -84,6 +339,24 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ asset, onChange, onDe
         </div>
       )}
 
+      {asset.type === 'zone' && (
+        <div className="space-y-2">
+          <label className="text-[10px] uppercase font-bold text-slate-500">Zone Shape</label>
+          <div className="grid grid-cols-3 gap-2">
+            {ZONE_SHAPES.map(shape => (
+              <button
+                key={shape}
+                onClick={() => onChange({ geometryType: shape })}
+                className={`py-1.5 rounded text-[10px] font-bold uppercase transition-all ${(asset.geometryType || 'box') === shape ? 'bg-green-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+              >
+                {shape}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500">Learners don't see zones. Reach steps complete when they walk inside.</p>
+        </div>
+      )}
+
       <div className="space-y-2">
         <label className="text-[10px] uppercase font-bold text-slate-500">Color</label>
         <div className="flex gap-2 items-center">
@@ -93,10 +366,9 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ asset, onChange, onDe
             value={asset.color}
             onChange={(e) => onChange({ color: e.target.value })}
           />
-          <input
-            className="flex-1 bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm uppercase font-mono"
+          <HexColorInput
             value={asset.color}
-            onChange={(e) => onChange({ color: e.target.value })}
+            onChange={(color) => onChange({ color })}
           />
         </div>
       </div>
@@ -121,7 +393,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ asset, onChange, onDe
 
       {(['position', 'rotation', 'scale'] as const).map(prop => (
         <div key={prop} className="space-y-2">
-          <label className="text-[10px] uppercase font-bold text-slate-500">{prop}</label>
+          <label className="text-[10px] uppercase font-bold text-slate-500">{prop}{asset.parentId ? ' (relative to parent)' : ''}</label>
           <div className="grid grid-cols-3 gap-2">
             {['X', 'Y', 'Z'].map((axis, i) => (
               <div key={axis} className="flex flex-col gap-1">
@@ -129,8 +401,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ asset, onChange, onDe
                 <input
                   type="number"
                   step="0.1"
-                  disabled={prop === 'scale' && asset.type !== 'shape' && asset.type !== 'text'}
-                  className={`w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-center focus:ring-1 focus:ring-blue-500 ${(prop === 'scale' && asset.type !== 'shape' && asset.type !== 'text') ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  disabled={prop === 'scale' && asset.type !== 'shape' && asset.type !== 'text' && asset.type !== 'zone'}
+                  className={`w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-center focus:ring-1 focus:ring-blue-500 ${(prop === 'scale' && asset.type !== 'shape' && asset.type !== 'text' && asset.type !== 'zone') ? 'opacity-50 cursor-not-allowed' : ''}`}
                   value={Number(asset[prop][i]).toFixed(2)}
                   onChange={(e) => handleVectorChange(prop, i, e.target.value)}
                 />
@@ -140,6 +412,16 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ asset, onChange, onDe
         </div>
       ))}
 
+      {asset.type === 'model' && asset.url && (
+        <ModelNodeTree
+          url={asset.url}
+          overrides={asset.nodeOverrides || {}}
+          onChangeOverrides={(nodeOverrides) => onChange({ nodeOverrides })}
+          selectedNodePath={selectedNodePath}
+          onSelectNode={onSelectNode}
+        />
+      )}
+
       <div className="pt-4 border-t border-slate-800">
         <button
           onClick={onDelete}
@@ -1,6 +1,6 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { Box, Type, Circle, Triangle, Layers, Upload, Loader2, User, ChevronDown, ChevronRight, Watch, Gem } from 'lucide-react';
+import { Box, Type, Circle, Triangle, Layers, Upload, Loader2, User, ChevronDown, ChevronRight, Watch, Gem, BoxSelect, Cylinder } from 'lucide-react';
 import { Asset } from '../types';
 
 interface SidebarProps {
@@ -46,6 +46,12 @@ const Sidebar: React.FC<SidebarProps> = ({ onAddAsset, hasPlayerStart = false })
     Gem: <Gem />,
   };
 
+  const zoneShapes = [
+    { label: 'Box Zone', subType: 'box', icon: <BoxSelect /> },
+    { label: 'Round Zone', subType: 'cylinder', icon: <Cylinder /> },
+    { label: 'Sphere Zone', subType: 'sphere', icon: <Circle /> }
+  ];
+
   // Load models from JSON
   useEffect(() => {
     const loadModels = async () => {
@@ -153,6 +159,26 @@ const Sidebar: React.FC<SidebarProps> = ({ onAddAsset, hasPlayerStart = false })
         </div>
       </section>
 
+      <section>
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Trigger Zones</h4>
+          <span className="text-[10px] text-slate-600 italic">Invisible to learners</span>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {zoneShapes.map((zone) => (
+            <button
+              key={zone.subType}
+              draggable
+              onDragStart={(e) => handleDragStart(e, 'zone', zone.subType)}
+              className="flex flex-col items-center justify-center p-3 bg-green-600/10 hover:bg-green-600/20 border border-green-500/30 border-dashed rounded-xl transition-all hover:scale-105 active:scale-95 group cursor-grab active:cursor-grabbing"
+            >
+              <div className="text-green-400 mb-2 group-hover:scale-110 transition-transform pointer-events-none">{zone.icon}</div>
+              <span className="text-[10px] font-medium text-slate-300 pointer-events-none">{zone.label}</span>
+            </button>
+          ))}
+        </div>
+      </section>
+
       <section>
         <div className="flex items-center justify-between mb-4">
           <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Human</h4>
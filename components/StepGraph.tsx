@@ -0,0 +1,157 @@
+import React from 'react';
+import { Step } from '../types';
+import { StepTransition, findUnreachableSteps, getStepTransitions } from '../utils/lessonFlow';
+
+interface StepGraphProps {
+  steps: Step[];
+  selectedStepId: string | null;
+  onSelect: (stepId: string) => void;
+}
+
+const WIDTH = 280;
+const ROW_HEIGHT = 44;
+const NODE_HEIGHT = 28;
+const NODE_LEFT = 48; // Room on the left for links back to earlier steps
+const NODE_RIGHT = 216; // and on the right for links that skip ahead
+const MAX_TITLE_LENGTH = 22;
+
+const EDGE_COLORS: Record<string, string> = {
+  next: '#94a3b8',
+  correct: '#22c55e',
+  incorrect: '#ef4444',
+  answer: '#60a5fa',
+  condition: '#f59e0b',
+  timeout: '#a855f7'
+};
+
+const LEGEND: { key: string; label: string }[] = [
+  { key: 'next', label: 'Next' },
+  { key: 'correct', label: 'Correct' },
+  { key: 'incorrect', label: 'Incorrect' },
+  { key: 'answer', label: 'Answer' },
+  { key: 'condition', label: 'If' },
+  { key: 'timeout', label: 'Timeout' }
+];
+
+const edgeColorKey = (transition: StepTransition) => transition.kind === 'condition' ? 'condition' : transition.outcome || transition.kind;
+
+const truncate = (text: string) => text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+
+/**
+ * The lesson as a flow chart: steps top to bottom in list order, with every transition drawn as
+ * an arrow. Plain list-order steps are joined by short straight arrows; jumps curve around the
+ * right side when they go ahead and around the left side when they go back.
+ */
+const StepGraph: React.FC<StepGraphProps> = ({ steps, selectedStepId, onSelect }) => {
+  const unreachable = React.useMemo(() => new Set(findUnreachableSteps(steps)), [steps]);
+  const endIndex = steps.length; // The End node sits below the last step
+  const height = (endIndex + 1) * ROW_HEIGHT;
+  const rowTop = (index: number) => index * ROW_HEIGHT + (ROW_HEIGHT - NODE_HEIGHT) / 2;
+  const rowMiddle = (index: number) => rowTop(index) + NODE_HEIGHT / 2;
+
+  const edges = steps.flatMap((step, index) => {
+    const seen = new Set<string>();
+    return getStepTransitions(steps, index)
+      .map(transition => ({ transition, from: index, to: transition.targetIndex ?? endIndex, colorKey: edgeColorKey(transition) }))
+      .filter(({ to, colorKey }) => {
+        // Several answers leading to the same step share one arrow
+        const key = `${to}:${colorKey}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map((edge, order) => ({ ...edge, key: `${step.id}:${order}` }));
+  });
+
+  const edgePath = (from: number, to: number, lane: number) => {
+    if (to === from + 1) {
+      const x = (NODE_LEFT + NODE_RIGHT) / 2 + lane * 8;
+      return `M ${x} ${rowTop(from) + NODE_HEIGHT} L ${x} ${rowTop(to) - 2}`;
+    }
+    const y1 = rowMiddle(from);
+    const y2 = rowMiddle(to) + (to === from ? 6 : 0);
+    const spread = Math.min(Math.abs(to - from), 4) * 8 + 10 + lane * 4;
+    if (to > from) {
+      return `M ${NODE_RIGHT} ${y1} C ${NODE_RIGHT + spread} ${y1}, ${NODE_RIGHT + spread} ${y2}, ${NODE_RIGHT + 2} ${y2}`;
+    }
+    return `M ${NODE_LEFT} ${y1 - (to === from ? 6 : 0)} C ${NODE_LEFT - spread} ${y1}, ${NODE_LEFT - spread} ${y2}, ${NODE_LEFT - 2} ${y2}`;
+  };
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" style={{ height }}>
+        <defs>
+          {Object.entries(EDGE_COLORS).map(([key, color]) => (
+            <marker key={key} id={`flow-arrow-${key}`} viewBox="0 0 6 6" refX="5" refY="3" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 6 3 L 0 6 z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+
+        {edges.map(({ key, transition, from, to, colorKey }) => {
+          const lane = edges.filter(e => e.from === from && e.to === to).findIndex(e => e.key === key);
+          return (
+            <path
+              key={key}
+              d={edgePath(from, to, lane)}
+              fill="none"
+              stroke={EDGE_COLORS[colorKey]}
+              strokeWidth={1.5}
+              markerEnd={`url(#flow-arrow-${colorKey})`}
+            >
+              <title>{`${transition.label} → ${to === endIndex ? 'End of lesson' : steps[to].title}`}</title>
+            </path>
+          );
+        })}
+
+        {steps.map((step, index) => (
+          <g
+            key={step.id}
+            onClick={() => onSelect(step.id)}
+            className="cursor-pointer"
+            opacity={unreachable.has(step.id) ? 0.4 : 1}
+          >
+            <title>{unreachable.has(step.id) ? `${step.title} (never reached)` : step.title}</title>
+            <rect
+              x={NODE_LEFT}
+              y={rowTop(index)}
+              width={NODE_RIGHT - NODE_LEFT}
+              height={NODE_HEIGHT}
+              rx={6}
+              className={step.id === selectedStepId ? 'fill-blue-600/30 stroke-blue-500' : 'fill-slate-800 stroke-slate-600 hover:stroke-slate-400'}
+              strokeWidth={1.5}
+            />
+            <text x={NODE_LEFT + 8} y={rowMiddle(index) + 3.5} className="fill-slate-200 text-[10px] font-medium">
+              <tspan className="fill-blue-400 font-bold">{index === 0 ? 'Intro' : index}</tspan> {truncate(step.title || 'Untitled Step')}
+            </text>
+          </g>
+        ))}
+
+        <g>
+          <rect
+            x={(NODE_LEFT + NODE_RIGHT) / 2 - 32}
+            y={rowTop(endIndex)}
+            width={64}
+            height={NODE_HEIGHT}
+            rx={NODE_HEIGHT / 2}
+            className="fill-green-500/10 stroke-green-500/60"
+            strokeWidth={1.5}
+          />
+          <text x={(NODE_LEFT + NODE_RIGHT) / 2} y={rowMiddle(endIndex) + 3.5} textAnchor="middle" className="fill-green-400 text-[10px] font-bold">
+            END
+          </text>
+        </g>
+      </svg>
+
+      <div className="flex flex-wrap justify-center gap-x-3 gap-y-1">
+        {LEGEND.map(({ key, label }) => (
+          <span key={key} className="flex items-center gap-1 text-[9px] font-bold uppercase text-slate-500">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: EDGE_COLORS[key] }} /> {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StepGraph;
@@ -1,48 +1,1138 @@
 
 import React from 'react';
-import { Plus, Trash2, MousePointer2, Move, Anchor } from 'lucide-react';
-import { Step, Asset, Vector3Tuple } from '../types';
+import { Plus, Trash2, MousePointer2, Move, Anchor, Copy, CopyPlus, ClipboardPaste, Crosshair, X, Video, Camera, Eye, EyeOff, Layers, HelpCircle, Check, Target, Compass, Timer, Boxes, ChevronUp, ChevronDown, List, GitBranch, Variable, Lightbulb } from 'lucide-react';
+import { Step, StepOutcome, StepBranch, StepHint, StepTimeLimit, LessonVariable, VariableEffect, VariableCondition, Asset, AssetState, Quiz, QuizAnswer, IdentifyConfig, IdentifyCandidate, Placement, PlacementSet, ApplyRegion } from '../types';
+import { createStepId } from '../utils/ids';
+import { getWorldPosition } from '../utils/hierarchy';
+import { CameraView } from './Viewport';
+import { copyLessonContent, readLessonContent, cloneSteps } from '../utils/clipboard';
+import { MAX_QUIZ_ANSWERS, MIN_QUIZ_ANSWERS, createQuiz, createQuizAnswer } from '../utils/quiz';
+import { DEFAULT_ORIENTATION_TOLERANCE } from '../utils/orientation';
+import { isCarryAction, isMoveAction } from '../utils/stepActions';
+import { getDwellSeconds } from '../utils/gaze';
+import { createPlacement } from '../utils/placements';
+import { LESSON_END, STEP_OUTCOMES, hasOutcomes, removeStepReferences } from '../utils/lessonFlow';
+import { CONDITION_OPS, EFFECT_OPS, FLAG_CONDITION_OPS } from '../utils/variables';
+import { createHint } from '../utils/hints';
+import StepGraph from './StepGraph';
 
 interface StepManagerProps {
   steps: Step[];
   assets: Asset[];
-  onUpdateSteps: (steps: Step[]) => void;
+  variables: LessonVariable[]; // Defined in the Editor's Lesson tab
+  // label and coalesceKey describe the change for the Editor's undo history
+  onUpdateSteps: (steps: Step[], label: string, coalesceKey?: string) => void;
   selectedAssetId: string | null;
+  selectedNodePath: string | null; // Model part picked in the Properties panel
+  onCaptureView: () => CameraView | null; // Current Editor viewport camera
+  onPreviewView: (step: Step) => void;
 }
 
-const StepManager: React.FC<StepManagerProps> = ({ steps, assets, onUpdateSteps, selectedAssetId }) => {
+const CAMERA_MODES: { value: NonNullable<Step['cameraMode']>; label: string }[] = [
+  { value: 'none', label: 'OFF' },
+  { value: 'fly', label: 'FLY' },
+  { value: 'teleport', label: 'TELEPORT' }
+];
+
+const STEP_TYPES: { value: Step['targetAction']; label: string }[] = [
+  { value: 'none', label: 'INFO' },
+  { value: 'click', label: 'CLICK' },
+  { value: 'move', label: 'MOVE' },
+  { value: 'orient', label: 'ORIENT' },
+  { value: 'quiz', label: 'QUIZ' },
+  { value: 'identify', label: 'IDENTIFY' },
+  { value: 'gaze', label: 'LOOK' },
+  { value: 'reach', label: 'REACH' },
+  { value: 'multi', label: 'MULTI' },
+  { value: 'apply', label: 'APPLY' }
+];
+
+const ORIENTATION_AXES: { value: Step['orientationAxis']; label: string }[] = [
+  { value: undefined, label: 'FULL' },
+  { value: 'x', label: 'X AXIS' },
+  { value: 'y', label: 'Y AXIS' },
+  { value: 'z', label: 'Z AXIS' }
+];
+
+const formatVector = (v: [number, number, number]) => v.map(n => n.toFixed(1)).join(', ');
+
+const stepOptionLabel = (step: Step, index: number) => `${index === 0 ? 'Intro' : `Step ${index}`}: ${step.title || 'Untitled Step'}`;
+
+interface QuizEditorProps {
+  quiz: Quiz;
+  assets: Asset[];
+  onChange: (quiz: Quiz) => void;
+}
+
+const QuizEditor: React.FC<QuizEditorProps> = ({ quiz, assets, onChange }) => {
+  const updateAnswer = (id: string, updates: Partial<QuizAnswer>) => {
+    onChange({ ...quiz, answers: quiz.answers.map(a => a.id === id ? { ...a, ...updates } : a) });
+  };
+
+  const toggleCorrect = (answer: QuizAnswer) => {
+    // Single-answer quizzes keep exactly one correct answer
+    onChange({
+      ...quiz,
+      answers: quiz.answers.map(a => a.id === answer.id
+        ? { ...a, correct: quiz.multiple ? !a.correct : true }
+        : quiz.multiple ? a : { ...a, correct: false })
+    });
+  };
+
+  return (
+    <div className="bg-slate-900/50 p-2 rounded border border-slate-700 space-y-2">
+      <label className="text-[9px] font-bold text-blue-400 flex items-center gap-1">
+        <HelpCircle size={10} /> QUESTION
+      </label>
+      <textarea
+        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-[10px] focus:ring-1 focus:ring-blue-500 h-12 resize-none"
+        value={quiz.question}
+        placeholder="What should the student answer?"
+        onChange={(e) => onChange({ ...quiz, question: e.target.value })}
+      />
+
+      <div className="flex gap-2">
+        {[false, true].map(multiple => (
+          <button
+            key={String(multiple)}
+            onClick={() => onChange({ ...quiz, multiple })}
+            className={`flex-1 py-1 text-[10px] rounded font-bold transition-colors ${quiz.multiple === multiple ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+          >
+            {multiple ? 'MULTIPLE ANSWERS' : 'ONE ANSWER'}
+          </button>
+        ))}
+      </div>
+
+      {quiz.answers.map((answer, i) => (
+        <div key={answer.id} className="bg-slate-950/60 p-2 rounded border border-slate-800 space-y-1.5">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => toggleCorrect(answer)}
+              className={`shrink-0 w-5 h-5 rounded flex items-center justify-center transition-colors ${answer.correct ? 'bg-green-600 text-white' : 'bg-slate-700 text-slate-500'}`}
+              title={answer.correct ? 'Correct answer' : 'Mark as correct'}
+            >
+              <Check size={12} />
+            </button>
+            <input
+              className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500"
+              value={answer.text}
+              placeholder={`Answer ${i + 1}`}
+              onChange={(e) => updateAnswer(answer.id, { text: e.target.value })}
+            />
+            <button
+              onClick={() => onChange({ ...quiz, answers: quiz.answers.filter(a => a.id !== answer.id) })}
+              disabled={quiz.answers.length <= MIN_QUIZ_ANSWERS}
+              className="text-slate-500 hover:text-red-400 disabled:opacity-30"
+              title="Remove answer"
+            >
+              <X size={12} />
+            </button>
+          </div>
+          <select
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500 text-slate-300"
+            value={answer.assetId || ''}
+            onChange={(e) => updateAnswer(answer.id, { assetId: e.target.value || undefined })}
+          >
+            <option value="">Text only</option>
+            {assets.filter(a => a.type !== 'player_start' && a.type !== 'zone').map(a => (
+              <option key={a.id} value={a.id}>Object: {a.name}</option>
+            ))}
+          </select>
+          <input
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500 text-slate-400"
+            value={answer.feedback || ''}
+            placeholder="Feedback when picked (optional)"
+            onChange={(e) => updateAnswer(answer.id, { feedback: e.target.value || undefined })}
+          />
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange({ ...quiz, answers: [...quiz.answers, createQuizAnswer()] })}
+        disabled={quiz.answers.length >= MAX_QUIZ_ANSWERS}
+        className="w-full py-1 rounded text-[10px] font-bold uppercase text-slate-400 hover:text-blue-400 hover:bg-slate-800 transition-colors disabled:opacity-30 flex items-center justify-center gap-1"
+      >
+        <Plus size={10} /> Add Answer
+      </button>
+    </div>
+  );
+};
+
+interface IdentifyEditorProps {
+  identify: IdentifyConfig;
+  assets: Asset[];
+  selectedAssetId: string | null;
+  selectedNodePath: string | null;
+  onChange: (identify: IdentifyConfig) => void;
+}
+
+/**
+ * Wrong choices for an identify step. The step's target object (and part) is the right answer.
+ */
+const IdentifyEditor: React.FC<IdentifyEditorProps> = ({ identify, assets, selectedAssetId, selectedNodePath, onChange }) => {
+  const updateCandidate = (index: number, updates: Partial<IdentifyCandidate>) => {
+    onChange({ ...identify, candidates: identify.candidates.map((c, i) => i === index ? { ...c, ...updates } : c) });
+  };
+
+  const addSelected = () => {
+    if (!selectedAssetId) return;
+    const candidate: IdentifyCandidate = { assetId: selectedAssetId, ...(selectedNodePath ? { nodePath: selectedNodePath } : {}) };
+    onChange({ ...identify, candidates: [...identify.candidates, candidate] });
+  };
+
+  return (
+    <div className="bg-slate-900/50 p-2 rounded border border-slate-700 space-y-2">
+      <label className="text-[9px] font-bold text-blue-400 flex items-center gap-1">
+        <Target size={10} /> WRONG CHOICES
+      </label>
+
+      {identify.candidates.map((candidate, i) => (
+        <div key={i} className="bg-slate-950/60 p-2 rounded border border-slate-800 space-y-1.5">
+          <div className="flex items-center gap-2">
+            <span className="flex-1 min-w-0 text-[10px] text-slate-200 truncate" title={candidate.nodePath}>
+              {assets.find(a => a.id === candidate.assetId)?.name || 'Missing object'}
+              {candidate.nodePath && <span className="text-slate-500"> / {candidate.nodePath}</span>}
+            </span>
+            <button
+              onClick={() => onChange({ ...identify, candidates: identify.candidates.filter((_, j) => j !== i) })}
+              className="text-slate-500 hover:text-red-400"
+              title="Remove choice"
+            >
+              <X size={12} />
+            </button>
+          </div>
+          <input
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500 text-slate-400"
+            value={candidate.feedback || ''}
+            placeholder="Feedback when picked (optional)"
+            onChange={(e) => updateCandidate(i, { feedback: e.target.value || undefined })}
+          />
+        </div>
+      ))}
+
+      <button
+        onClick={addSelected}
+        disabled={!selectedAssetId}
+        className="w-full h-[26px] bg-blue-600 hover:bg-blue-500 text-white text-[9px] font-bold uppercase rounded transition-all disabled:opacity-50 disabled:bg-slate-700 disabled:text-slate-500 flex items-center justify-center gap-1.5 shadow-sm active:scale-95"
+        title="Add the object (or model part) selected in the scene as a wrong choice"
+      >
+        <MousePointer2 size={10} /> Add Selected
+      </button>
+
+      <input
+        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-[10px] focus:ring-1 focus:ring-blue-500"
+        value={identify.wrongFeedback || ''}
+        placeholder="Default feedback for wrong picks"
+        onChange={(e) => onChange({ ...identify, wrongFeedback: e.target.value || undefined })}
+      />
+
+      <div className="flex items-center gap-2">
+        <span className="flex-1 text-[9px] text-slate-500">Reveal the answer after wrong picks</span>
+        <input
+          type="number"
+          min={1}
+          max={99}
+          className="w-14 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500"
+          value={identify.revealAfter ?? ''}
+          placeholder="Never"
+          onChange={(e) => {
+            const value = parseInt(e.target.value, 10);
+            onChange({ ...identify, revealAfter: value > 0 ? Math.min(99, value) : undefined });
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+interface PlacementsEditorProps {
+  placements: PlacementSet;
+  assets: Asset[];
+  selectedAssetId: string | null;
+  onChange: (placements: PlacementSet) => void;
+}
+
+/**
+ * Items of a multi step, each carried to its own destination like the object of a move step.
+ */
+const PlacementsEditor: React.FC<PlacementsEditorProps> = ({ placements, assets, selectedAssetId, onChange }) => {
+  const { items } = placements;
+  const usedIds = new Set(items.map(p => p.assetId));
+  const carriable = assets.filter(a => a.type !== 'player_start' && a.type !== 'zone');
+
+  const updateItem = (index: number, updates: Partial<Placement>) => {
+    onChange({ ...placements, items: items.map((p, i) => i === index ? { ...p, ...updates } : p) });
+  };
+
+  const setDestination = (index: number, anchorId: string) => {
+    const anchor = assets.find(a => a.id === anchorId);
+    updateItem(index, { snapAnchorId: anchor ? anchor.id : undefined, targetPosition: anchor ? getWorldPosition(assets, anchor.id) : undefined });
+  };
+
+  const moveItem = (index: number, delta: number) => {
+    const next = [...items];
+    const [item] = next.splice(index, 1);
+    next.splice(index + delta, 0, item);
+    onChange({ ...placements, items: next });
+  };
+
+  return (
+    <div className="bg-slate-900/50 p-2 rounded border border-slate-700 space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-[9px] font-bold text-blue-400 flex items-center gap-1">
+          <Boxes size={10} /> ITEMS TO PLACE
+        </label>
+        <div className="flex gap-1">
+          {[false, true].map(ordered => (
+            <button
+              key={String(ordered)}
+              onClick={() => onChange({ ...placements, ordered: ordered || undefined })}
+              className={`px-2 py-0.5 text-[9px] rounded font-bold transition-colors ${!!placements.ordered === ordered ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+            >
+              {ordered ? 'IN ORDER' : 'ANY ORDER'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {items.map((item, i) => (
+        <div key={item.assetId} className="bg-slate-950/60 p-2 rounded border border-slate-800 space-y-1.5">
+          <div className="flex items-center gap-2">
+            {placements.ordered && <span className="text-[9px] font-mono text-slate-500">{i + 1}.</span>}
+            <span className="flex-1 min-w-0 text-[10px] text-slate-200 truncate">
+              {assets.find(a => a.id === item.assetId)?.name || 'Missing object'}
+            </span>
+            {placements.ordered && (
+              <>
+                <button onClick={() => moveItem(i, -1)} disabled={i === 0} className="text-slate-500 hover:text-white disabled:opacity-30" title="Place earlier">
+                  <ChevronUp size={12} />
+                </button>
+                <button onClick={() => moveItem(i, 1)} disabled={i === items.length - 1} className="text-slate-500 hover:text-white disabled:opacity-30" title="Place later">
+                  <ChevronDown size={12} />
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => onChange({ ...placements, items: items.filter((_, j) => j !== i) })}
+              className="text-slate-500 hover:text-red-400"
+              title="Remove item"
+            >
+              <X size={12} />
+            </button>
+          </div>
+          <div className="flex gap-2 items-center">
+            <Anchor size={10} className="text-slate-500 shrink-0" />
+            <select
+              className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500 text-blue-100 min-w-0"
+              value={item.snapAnchorId || ''}
+              onChange={(e) => setDestination(i, e.target.value)}
+            >
+              <option value="">Select Destination Object...</option>
+              {assets.filter(a => a.id !== item.assetId && a.type !== 'player_start' && a.type !== 'zone').map(a => (
+                <option key={a.id} value={a.id}>{a.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => selectedAssetId && setDestination(i, selectedAssetId)}
+              disabled={!selectedAssetId || selectedAssetId === item.assetId || selectedAssetId === item.snapAnchorId}
+              className="shrink-0 h-[22px] px-2 bg-blue-600 hover:bg-blue-500 text-white text-[9px] font-bold uppercase rounded transition-all disabled:opacity-50 disabled:bg-slate-700 disabled:text-slate-500 flex items-center gap-1 active:scale-95"
+              title="Set currently selected object in scene as this item's destination"
+            >
+              <MousePointer2 size={10} />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2 items-center">
+        <select
+          className="flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-[10px] focus:ring-1 focus:ring-blue-500 min-w-0"
+          value=""
+          onChange={(e) => e.target.value && onChange({ ...placements, items: [...items, createPlacement(e.target.value)] })}
+        >
+          <option value="">Add item...</option>
+          {carriable.filter(a => !usedIds.has(a.id)).map(a => (
+            <option key={a.id} value={a.id}>{a.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => selectedAssetId && onChange({ ...placements, items: [...items, createPlacement(selectedAssetId)] })}
+          disabled={!selectedAssetId || usedIds.has(selectedAssetId) || !carriable.some(a => a.id === selectedAssetId)}
+          className="shrink-0 h-[26px] px-3 bg-blue-600 hover:bg-blue-500 text-white text-[9px] font-bold uppercase rounded transition-all disabled:opacity-50 disabled:bg-slate-700 disabled:text-slate-500 flex items-center gap-1.5 shadow-sm active:scale-95"
+          title="Add the object selected in the scene as an item"
+        >
+          <MousePointer2 size={10} /> Add Selected
+        </button>
+      </div>
+
+      <p className="text-[8px] text-slate-500 italic leading-tight">
+        {placements.ordered
+          ? 'Student places the items one after another in this order. Each locks once it snaps.'
+          : 'Student places the items in any order. Each locks once it snaps.'}
+      </p>
+    </div>
+  );
+};
+
+interface RegionPickerProps {
+  region?: ApplyRegion;
+  toolId?: string;
+  assets: Asset[];
+  selectedAssetId: string | null;
+  selectedNodePath: string | null;
+  onChange: (region: ApplyRegion | undefined) => void;
+}
+
+/**
+ * Where an apply step's tool has to touch: a whole object, a model part or a trigger zone.
+ */
+const RegionPicker: React.FC<RegionPickerProps> = ({ region, toolId, assets, selectedAssetId, selectedNodePath, onChange }) => {
+  const regionAsset = region ? assets.find(a => a.id === region.assetId) : undefined;
+
+  return (
+    <div className="space-y-1">
+      <label className="text-[9px] uppercase font-bold text-slate-500 flex items-center gap-1">
+        <Target size={10} /> Region to Touch
+      </label>
+      <div className="flex gap-2 items-center">
+        <select
+          className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-[10px] focus:ring-1 focus:ring-blue-500 min-w-0"
+          value={region?.assetId || ''}
+          onChange={(e) => onChange(e.target.value ? { assetId: e.target.value } : undefined)}
+        >
+          <option value="">No region selected</option>
+          {assets.filter(a => a.id !== toolId && a.type !== 'player_start').map(a => (
+            <option key={a.id} value={a.id}>{a.type === 'zone' ? `Zone: ${a.name}` : a.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => selectedAssetId && onChange({ assetId: selectedAssetId, ...(selectedNodePath ? { nodePath: selectedNodePath } : {}) })}
+          disabled={!selectedAssetId || selectedAssetId === toolId}
+          className="shrink-0 h-[26px] px-3 bg-blue-600 hover:bg-blue-500 text-white text-[9px] font-bold uppercase rounded transition-all disabled:opacity-50 disabled:bg-slate-700 disabled:text-slate-500 flex items-center gap-1.5 shadow-sm active:scale-95"
+          title="Use the object (or model part) selected in the scene as the region"
+        >
+          <MousePointer2 size={10} /> Use Selected
+        </button>
+      </div>
+      {regionAsset?.type === 'model' && (
+        <div className="flex gap-2 items-center">
+          <div className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-[10px] truncate min-w-0 text-slate-300" title={region!.nodePath}>
+            {region!.nodePath || 'Whole object'}
+          </div>
+          {region!.nodePath && (
+            <button
+              onClick={() => onChange({ assetId: region!.assetId })}
+              className="shrink-0 h-[26px] px-2 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded transition-all active:scale-95"
+              title="Use the whole object again"
+            >
+              <X size={10} />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface SceneChangesProps {
+  step: Step;
+  assets: Asset[];
+  onChange: (assetStates: Record<string, AssetState> | undefined) => void;
+}
+
+/**
+ * Per-step asset overrides. They apply from this step on until a later step changes them again.
+ */
+const SceneChanges: React.FC<SceneChangesProps> = ({ step, assets, onChange }) => {
+  const states = step.assetStates || {};
+  const changeableAssets = assets.filter(a => a.type !== 'player_start');
+
+  const setState = (assetId: string, state: AssetState | null) => {
+    const next = { ...states };
+    if (state) next[assetId] = state;
+    else delete next[assetId];
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const updateState = (assetId: string, updates: AssetState) => {
+    const state: AssetState = { ...states[assetId], ...updates };
+    (Object.keys(state) as (keyof AssetState)[]).forEach(key => state[key] === undefined && delete state[key]);
+    setState(assetId, state);
+  };
+
+  return (
+    <div className="space-y-1">
+      <label className="text-[9px] uppercase font-bold text-slate-500 flex items-center gap-1">
+        <Layers size={10} /> Scene Changes
+      </label>
+
+      {Object.entries(states).map(([assetId, state]) => {
+        const asset = assets.find(a => a.id === assetId);
+        const visibility = state.visible === undefined ? 'KEEP' : state.visible ? 'SHOW' : 'HIDE';
+        return (
+          <div key={assetId} className="bg-slate-900/50 p-2 rounded border border-slate-700 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[10px] font-bold text-slate-200 truncate">{asset ? asset.name : 'Missing object'}</span>
+              <button onClick={() => setState(assetId, null)} className="text-slate-500 hover:text-red-400" title="Remove change">
+                <X size={12} />
+              </button>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => updateState(assetId, { visible: state.visible === undefined ? true : state.visible ? false : undefined })}
+                className={`flex-1 py-1 text-[10px] rounded font-bold transition-colors flex items-center justify-center gap-1 ${visibility === 'KEEP' ? 'bg-slate-700 text-slate-400' : 'bg-blue-600 text-white'}`}
+                title="Cycle between keep, show and hide"
+              >
+                {state.visible === false ? <EyeOff size={10} /> : <Eye size={10} />} {visibility}
+              </button>
+              <input
+                type="color"
+                value={state.color || asset?.color || '#ffffff'}
+                onChange={(e) => updateState(assetId, { color: e.target.value })}
+                className={`w-8 h-[22px] rounded cursor-pointer bg-transparent ${state.color ? '' : 'opacity-40'}`}
+                title="Color from this step on"
+              />
+              {state.color && (
+                <button onClick={() => updateState(assetId, { color: undefined })} className="text-slate-500 hover:text-white" title="Keep the current color">
+                  <X size={10} />
+                </button>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-[9px] text-slate-500 w-12">Opacity</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={state.opacity ?? asset?.opacity ?? 1}
+                onChange={(e) => updateState(assetId, { opacity: parseFloat(e.target.value) })}
+                className={`flex-1 ${state.opacity === undefined ? 'opacity-40' : ''}`}
+              />
+              {state.opacity !== undefined && (
+                <button onClick={() => updateState(assetId, { opacity: undefined })} className="text-slate-500 hover:text-white" title="Keep the current opacity">
+                  <X size={10} />
+                </button>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="flex-1 text-[9px] text-slate-500 truncate">
+                {state.position ? `Moves to ${formatVector(state.position)}` : 'Stays in place'}
+              </span>
+              {state.position ? (
+                <button
+                  onClick={() => updateState(assetId, { position: undefined, rotation: undefined, scale: undefined })}
+                  className="text-slate-500 hover:text-white"
+                  title="Keep the current transform"
+                >
+                  <X size={10} />
+                </button>
+              ) : null}
+              <button
+                onClick={() => asset && updateState(assetId, { position: asset.position, rotation: asset.rotation, scale: asset.scale })}
+                disabled={!asset}
+                className="shrink-0 px-2 py-1 bg-slate-700 hover:bg-slate-600 text-[9px] font-bold uppercase rounded transition-all active:scale-95 disabled:opacity-50"
+                title="Store where the object is in the editor now"
+              >
+                Use Current
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <select
+        className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-[10px] focus:ring-1 focus:ring-blue-500 text-slate-300"
+        value=""
+        onChange={(e) => e.target.value && setState(e.target.value, {})}
+      >
+        <option value="">Add object change...</option>
+        {changeableAssets.filter(a => !states[a.id]).map(a => (
+          <option key={a.id} value={a.id}>{a.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+interface VariableValueInputProps {
+  variable?: LessonVariable;
+  value: number | boolean;
+  onChange: (value: number | boolean) => void;
+}
+
+const VariableValueInput: React.FC<VariableValueInputProps> = ({ variable, value, onChange }) => {
+  const inputClass = 'w-16 shrink-0 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-[10px] focus:ring-1 focus:ring-blue-500 text-slate-300';
+  if (variable?.type === 'boolean') {
+    return (
+      <select className={inputClass} value={String(value)} onChange={(e) => onChange(e.target.value === 'true')}>
+        <option value="true">yes</option>
+        <option value="false">no</option>
+      </select>
+    );
+  }
+  return (
+    <input
+      type="number"
+      className={inputClass}
+      value={typeof value === 'number' ? value : 0}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+    />
+  );
+};
+
+interface VariableSelectProps {
+  variables: LessonVariable[];
+  value: string;
+  onChange: (variable: LessonVariable) => void;
+}
+
+const VariableSelect: React.FC<VariableSelectProps> = ({ variables, value, onChange }) => (
+  <select
+    className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-[10px] font-mono focus:ring-1 focus:ring-blue-500 text-slate-300"
+    value={value}
+    onChange={(e) => {
+      const variable = variables.find(v => v.name === e.target.value);
+      if (variable) onChange(variable);
+    }}
+  >
+    {!variables.some(v => v.name === value) && <option value={value}>{value} (missing)</option>}
+    {variables.map(v => (
+      <option key={v.name} value={v.name}>{v.name}</option>
+    ))}
+  </select>
+);
+
+interface EffectsEditorProps {
+  title: string;
+  effects?: VariableEffect[];
+  variables: LessonVariable[];
+  onChange: (effects: VariableEffect[] | undefined) => void;
+}
+
+// Variable changes for one moment of a step, applied in list order
+const EffectsEditor: React.FC<EffectsEditorProps> = ({ title, effects = [], variables, onChange }) => {
+  const update = (index: number, updates: Partial<VariableEffect>) => {
+    onChange(effects.map((e, i) => i === index ? { ...e, ...updates } : e));
+  };
+  const remove = (index: number) => {
+    const next = effects.filter((_, i) => i !== index);
+    onChange(next.length > 0 ? next : undefined);
+  };
+  // Flags can only be set; numbers start out adding so a deteriorating value is one field away
+  const effectFor = (variable: LessonVariable): VariableEffect => ({
+    variable: variable.name,
+    op: variable.type === 'number' ? 'add' : 'set',
+    value: variable.type === 'number' ? 0 : true
+  });
+
+  return (
+    <div className="space-y-1">
+      <span className="text-[9px] uppercase font-bold text-slate-500">{title}</span>
+      {effects.map((effect, i) => {
+        const variable = variables.find(v => v.name === effect.variable);
+        return (
+          <div key={i} className="flex items-center gap-1">
+            <VariableSelect variables={variables} value={effect.variable} onChange={(v) => update(i, effectFor(v))} />
+            <select
+              className="w-10 shrink-0 bg-slate-900 border border-slate-700 rounded px-1 py-1 text-[10px] font-mono focus:ring-1 focus:ring-blue-500 text-slate-300"
+              value={effect.op}
+              onChange={(e) => update(i, { op: e.target.value as VariableEffect['op'] })}
+            >
+              {EFFECT_OPS.filter(op => variable?.type !== 'boolean' || op.value === 'set').map(op => (
+                <option key={op.value} value={op.value}>{op.label}</option>
+              ))}
+            </select>
+            <VariableValueInput variable={variable} value={effect.value} onChange={(value) => update(i, { value })} />
+            <button onClick={() => remove(i)} className="text-slate-500 hover:text-red-400" title="Remove change">
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+      <select
+        className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500 text-slate-300"
+        value=""
+        onChange={(e) => {
+          const variable = variables.find(v => v.name === e.target.value);
+          if (variable) onChange([...effects, effectFor(variable)]);
+        }}
+      >
+        <option value="">Add variable change...</option>
+        {variables.map(v => (
+          <option key={v.name} value={v.name}>{v.label || v.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+interface HintsEditorProps {
+  step: Step;
+  onChange: (hints: StepHint[] | undefined) => void;
+}
+
+/**
+ * Hints in the order learners get them. Each one unlocks after the one before; a delay shows it
+ * without being asked.
+ */
+const HintsEditor: React.FC<HintsEditorProps> = ({ step, onChange }) => {
+  const hints = step.hints || [];
+  const update = (index: number, updates: Partial<StepHint>) => {
+    onChange(hints.map((h, i) => {
+      if (i !== index) return h;
+      const next = { ...h, ...updates };
+      (Object.keys(next) as (keyof StepHint)[]).forEach(key => next[key] === undefined && delete next[key]);
+      return next;
+    }));
+  };
+  const remove = (index: number) => {
+    const next = hints.filter((_, i) => i !== index);
+    onChange(next.length > 0 ? next : undefined);
+  };
+  const marks: { key: 'highlightTarget' | 'showGhost' | 'showArrow'; label: string; title: string }[] = [
+    { key: 'highlightTarget', label: 'GLOW', title: step.targetAction === 'apply' ? 'Make the region glow' : 'Make the target glow' },
+    ...(isCarryAction(step.targetAction) ? [{ key: 'showGhost' as const, label: 'GHOST', title: 'Show where the objects go' }] : []),
+    { key: 'showArrow', label: 'ARROW', title: 'Point an arrow at the target' }
+  ];
+
+  return (
+    <div className="space-y-1">
+      <label className="text-[9px] uppercase font-bold text-slate-500 flex items-center gap-1">
+        <Lightbulb size={10} /> Hints
+      </label>
+      <div className="bg-slate-900/50 p-2 rounded border border-slate-700 space-y-2">
+        {hints.length === 0 && (
+          <p className="text-[8px] text-slate-500 italic leading-tight">
+            Without hints, practice runs always mark the target and destinations.
+          </p>
+        )}
+        {hints.map((hint, i) => (
+          <div key={i} className="space-y-1">
+            <div className="flex items-center gap-1">
+              <span className="text-[9px] font-bold text-blue-400 w-4 shrink-0">{i + 1}</span>
+              <input
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500"
+                value={hint.text || ''}
+                placeholder="Hint text (optional)"
+                onChange={(e) => update(i, { text: e.target.value || undefined })}
+              />
+              <button onClick={() => remove(i)} className="text-slate-500 hover:text-red-400" title="Remove hint">
+                <X size={12} />
+              </button>
+            </div>
+            <div className="flex items-center gap-1 pl-5">
+              {marks.map(mark => (
+                <button
+                  key={mark.key}
+                  onClick={() => update(i, { [mark.key]: hint[mark.key] ? undefined : true })}
+                  className={`px-1.5 py-0.5 text-[8px] rounded font-bold transition-colors ${hint[mark.key] ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+                  title={mark.title}
+                >
+                  {mark.label}
+                </button>
+              ))}
+              <Timer size={10} className="ml-auto text-slate-500 shrink-0" />
+              <input
+                type="number"
+                min={0}
+                className="w-12 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] focus:ring-1 focus:ring-blue-500"
+                value={hint.delaySeconds ?? ''}
+                placeholder="Ask"
+                title="Seconds until the hint shows on its own; empty waits for the learner to ask"
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  update(i, { delaySeconds: Number.isFinite(value) ? Math.max(0, value) : undefined });
+                }}
+              />
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange([...hints, createHint()])}
+          className="w-full py-1 text-[10px] font-bold text-slate-400 hover:text-blue-400 flex items-center justify-center gap-1"
+        >
+          <Plus size={10} /> Add Hint
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TIMEOUT_ACTIONS: { value: StepTimeLimit['onTimeout']; label: string; title: string }[] = [
+  { value: 'advance', label: 'GO ON', title: 'Go on as if the step was finished' },
+  { value: 'fail', label: 'FAIL', title: 'Go on with the Incorrect outcome and the mistake changes' },
+  { value: 'branch', label: 'BRANCH', title: 'Go to a remediation step' },
+  { value: 'hint', label: 'HINT', title: 'Show the next hint and count down again' }
+];
+
+interface TimeLimitEditorProps {
+  step: Step;
+  steps: Step[];
+  onChange: (timeLimit: StepTimeLimit | undefined) => void;
+}
+
+// Countdown for the step and what happens when it runs out; timed-out steps score no points
+const TimeLimitEditor: React.FC<TimeLimitEditorProps> = ({ step, steps, onChange }) => {
+  const timeLimit = step.timeLimit;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <label className="text-[9px] uppercase font-bold text-slate-500 flex items-center gap-1">
+          <Timer size={10} /> Time Limit
+        </label>
+        <button
+          onClick={() => onChange(timeLimit ? undefined : { seconds: 10, onTimeout: 'advance' })}
+          className={`px-1.5 py-0.5 text-[8px] rounded font-bold transition-colors ${timeLimit ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+        >
+          {timeLimit ? 'ON' : 'OFF'}
+        </button>
+      </div>
+      {timeLimit && (
+        <div className="bg-slate-900/50 p-2 rounded border border-slate-700 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500"
+              value={timeLimit.seconds}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (Number.isFinite(value)) onChange({ ...timeLimit, seconds: Math.max(1, value) });
+              }}
+            />
+            <span className="text-[9px] uppercase font-bold text-slate-500">seconds, then</span>
+          </div>
+          <div className="flex gap-1">
+            {TIMEOUT_ACTIONS.map(action => (
+              <button
+                key={action.value}
+                onClick={() => onChange(action.value === 'branch' ? { ...timeLimit, onTimeout: action.value } : { seconds: timeLimit.seconds, onTimeout: action.value })}
+                className={`flex-1 py-1 text-[8px] rounded font-bold transition-colors ${timeLimit.onTimeout === action.value ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+                title={action.title}
+              >
+                {action.label}
+              </button>
+            ))}
+          </div>
+          {timeLimit.onTimeout === 'branch' && (
+            <select
+              className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500 text-slate-300"
+              value={timeLimit.branchStepId || ''}
+              onChange={(e) => onChange(e.target.value ? { ...timeLimit, branchStepId: e.target.value } : { seconds: timeLimit.seconds, onTimeout: 'branch' })}
+            >
+              <option value="">Choose a step...</option>
+              {steps.map((s, i) => s.id !== step.id && (
+                <option key={s.id} value={s.id}>{stepOptionLabel(s, i)}</option>
+              ))}
+              <option value={LESSON_END}>End of lesson</option>
+            </select>
+          )}
+          {timeLimit.onTimeout === 'hint' && !step.hints?.length && (
+            <p className="text-[8px] text-amber-400 italic leading-tight">Add hints above for this to show anything.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface TransitionsEditorProps {
+  step: Step;
+  steps: Step[];
+  variables: LessonVariable[];
+  onChange: (updates: Partial<Step>) => void;
+}
+
+// Where the lesson goes after a step; see utils/lessonFlow.ts for which link wins
+const TransitionsEditor: React.FC<TransitionsEditorProps> = ({ step, steps, variables, onChange }) => {
+  const index = steps.findIndex(s => s.id === step.id);
+  const listNext = steps[index + 1];
+
+  const renderSelect = (value: string | undefined, emptyLabel: string, onSelect: (nextStepId: string | undefined) => void) => (
+    <select
+      className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500 text-slate-300"
+      value={value || ''}
+      onChange={(e) => onSelect(e.target.value || undefined)}
+    >
+      <option value="">{emptyLabel}</option>
+      {steps.map((s, i) => (
+        <option key={s.id} value={s.id}>{stepOptionLabel(s, i)}</option>
+      ))}
+      <option value={LESSON_END}>End of lesson</option>
+    </select>
+  );
+
+  const branches = step.branches || [];
+  const setBranches = (next: StepBranch[]) => onChange({ branches: next.length > 0 ? next : undefined });
+
+  // Outcome-only branches, one per outcome; conditional branches are listed separately below
+  const setBranch = (outcome: StepOutcome, nextStepId: string | undefined) => {
+    const others = branches.filter(b => b.condition || b.outcome !== outcome);
+    setBranches(nextStepId ? [...others, { outcome, nextStepId }] : others);
+  };
+
+  const updateBranch = (branch: StepBranch, updates: Partial<StepBranch>) => {
+    setBranches(branches.map(b => b === branch ? { ...b, ...updates } : b));
+  };
+
+  const conditionFor = (variable: LessonVariable): VariableCondition => ({
+    variable: variable.name,
+    op: variable.type === 'number' ? '<' : '==',
+    value: variable.type === 'number' ? 0 : true
+  });
+
+  const setAnswerNext = (answerId: string, nextStepId: string | undefined) => {
+    if (!step.quiz) return;
+    onChange({ quiz: { ...step.quiz, answers: step.quiz.answers.map(a => a.id === answerId ? { ...a, nextStepId } : a) } });
+  };
+
+  return (
+    <div className="bg-slate-900/50 p-2 rounded border border-slate-700 space-y-2">
+      <label className="text-[9px] font-bold text-blue-400 flex items-center gap-1">
+        <GitBranch size={10} /> THEN GO TO
+      </label>
+      {renderSelect(step.nextStepId, listNext ? `Next in list (${stepOptionLabel(listNext, index + 1)})` : 'Next in list (end of lesson)', (nextStepId) => onChange({ nextStepId }))}
+
+      {hasOutcomes(step) && STEP_OUTCOMES.map(outcome => (
+        <div key={outcome.value} className="space-y-1">
+          <span className={`text-[9px] font-bold uppercase ${outcome.value === 'correct' ? 'text-green-400' : 'text-red-400'}`}>
+            {step.targetAction === 'identify' && outcome.value === 'correct' ? 'If right on the first try' : `If ${outcome.label.toLowerCase()}`}
+          </span>
+          {renderSelect(branches.find(b => !b.condition && b.outcome === outcome.value)?.nextStepId, 'Same as above', (nextStepId) => setBranch(outcome.value, nextStepId))}
+        </div>
+      ))}
+
+      {step.targetAction === 'quiz' && step.quiz && step.quiz.answers.map((answer, i) => (
+        <div key={answer.id} className="space-y-1">
+          <span className="text-[9px] font-bold uppercase text-blue-300 block truncate">If picked: {answer.text || `Answer ${i + 1}`}</span>
+          {renderSelect(answer.nextStepId, 'Follow the outcome', (nextStepId) => setAnswerNext(answer.id, nextStepId))}
+        </div>
+      ))}
+
+      {branches.filter(b => b.condition).map((branch, i) => {
+        const condition = branch.condition!;
+        const variable = variables.find(v => v.name === condition.variable);
+        return (
+          <div key={i} className="bg-slate-950/60 p-2 rounded border border-amber-500/30 space-y-1">
+            <div className="flex items-center gap-1">
+              <span className="text-[9px] font-bold uppercase text-amber-400 shrink-0">If</span>
+              <VariableSelect variables={variables} value={condition.variable} onChange={(v) => updateBranch(branch, { condition: conditionFor(v) })} />
+              <select
+                className="w-11 shrink-0 bg-slate-900 border border-slate-700 rounded px-1 py-1 text-[10px] font-mono focus:ring-1 focus:ring-blue-500 text-slate-300"
+                value={condition.op}
+                onChange={(e) => updateBranch(branch, { condition: { ...condition, op: e.target.value as VariableCondition['op'] } })}
+              >
+                {(variable?.type === 'boolean' ? FLAG_CONDITION_OPS : CONDITION_OPS).map(op => (
+                  <option key={op} value={op}>{op}</option>
+                ))}
+              </select>
+              <VariableValueInput variable={variable} value={condition.value} onChange={(value) => updateBranch(branch, { condition: { ...condition, value } })} />
+              <button onClick={() => setBranches(branches.filter(b => b !== branch))} className="text-slate-500 hover:text-red-400" title="Remove condition">
+                <X size={12} />
+              </button>
+            </div>
+            {hasOutcomes(step) && (
+              <select
+                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[10px] focus:ring-1 focus:ring-blue-500 text-slate-300"
+                value={branch.outcome || ''}
+                onChange={(e) => updateBranch(branch, { outcome: (e.target.value || undefined) as StepOutcome | undefined })}
+              >
+                <option value="">Any outcome</option>
+                {STEP_OUTCOMES.map(o => (
+                  <option key={o.value} value={o.value}>Only if {o.label.toLowerCase()}</option>
+                ))}
+              </select>
+            )}
+            {renderSelect(branch.nextStepId, 'Choose a step...', (nextStepId) => nextStepId && updateBranch(branch, { nextStepId }))}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => setBranches([{ condition: conditionFor(variables[0]), nextStepId: listNext?.id || LESSON_END }, ...branches])}
+        disabled={variables.length === 0}
+        className="w-full py-1 rounded text-[10px] font-bold uppercase text-slate-400 hover:text-amber-400 hover:bg-slate-800 transition-colors disabled:opacity-30 flex items-center justify-center gap-1"
+        title={variables.length === 0 ? 'Add variables in the Lesson tab first' : 'Go somewhere else when a variable has a certain value'}
+      >
+        <Plus size={10} /> Add Condition
+      </button>
+
+      <p className="text-[8px] text-slate-500 italic leading-tight">
+        {step.targetAction === 'quiz'
+          ? 'A picked answer\'s link wins over conditions, then the outcome, then the step\'s own link.'
+          : hasOutcomes(step)
+            ? 'Conditions are checked first, then the outcome, then the step\'s own link.'
+            : 'Conditions are checked after the step\'s variable changes, before its own link.'}
+      </p>
+    </div>
+  );
+};
+
+const StepManager: React.FC<StepManagerProps> = ({ steps, assets, variables, onUpdateSteps, selectedAssetId, selectedNodePath, onCaptureView, onPreviewView }) => {
+  const [view, setView] = React.useState<'list' | 'flow'>('list');
+  const [flowStepId, setFlowStepId] = React.useState<string | null>(null); // Step whose links are edited in the flow view
+  const flowStep = steps.find(s => s.id === flowStepId);
+
   const addStep = () => {
+    // New steps start from the current viewport view instead of a fixed position
+    const view = onCaptureView();
     const newStep: Step = {
-      id: `step_${Date.now()}`,
+      id: createStepId(),
       title: `Step ${steps.length}`,
       instruction: "Explain what the student should do here...",
-      cameraPosition: [5, 5, 5],
+      cameraPosition: view ? view.position : [5, 5, 5],
+      ...(view ? { cameraTarget: view.target } : {}),
       targetAction: 'none'
     };
-    onUpdateSteps([...steps, newStep]);
+    onUpdateSteps([...steps, newStep], 'Add step');
   };
 
   const updateStep = (id: string, updates: Partial<Step>) => {
-    onUpdateSteps(steps.map(s => s.id === id ? { ...s, ...updates } : s));
+    const fields = Object.keys(updates).sort().join(', ');
+    onUpdateSteps(steps.map(s => s.id === id ? { ...s, ...updates } : s), `Edit step ${fields}`, `step:${id}:${fields}`);
+  };
+
+  const isZone = (assetId?: string) => assets.find(a => a.id === assetId)?.type === 'zone';
+
+  // Picking an object for an info step turns it into the step type that object supports
+  const targetActionFor = (step: Step, assetId: string): Step['targetAction'] => {
+    if (!assetId) return 'none';
+    if (step.targetAction !== 'none') return step.targetAction;
+    return isZone(assetId) ? 'reach' : 'click';
+  };
+
+  const setStepType = (step: Step, targetAction: Step['targetAction']) => {
+    // Settings that only make sense for the previous type are dropped
+    const cleared: Partial<Step> = {
+      quiz: undefined,
+      identify: undefined,
+      placements: undefined,
+      ...(targetAction === 'orient' ? {} : { targetRotation: undefined, orientationTolerance: undefined, orientationAxis: undefined }),
+      ...(targetAction === 'gaze' || targetAction === 'apply' ? {} : { dwellSeconds: undefined }),
+      ...(targetAction === 'apply' ? {} : { region: undefined }),
+      // Only quiz and identify steps can go wrong; branches on variables work for every type
+      ...(hasOutcomes({ ...step, targetAction }) ? {} : {
+        branches: step.branches?.some(b => !b.outcome) ? step.branches.filter(b => !b.outcome) : undefined,
+        onMistake: undefined
+      }),
+      // Info steps have nothing to help with
+      ...(targetAction === 'none' ? { hints: undefined } : {}),
+      // Reach steps can only target trigger zones
+      ...(targetAction === 'reach' && !isZone(step.targetAssetId) ? { targetAssetId: undefined, targetNodePath: undefined } : {})
+    };
+    if (targetAction === 'quiz' || targetAction === 'multi') {
+      // Quiz answers and multi step items live on the step, so object targets no longer apply.
+      // A move step's object and destination become the first item.
+      const carried = isMoveAction(step.targetAction) && step.targetAssetId
+        ? [{ ...createPlacement(step.targetAssetId), snapAnchorId: step.snapAnchorId, targetPosition: step.targetPosition }]
+        : [];
+      updateStep(step.id, {
+        ...cleared,
+        targetAction,
+        ...(targetAction === 'quiz' ? { quiz: step.quiz || createQuiz() } : { placements: step.placements || { items: carried } }),
+        targetAssetId: undefined,
+        targetNodePath: undefined,
+        snapAnchorId: undefined,
+        targetPosition: undefined
+      });
+    } else {
+      updateStep(step.id, {
+        ...cleared,
+        targetAction,
+        ...(targetAction === 'identify' ? { identify: step.identify || { candidates: [] } } : {})
+      });
+    }
   };
 
   const deleteStep = (id: string) => {
-    onUpdateSteps(steps.filter(s => s.id !== id));
+    // Steps that led to the deleted one go on in list order instead
+    onUpdateSteps(removeStepReferences(steps.filter(s => s.id !== id), id), 'Delete step');
   };
 
+  const duplicateStep = (index: number) => {
+    const [copy] = cloneSteps([steps[index]], assets, steps);
+    const next = [...steps];
+    next.splice(index + 1, 0, { ...copy, title: `${copy.title} (copy)` });
+    onUpdateSteps(next, 'Duplicate step');
+  };
 
+  const pasteSteps = async () => {
+    const content = await readLessonContent();
+    if (!content || content.steps.length === 0) return;
+    const pasted = cloneSteps(content.steps, assets, steps);
+    onUpdateSteps([...steps, ...pasted], pasted.length === 1 ? 'Paste step' : `Paste ${pasted.length} steps`);
+  };
+
+  const viewToggle = (
+    <div className="flex gap-2">
+      {([['list', 'LIST', List], ['flow', 'FLOW', GitBranch]] as const).map(([value, label, Icon]) => (
+        <button
+          key={value}
+          onClick={() => setView(value)}
+          className={`flex-1 py-1 text-[10px] rounded font-bold transition-colors flex items-center justify-center gap-1 ${view === value ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+        >
+          <Icon size={10} /> {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (view === 'flow') {
+    return (
+      <div className="space-y-4">
+        {viewToggle}
+        <StepGraph steps={steps} selectedStepId={flowStepId} onSelect={setFlowStepId} />
+        {flowStep ? (
+          <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 space-y-3 shadow-lg">
+            <span className="text-xs font-bold text-blue-400 bg-blue-400/10 px-2 py-0.5 rounded">
+              {stepOptionLabel(flowStep, steps.indexOf(flowStep)).toUpperCase()}
+            </span>
+            <TransitionsEditor
+              step={flowStep}
+              steps={steps}
+              variables={variables}
+              onChange={(updates) => updateStep(flowStep.id, updates)}
+            />
+          </div>
+        ) : (
+          <p className="text-[10px] text-slate-500 italic text-center">Click a step to choose where the lesson goes after it.</p>
+        )}
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-4">
+      {viewToggle}
       {steps.map((step, index) => (
         <div key={step.id} className="bg-slate-800 border border-slate-700 rounded-xl p-4 space-y-3 shadow-lg">
           <div className="flex items-center justify-between">
             <span className="text-xs font-bold text-blue-400 bg-blue-400/10 px-2 py-0.5 rounded">
               {index === 0 ? 'INTRODUCTION' : `STEP ${index}`}
             </span>
-            <button onClick={() => deleteStep(step.id)} className="text-slate-500 hover:text-red-400 p-1">
-              <Trash2 size={14} />
-            </button>
+            <div className="flex items-center">
+              <button
+                onClick={() => { setFlowStepId(step.id); setView('flow'); }}
+                className={`p-1 hover:text-blue-400 ${step.nextStepId || step.branches || step.quiz?.answers.some(a => a.nextStepId) ? 'text-blue-400' : 'text-slate-500'}`}
+                title="Choose where the lesson goes after this step"
+              >
+                <GitBranch size={14} />
+              </button>
+              <button onClick={() => copyLessonContent({ steps: [step] })} className="text-slate-500 hover:text-blue-400 p-1" title="Copy step">
+                <Copy size={14} />
+              </button>
+              <button onClick={() => duplicateStep(index)} className="text-slate-500 hover:text-blue-400 p-1" title="Duplicate step">
+                <CopyPlus size={14} />
+              </button>
+              <button onClick={() => deleteStep(step.id)} className="text-slate-500 hover:text-red-400 p-1" title="Delete step">
+                <Trash2 size={14} />
+              </button>
+            </div>
           </div>
 
           <input
@@ -59,66 +1149,207 @@ const StepManager: React.FC<StepManagerProps> = ({ steps, assets, onUpdateSteps,
             onChange={(e) => updateStep(step.id, { instruction: e.target.value })}
           />
 
+          <div className="space-y-1">
+            <label className="text-[9px] uppercase font-bold text-slate-500 flex items-center gap-1">
+              <Video size={10} /> Camera on Step Start
+            </label>
+            <div className="flex gap-2">
+              {CAMERA_MODES.map(mode => (
+                <button
+                  key={mode.value}
+                  onClick={() => updateStep(step.id, { cameraMode: mode.value })}
+                  className={`flex-1 py-1 text-[10px] rounded font-bold transition-colors ${(step.cameraMode || 'none') === mode.value ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            {step.cameraMode && step.cameraMode !== 'none' && (
+              <div className="flex gap-2 items-center">
+                <span className="flex-1 text-[9px] text-slate-500 font-mono truncate" title={step.cameraTarget ? `Looking at ${formatVector(step.cameraTarget)}` : undefined}>
+                  {formatVector(step.cameraPosition)}
+                </span>
+                <button
+                  onClick={() => onPreviewView(step)}
+                  className="shrink-0 h-[26px] px-2 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded transition-all active:scale-95"
+                  title="Show this view in the viewport"
+                >
+                  <Eye size={10} />
+                </button>
+                <button
+                  onClick={() => {
+                    const view = onCaptureView();
+                    if (view) updateStep(step.id, { cameraPosition: view.position, cameraTarget: view.target });
+                  }}
+                  className="shrink-0 h-[26px] px-3 bg-blue-600 hover:bg-blue-500 text-white text-[9px] font-bold uppercase rounded transition-all flex items-center gap-1.5 shadow-sm active:scale-95"
+                  title="Use the current viewport camera as this step's view"
+                >
+                  <Camera size={10} /> Capture View
+                </button>
+              </div>
+            )}
+          </div>
+
           {index !== 0 && (
             <div className="space-y-3 pt-2 border-t border-slate-700/50">
               <div className="space-y-1">
-                <label className="text-[9px] uppercase font-bold text-slate-500 flex items-center gap-1">
-                  <MousePointer2 size={10} /> Movable Object
-                </label>
-                <div className="flex gap-2 items-center">
-                  <select
-                    className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-[10px] focus:ring-1 focus:ring-blue-500 min-w-0"
-                    value={step.targetAssetId || ''}
-                    onChange={(e) => updateStep(step.id, {
-                      targetAssetId: e.target.value,
-                      targetAction: e.target.value ? (step.targetAction === 'none' ? 'click' : step.targetAction) : 'none'
-                    })}
-                  >
-                    <option value="">No object selected</option>
-                    {assets.map(a => (
-                      <option key={a.id} value={a.id}>{a.name}</option>
-                    ))}
-                  </select>
-
-                  <button
-                    onClick={() => {
-                      if (selectedAssetId && selectedAssetId !== step.targetAssetId) {
-                        updateStep(step.id, {
-                          targetAssetId: selectedAssetId,
-                          targetAction: step.targetAction === 'none' ? 'click' : step.targetAction
-                        });
-                      }
-                    }}
-                    disabled={!selectedAssetId || selectedAssetId === step.targetAssetId}
-                    className="shrink-0 h-[26px] px-3 bg-blue-600 hover:bg-blue-500 text-white text-[9px] font-bold uppercase rounded transition-all disabled:opacity-50 disabled:bg-slate-700 disabled:text-slate-500 flex items-center gap-1.5 shadow-sm active:scale-95"
-                    title="Set currently selected object in scene as target"
-                  >
-                    <MousePointer2 size={10} /> Use Selected
-                  </button>
+                <label className="text-[9px] uppercase font-bold text-slate-500">Step Type</label>
+                <div className="flex gap-2">
+                  {STEP_TYPES.map(type => (
+                    <button
+                      key={type.value}
+                      onClick={() => step.targetAction !== type.value && setStepType(step, type.value)}
+                      className={`flex-1 py-1 text-[10px] rounded font-bold transition-colors ${step.targetAction === type.value ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+                    >
+                      {type.label}
+                    </button>
+                  ))}
                 </div>
               </div>
 
-              {step.targetAssetId && (
+              {step.targetAction === 'quiz' && step.quiz && (
+                <QuizEditor quiz={step.quiz} assets={assets} onChange={(quiz) => updateStep(step.id, { quiz })} />
+              )}
+
+              {step.targetAction === 'multi' && step.placements && (
+                <PlacementsEditor
+                  placements={step.placements}
+                  assets={assets}
+                  selectedAssetId={selectedAssetId}
+                  onChange={(placements) => updateStep(step.id, { placements })}
+                />
+              )}
+
+              {step.targetAction !== 'quiz' && step.targetAction !== 'multi' && (
+                <>
+                  <div className="space-y-1">
+                    <label className="text-[9px] uppercase font-bold text-slate-500 flex items-center gap-1">
+                      <MousePointer2 size={10} /> {step.targetAction === 'identify' ? 'Correct Object' : step.targetAction === 'gaze' ? 'Object to Look At' : step.targetAction === 'reach' ? 'Zone to Reach' : step.targetAction === 'apply' ? 'Tool' : 'Movable Object'}
+                    </label>
+                    <div className="flex gap-2 items-center">
+                      <select
+                        className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-[10px] focus:ring-1 focus:ring-blue-500 min-w-0"
+                        value={step.targetAssetId || ''}
+                        onChange={(e) => updateStep(step.id, {
+                          targetAssetId: e.target.value,
+                          targetNodePath: undefined,
+                          targetAction: targetActionFor(step, e.target.value)
+                        })}
+                      >
+                        <option value="">{step.targetAction === 'reach' ? 'No zone selected' : 'No object selected'}</option>
+                        {assets.filter(a => step.targetAction !== 'reach' || a.type === 'zone').map(a => (
+                          <option key={a.id} value={a.id}>{a.name}</option>
+                        ))}
+                      </select>
+
+                      <button
+                        onClick={() => {
+                          if (selectedAssetId && selectedAssetId !== step.targetAssetId) {
+                            updateStep(step.id, {
+                              targetAssetId: selectedAssetId,
+                              targetNodePath: undefined,
+                              targetAction: targetActionFor(step, selectedAssetId)
+                            });
+                          }
+                        }}
+                        disabled={!selectedAssetId || selectedAssetId === step.targetAssetId || (step.targetAction === 'reach' && !isZone(selectedAssetId))}
+                        className="shrink-0 h-[26px] px-3 bg-blue-600 hover:bg-blue-500 text-white text-[9px] font-bold uppercase rounded transition-all disabled:opacity-50 disabled:bg-slate-700 disabled:text-slate-500 flex items-center gap-1.5 shadow-sm active:scale-95"
+                        title="Set currently selected object in scene as target"
+                      >
+                        <MousePointer2 size={10} /> Use Selected
+                      </button>
+                    </div>
+                  </div>
+
+                  {assets.find(a => a.id === step.targetAssetId)?.type === 'model' && (
+                    <div className="space-y-1">
+                      <label className="text-[9px] uppercase font-bold text-slate-500 flex items-center gap-1">
+                        <Crosshair size={10} /> Target Part
+                      </label>
+                      <div className="flex gap-2 items-center">
+                        <div
+                          className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-[10px] truncate min-w-0 text-slate-300"
+                          title={step.targetNodePath}
+                        >
+                          {step.targetNodePath || 'Whole object'}
+                        </div>
+                        {step.targetNodePath ? (
+                          <button
+                            onClick={() => updateStep(step.id, { targetNodePath: undefined })}
+                            className="shrink-0 h-[26px] px-2 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded transition-all active:scale-95"
+                            title="Target the whole object again"
+                          >
+                            <X size={10} />
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => selectedNodePath && updateStep(step.id, { targetNodePath: selectedNodePath })}
+                            disabled={!selectedNodePath || selectedAssetId !== step.targetAssetId}
+                            className="shrink-0 h-[26px] px-3 bg-blue-600 hover:bg-blue-500 text-white text-[9px] font-bold uppercase rounded transition-all disabled:opacity-50 disabled:bg-slate-700 disabled:text-slate-500 flex items-center gap-1.5 shadow-sm active:scale-95"
+                            title="Select this model and pick a part in the Properties panel"
+                          >
+                            <Crosshair size={10} /> Use Selected Part
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {step.targetAction === 'apply' && (
+                <RegionPicker
+                  region={step.region}
+                  toolId={step.targetAssetId}
+                  assets={assets}
+                  selectedAssetId={selectedAssetId}
+                  selectedNodePath={selectedNodePath}
+                  onChange={(region) => updateStep(step.id, { region })}
+                />
+              )}
+
+              {(step.targetAction === 'gaze' || step.targetAction === 'apply') && (
                 <div className="space-y-1">
-                  <label className="text-[9px] uppercase font-bold text-slate-500">Interaction Type</label>
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => updateStep(step.id, { targetAction: 'click' })}
-                      className={`flex-1 py-1 text-[10px] rounded font-bold transition-colors ${step.targetAction === 'click' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
-                    >
-                      CLICK
-                    </button>
-                    <button
-                      onClick={() => updateStep(step.id, { targetAction: 'move' })}
-                      className={`flex-1 py-1 text-[10px] rounded font-bold transition-colors ${step.targetAction === 'move' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
-                    >
-                      MOVE
-                    </button>
+                  <label className="text-[9px] uppercase font-bold text-slate-500 flex items-center gap-1">
+                    <Timer size={10} /> {step.targetAction === 'apply' ? 'Touch Duration' : 'Look Duration'}
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="range"
+                      min={0.5}
+                      max={10}
+                      step={0.5}
+                      value={getDwellSeconds(step)}
+                      onChange={(e) => updateStep(step.id, { dwellSeconds: parseFloat(e.target.value) })}
+                      className="flex-1"
+                    />
+                    <span className="text-[9px] text-slate-300 font-mono w-8 text-right">{getDwellSeconds(step)}s</span>
                   </div>
+                  <p className="text-[8px] text-slate-500 italic leading-tight">
+                    {step.targetAction === 'apply'
+                      ? 'Student picks up the tool and holds it against the region. The tool stays where it is released.'
+                      : 'Student completes the step by keeping the object in the center of view.'}
+                  </p>
                 </div>
               )}
 
-              {step.targetAction === 'move' && (
+              {step.targetAction === 'reach' && (
+                <p className="text-[8px] text-slate-500 italic leading-tight">
+                  Student completes the step by walking into the zone. Add zones from the Trigger Zones section of the library.
+                </p>
+              )}
+
+              {step.targetAction === 'identify' && step.identify && (
+                <IdentifyEditor
+                  identify={step.identify}
+                  assets={assets}
+                  selectedAssetId={selectedAssetId}
+                  selectedNodePath={selectedNodePath}
+                  onChange={(identify) => updateStep(step.id, { identify })}
+                />
+              )}
+
+              {isMoveAction(step.targetAction) && (
                 <div className="bg-slate-900/50 p-2 rounded border border-slate-700 space-y-2">
                   <div className="space-y-1">
                     <div className="space-y-1">
@@ -134,7 +1365,7 @@ const StepManager: React.FC<StepManagerProps> = ({ steps, assets, onUpdateSteps,
                             const anchorAsset = assets.find(a => a.id === anchorId);
                             updateStep(step.id, {
                               snapAnchorId: anchorId,
-                              targetPosition: anchorAsset ? [...anchorAsset.position] as Vector3Tuple : undefined
+                              targetPosition: anchorAsset ? getWorldPosition(assets, anchorAsset.id) : undefined
                             });
                           }}
                         >
@@ -151,7 +1382,7 @@ const StepManager: React.FC<StepManagerProps> = ({ steps, assets, onUpdateSteps,
                               if (anchorAsset) {
                                 updateStep(step.id, {
                                   snapAnchorId: selectedAssetId,
-                                  targetPosition: [...anchorAsset.position] as Vector3Tuple
+                                  targetPosition: getWorldPosition(assets, anchorAsset.id)
                                 });
                               }
                             }
@@ -165,13 +1396,109 @@ const StepManager: React.FC<StepManagerProps> = ({ steps, assets, onUpdateSteps,
                       </div>
                     </div>
                   </div>
+                  {step.targetAction === 'orient' && (
+                    <div className="space-y-1">
+                      <label className="text-[9px] font-bold text-blue-400 flex items-center gap-1">
+                        <Compass size={10} /> ORIENTATION
+                      </label>
+                      <div className="flex items-center gap-2">
+                        <span className="text-[9px] text-slate-500 w-16">Tolerance</span>
+                        <input
+                          type="range"
+                          min={1}
+                          max={90}
+                          value={step.orientationTolerance ?? DEFAULT_ORIENTATION_TOLERANCE}
+                          onChange={(e) => updateStep(step.id, { orientationTolerance: parseInt(e.target.value, 10) })}
+                          className="flex-1"
+                        />
+                        <span className="text-[9px] text-slate-300 font-mono w-8 text-right">{step.orientationTolerance ?? DEFAULT_ORIENTATION_TOLERANCE}°</span>
+                      </div>
+                      <div className="flex gap-1">
+                        {ORIENTATION_AXES.map(axis => (
+                          <button
+                            key={axis.label}
+                            onClick={() => updateStep(step.id, { orientationAxis: axis.value })}
+                            className={`flex-1 py-1 text-[9px] rounded font-bold transition-colors ${step.orientationAxis === axis.value ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+                            title={axis.value ? `Only the object's ${axis.value.toUpperCase()} axis has to line up` : 'The whole rotation has to match'}
+                          >
+                            {axis.label}
+                          </button>
+                        ))}
+                      </div>
+                      {!step.snapAnchorId && (
+                        <div className="flex gap-2 items-center">
+                          <span className="flex-1 text-[9px] text-slate-500 font-mono truncate">
+                            {step.targetRotation ? `Angle ${step.targetRotation.map(r => Math.round(r * 180 / Math.PI)).join(', ')}` : 'No angle set'}
+                          </span>
+                          <button
+                            onClick={() => {
+                              const movable = assets.find(a => a.id === step.targetAssetId);
+                              if (movable) updateStep(step.id, { targetRotation: movable.rotation });
+                            }}
+                            disabled={!step.targetAssetId}
+                            className="shrink-0 px-2 py-1 bg-slate-700 hover:bg-slate-600 text-[9px] font-bold uppercase rounded transition-all active:scale-95 disabled:opacity-50"
+                            title="Use the movable object's current rotation as the required angle"
+                          >
+                            Use Current
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
                   <p className="text-[8px] text-slate-500 italic leading-tight">
-                    Student will drag the object. It will automatically snap when close to the target.
+                    {step.targetAction === 'orient'
+                      ? 'Student will drag and rotate the object. It snaps only when close to the target and turned the right way.'
+                      : 'Student will drag the object. It will automatically snap when close to the target.'}
                   </p>
                 </div>
               )}
             </div>
           )}
+
+          <SceneChanges
+            step={step}
+            assets={assets}
+            onChange={(assetStates) => updateStep(step.id, { assetStates })}
+          />
+
+          {step.targetAction !== 'none' && (
+            <HintsEditor
+              step={step}
+              onChange={(hints) => updateStep(step.id, { hints })}
+            />
+          )}
+
+          {index > 0 && (
+            <TimeLimitEditor
+              step={step}
+              steps={steps}
+              onChange={(timeLimit) => updateStep(step.id, { timeLimit })}
+            />
+          )}
+
+          {(variables.length > 0 || step.onComplete || step.onMistake) && (
+            <div className="space-y-1">
+              <label className="text-[9px] uppercase font-bold text-slate-500 flex items-center gap-1">
+                <Variable size={10} /> Variable Changes
+              </label>
+              <div className="bg-slate-900/50 p-2 rounded border border-slate-700 space-y-2">
+                <EffectsEditor
+                  title="When completed"
+                  effects={step.onComplete}
+                  variables={variables}
+                  onChange={(onComplete) => updateStep(step.id, { onComplete })}
+                />
+                {hasOutcomes(step) && (
+                  <EffectsEditor
+                    title={step.targetAction === 'quiz' ? 'On a wrong submission' : step.targetAction === 'identify' ? 'On each wrong pick' : 'When time runs out'}
+                    effects={step.onMistake}
+                    variables={variables}
+                    onChange={(onMistake) => updateStep(step.id, { onMistake })}
+                  />
+                )}
+              </div>
+            </div>
+          )}
         </div>
       ))}
 
@@ -182,6 +1509,14 @@ const StepManager: React.FC<StepManagerProps> = ({ steps, assets, onUpdateSteps,
         <Plus size={24} />
         <span className="text-xs font-bold uppercase tracking-widest">Add Next Step</span>
       </button>
+
+      <button
+        onClick={pasteSteps}
+        className="w-full py-2 rounded-xl text-slate-500 hover:text-blue-400 hover:bg-slate-800 flex items-center justify-center gap-2 text-[10px] font-bold uppercase tracking-widest transition-all active:scale-95"
+        title="Paste steps copied from this or another lesson"
+      >
+        <ClipboardPaste size={14} /> Paste Steps
+      </button>
     </div >
   );
 };
@@ -0,0 +1,100 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, AlertTriangle, XCircle, Wrench } from 'lucide-react';
+import { ValidationIssue } from '../utils/projectValidation';
+
+interface ValidationReportProps {
+    isOpen: boolean;
+    title: string;
+    issues: ValidationIssue[];
+    onClose: () => void;
+    // Shown only when the lesson could be repaired and loading may continue
+    onContinue?: () => void;
+}
+
+const ValidationReport: React.FC<ValidationReportProps> = ({ isOpen, title, issues, onClose, onContinue }) => {
+    const fatalCount = issues.filter(issue => !issue.repaired && !issue.warning).length;
+    const warningCount = issues.filter(issue => issue.warning).length;
+    const repairedCount = issues.length - warningCount - fatalCount;
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[120] flex items-center justify-center"
+                >
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="bg-slate-900/95 backdrop-blur-xl border border-slate-800 rounded-3xl p-8 max-w-lg w-full mx-4 shadow-2xl"
+                    >
+                        {/* Header */}
+                        <div className="flex items-center justify-between mb-2">
+                            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                                <AlertTriangle className={fatalCount > 0 ? 'text-red-500' : 'text-amber-500'} size={24} />
+                                {title}
+                            </h2>
+                            <button
+                                onClick={onClose}
+                                className="w-8 h-8 bg-slate-800 hover:bg-slate-700 rounded-xl flex items-center justify-center text-slate-400 hover:text-white transition-colors"
+                            >
+                                <X size={18} />
+                            </button>
+                        </div>
+                        <p className="text-sm text-slate-400 mb-6">
+                            {fatalCount > 0
+                                ? 'This lesson file cannot be opened.'
+                                : [
+                                    repairedCount > 0 && `${repairedCount} problem${repairedCount === 1 ? ' was' : 's were'} found and repaired automatically.`,
+                                    warningCount > 0 && `${warningCount} warning${warningCount === 1 ? '' : 's'} could not be repaired but the lesson still opens.`
+                                ].filter(Boolean).join(' ')}
+                        </p>
+
+                        {/* Issue List */}
+                        <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+                            {issues.map((issue, i) => (
+                                <div key={i} className={`flex items-start gap-3 p-3 rounded-xl border ${issue.repaired ? 'bg-slate-950/50 border-slate-800' : issue.warning ? 'bg-amber-500/10 border-amber-500/30' : 'bg-red-500/10 border-red-500/30'}`}>
+                                    {issue.repaired
+                                        ? <Wrench size={14} className="text-amber-400 shrink-0 mt-0.5" />
+                                        : issue.warning
+                                            ? <AlertTriangle size={14} className="text-amber-400 shrink-0 mt-0.5" />
+                                            : <XCircle size={14} className="text-red-400 shrink-0 mt-0.5" />}
+                                    <div className="min-w-0">
+                                        <code className="text-[10px] text-blue-400 font-mono break-all">{issue.path}</code>
+                                        <p className="text-xs text-slate-300 leading-relaxed">{issue.message}</p>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Actions */}
+                        <div className="flex gap-3 mt-6">
+                            <button
+                                onClick={onClose}
+                                className="flex-1 bg-slate-800 hover:bg-slate-700 text-white px-6 py-3 rounded-xl font-bold text-sm transition-all active:scale-95"
+                            >
+                                {onContinue && fatalCount === 0 ? 'Cancel' : 'Close'}
+                            </button>
+                            {onContinue && fatalCount === 0 && (
+                                <button
+                                    onClick={onContinue}
+                                    className="flex-1 bg-blue-600 hover:bg-blue-500 text-white px-6 py-3 rounded-xl font-bold text-sm transition-all active:scale-95"
+                                >
+                                    {repairedCount > 0 ? 'Open Repaired Lesson' : 'Open Lesson'}
+                                </button>
+                            )}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default ValidationReport;
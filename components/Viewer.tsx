@@ -1,10 +1,10 @@
 
 // @ts-nocheck
 import React, { useState, Suspense, useEffect, useMemo, useRef, useCallback } from 'react';
-import { ProjectData, Step, Asset, Vector3Tuple } from '../types';
+import { ProjectData, Step, Asset, Vector3Tuple, Quiz, QuizResponse, LessonVariable, StepMetrics, LessonMode } from '../types';
 import { Canvas, useThree, useFrame } from '@react-three/fiber';
 import { PointerLockControls, Environment, Text, ContactShadows, Float, useGLTF, Html, useProgress } from '@react-three/drei';
-import { ChevronRight, ChevronLeft, LogOut, Info, CheckCircle2, Loader2, Anchor, Sparkles, Move, MousePointer, Smartphone, Monitor, RefreshCcw } from 'lucide-react';
+import { ChevronRight, ChevronLeft, LogOut, Info, CheckCircle2, Loader2, Anchor, Sparkles, Move, MousePointer, Smartphone, Monitor, RefreshCcw, HelpCircle, XCircle, Box, RotateCw, Eye, Footprints, Activity, Clock, Lightbulb, History } from 'lucide-react';
 import { XRControllerModelFactory } from 'three/examples/jsm/webxr/XRControllerModelFactory.js';
 import { XRHandModelFactory } from 'three/examples/jsm/webxr/XRHandModelFactory.js';
 // @ts-ignore
@@ -14,12 +14,39 @@ import { VRButton } from 'three/examples/jsm/webxr/VRButton.js';
 
 import { motion, AnimatePresence } from 'framer-motion';
 import * as THREE from 'three';
+import { getChildren, getRootAssets, getWorldPosition, getWorldTransform, reparentAsset } from '../utils/hierarchy';
+import { applyStepStates } from '../utils/stepState';
+import { createQuizResponse, getAnswerLabel, toggleQuizAnswer } from '../utils/quiz';
+import { applyNodeOverrides, findNodeByPath, highlightNode, isNodeWithin, markModelRoot, resolveAssetHit } from '../utils/modelNodes';
+import { gradeIdentifyPick, shouldRevealAnswer } from '../utils/identify';
+import { ROTATE_STEP, getOrientationTolerance, orientationError, rotateAroundAxis, toQuaternion } from '../utils/orientation';
+import { isCarryAction, isMoveAction } from '../utils/stepActions';
+import { getDwellSeconds, isGazingAtTarget } from '../utils/gaze';
+import { isLearnerInZone } from '../utils/zones';
+import { CarryGoal, countPlaced, getOpenGoal, getOpenGoals, getStepAnchorIds } from '../utils/placements';
+import { isToolTouchingRegion } from '../utils/toolContact';
+import { failsOnTimeout, resolveNextStep } from '../utils/lessonFlow';
+import { VariableValues, applyEffects, formatValue, getInitialValues, interpolate } from '../utils/variables';
+import { LessonScore, formatDuration, recordMetric, scoreLesson } from '../utils/scoring';
+import { getModeRules } from '../utils/lessonMode';
+import { getHintMarks, getNextHintDelay } from '../utils/hints';
+import { LessonProgress, clearProgress, fromProgress, loadProgress, saveProgress, toProgress } from '../utils/lessonProgress';
 
 interface ViewerProps {
   project: ProjectData;
   onExit: () => void;
   testMode?: 'auto' | 'desktop' | 'mobile' | 'vr';
   isShared?: boolean;
+  mode?: LessonMode; // Overrides the lesson's own mode, e.g. from the launch link
+  progressKey?: string; // Saves progress under this key and offers to resume it; unset for unsaved previews
+}
+
+// What the learner has done to the scene, kept per visited step so Back can undo a step's placements
+interface SceneProgress {
+  sessionAssets: Asset[];
+  movedAssetIds: Set<string>;
+  snappedObjects: Set<string>;
+  snappedAnchors: Set<string>;
 }
 
 // Virtual Joystick Component for Mobile
@@ -101,13 +128,175 @@ const Joystick = ({ onMove, position = 'left', color = 'blue' }: {
 
 
 
+// Answer list for quiz steps; after submitting it shows which picks were right and their feedback
+const QuizPanel = ({ quiz, assets, selected, response, onToggle }: {
+  quiz: Quiz;
+  assets: Asset[];
+  selected: string[];
+  response?: QuizResponse;
+  onToggle: (answerId: string) => void;
+}) => {
+  const picked = response ? response.answerIds : selected;
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex items-start gap-2 text-white font-bold">
+        <HelpCircle size={18} className="text-blue-400 shrink-0 mt-0.5" />
+        <span>{quiz.question}</span>
+      </div>
+      {quiz.multiple && !response && (
+        <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold">Select all that apply</p>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        {quiz.answers.map(answer => {
+          const isPicked = picked.includes(answer.id);
+          const state = !response ? (isPicked ? 'border-blue-500 bg-blue-600/20 text-white' : 'border-slate-700 bg-slate-800/60 text-slate-300 hover:border-slate-500')
+            : answer.correct ? 'border-green-500 bg-green-600/20 text-green-200'
+            : isPicked ? 'border-red-500 bg-red-600/20 text-red-200' : 'border-slate-800 bg-slate-900/60 text-slate-500';
+          return (
+            <button
+              key={answer.id}
+              disabled={!!response}
+              onClick={() => onToggle(answer.id)}
+              className={`text-left px-3 py-2 rounded-xl border text-sm transition-colors flex items-center gap-2 ${state}`}
+            >
+              {answer.assetId && <Box size={14} className="shrink-0 opacity-70" />}
+              <span className="flex-1">{getAnswerLabel(answer, assets)}</span>
+              {response && answer.correct && <CheckCircle2 size={14} className="shrink-0" />}
+              {response && isPicked && !answer.correct && <XCircle size={14} className="shrink-0" />}
+            </button>
+          );
+        })}
+      </div>
+      {response && (
+        <div className="space-y-1">
+          <p className={`text-sm font-bold ${response.correct ? 'text-green-400' : 'text-red-400'}`}>
+            {response.correct ? 'Correct!' : 'Not quite.'}
+          </p>
+          {quiz.answers.filter(a => response.answerIds.includes(a.id) && a.feedback).map(a => (
+            <p key={a.id} className="text-xs text-slate-300 leading-relaxed">{a.feedback}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Item checklist for multi steps; ordered steps mark the item that has to go next
+const PlacementProgress = ({ step, assets, placed, heldAssetId }: {
+  step: Step;
+  assets: Asset[];
+  placed: Set<string>;
+  heldAssetId: string | null;
+}) => {
+  const items = step.placements?.items || [];
+  const nextId = step.placements?.ordered ? items.find(p => !placed.has(p.assetId))?.assetId : undefined;
+
+  return (
+    <div className="mt-6 space-y-2">
+      <p className="text-[10px] text-slate-400 uppercase tracking-widest font-bold">
+        {countPlaced(step, placed)} / {items.length} placed{step.placements?.ordered ? ' · in order' : ''}
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {items.map((item, i) => {
+          const isPlaced = placed.has(item.assetId);
+          const state = isPlaced ? 'border-green-500/50 bg-green-600/10 text-green-300'
+            : heldAssetId === item.assetId ? 'border-blue-500 bg-blue-600/20 text-white'
+            : nextId === item.assetId ? 'border-blue-500/50 bg-slate-800/60 text-white'
+            : 'border-slate-700 bg-slate-800/60 text-slate-400';
+          return (
+            <div key={item.assetId} className={`px-3 py-2 rounded-xl border text-sm flex items-center gap-2 ${state}`}>
+              {isPlaced ? <CheckCircle2 size={14} className="shrink-0" /> : step.placements?.ordered ? <span className="text-[10px] font-mono w-[14px] shrink-0">{i + 1}.</span> : <Box size={14} className="shrink-0 opacity-70" />}
+              <span className="flex-1 truncate">{assets.find(a => a.id === item.assetId)?.name || 'Item'}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+// Completion screen breakdown: per-step time and mistakes, plus points when the lesson has a rubric
+const ResultsPanel = ({ score }: { score: LessonScore }) => {
+  const hasPoints = score.maxPoints > 0;
+
+  return (
+    <div className="mb-8 space-y-3 text-left">
+      <div className="flex items-center justify-center gap-3">
+        {hasPoints && (
+          <span className="text-3xl font-black text-white">{score.percent}%</span>
+        )}
+        {score.passed !== undefined && (
+          <span className={`px-3 py-1 rounded-full text-[10px] font-black tracking-widest uppercase ${score.passed ? 'bg-green-600/20 text-green-400' : 'bg-red-600/20 text-red-400'}`}>
+            {score.passed ? 'Passed' : 'Not passed'}
+          </span>
+        )}
+        <span className="flex items-center gap-1 text-xs font-bold text-slate-400">
+          <Clock size={12} /> {formatDuration(score.totalTimeMs)}
+        </span>
+      </div>
+      {hasPoints && (
+        <p className="text-center text-[10px] text-slate-500 uppercase tracking-widest font-bold">{score.points} / {score.maxPoints} points</p>
+      )}
+      <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+        {score.steps.map(step => (
+          <div key={step.stepId} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800/60 text-xs">
+            <span className="flex-1 truncate text-slate-300">{step.title}</span>
+            {step.correct !== undefined && (step.correct ? <CheckCircle2 size={12} className="text-green-400 shrink-0" /> : <XCircle size={12} className="text-red-400 shrink-0" />)}
+            {step.mistakes > 0 && <span className="text-[10px] text-red-300 shrink-0" title="Wrong clicks and picks">{step.mistakes}×</span>}
+            {step.metrics.missedDrops > 0 && <span className="text-[10px] text-amber-300 shrink-0" title="Missed drops">{step.metrics.missedDrops} drop{step.metrics.missedDrops === 1 ? '' : 's'}</span>}
+            {step.hints > 0 && <span className="text-[10px] text-blue-300 shrink-0" title="Hints used">{step.hints} hint{step.hints === 1 ? '' : 's'}</span>}
+            {step.metrics.timeouts > 0 && <span className="text-[10px] text-red-300 shrink-0" title="Ran out of time">timed out</span>}
+            <span className="text-[10px] font-mono text-slate-500 shrink-0">{formatDuration(step.metrics.timeMs)}</span>
+            {step.maxPoints !== undefined && <span className="text-[10px] font-mono font-bold text-white shrink-0 w-10 text-right">{step.points}/{step.maxPoints}</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Live values of the lesson's variables, e.g. a patient's vitals; hidden variables are left out
+const VariableMonitor = ({ variables = [], values }: {
+  variables?: LessonVariable[];
+  values: VariableValues;
+}) => {
+  const shown = variables.filter(v => !v.hidden);
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="bg-slate-900/80 backdrop-blur border border-slate-700 rounded-2xl p-3 shadow-lg min-w-[10rem] space-y-1.5">
+      <div className="flex items-center gap-1.5 text-[9px] font-black tracking-widest uppercase text-slate-500">
+        <Activity size={12} className="text-green-400" /> Monitor
+      </div>
+      {shown.map(variable => (
+        <div key={variable.name} className="flex items-baseline justify-between gap-4">
+          <span className="text-[10px] font-bold uppercase text-slate-400">{variable.label || variable.name}</span>
+          <span className="text-sm font-mono font-bold text-green-300">{formatValue(values[variable.name], variable)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// A step's authored viewpoint; `key` changes whenever the learner should be moved there again
+interface Viewpoint {
+  key: string;
+  position: Vector3Tuple;
+  target?: Vector3Tuple;
+  mode: 'fly' | 'teleport';
+}
+
+const FLY_DURATION = 1.5; // seconds
+
 // Unified Player Controller (Desktop/Mobile/VR)
-const Player = ({ initialPos, joystickInput, lookInput, collidableAssets, isMobile }: {
+const Player = ({ initialPos, joystickInput, lookInput, collidableAssets, isMobile, viewpoint }: {
   initialPos: Vector3Tuple;
   joystickInput: { x: number; y: number };
   lookInput: { x: number; y: number };
   collidableAssets: Asset[];
   isMobile: boolean;
+  viewpoint: Viewpoint | null;
 }) => {
   const { camera, scene, gl } = useThree();
   const isPresenting = gl.xr.isPresenting;
@@ -116,6 +305,31 @@ const Player = ({ initialPos, joystickInput, lookInput, collidableAssets, isMobi
   const hasInitialized = useRef(false);
   const euler = useRef(new THREE.Euler(0, 0, 0, 'YXZ'));
   const raycaster = useRef(new THREE.Raycaster());
+  // Walking keeps the camera at this height; step viewpoints can change it
+  const eyeHeight = useRef(initialPos[1] + 1.6);
+  const flight = useRef<{ fromPos: THREE.Vector3; toPos: THREE.Vector3; fromQuat: THREE.Quaternion; toQuat: THREE.Quaternion; t: number } | null>(null);
+
+  // Move to the step's viewpoint when it changes
+  useEffect(() => {
+    if (!viewpoint) return;
+
+    const toPos = new THREE.Vector3(...viewpoint.position);
+    let toQuat = camera.quaternion.clone();
+    if (viewpoint.target) {
+      const look = new THREE.Matrix4().lookAt(toPos, new THREE.Vector3(...viewpoint.target), camera.up);
+      toQuat = new THREE.Quaternion().setFromRotationMatrix(look);
+    }
+
+    velocity.current.set(0, 0, 0);
+    if (viewpoint.mode === 'teleport') {
+      flight.current = null;
+      camera.position.copy(toPos);
+      camera.quaternion.copy(toQuat);
+      eyeHeight.current = toPos.y;
+    } else {
+      flight.current = { fromPos: camera.position.clone(), toPos, fromQuat: camera.quaternion.clone(), toQuat, t: 0 };
+    }
+  }, [viewpoint?.key]);
 
   // Mouse Drag Logic (Desktop Only)
   useEffect(() => {
@@ -198,6 +412,18 @@ const Player = ({ initialPos, joystickInput, lookInput, collidableAssets, isMobi
   useFrame((state, delta) => {
     if (isPresenting) return; // XR handles its own camera
 
+    // Viewpoint flights take over the camera until they land
+    if (flight.current) {
+      const f = flight.current;
+      f.t = Math.min(1, f.t + delta / FLY_DURATION);
+      const eased = f.t < 0.5 ? 2 * f.t * f.t : 1 - Math.pow(-2 * f.t + 2, 2) / 2;
+      camera.position.lerpVectors(f.fromPos, f.toPos, eased);
+      camera.quaternion.slerpQuaternions(f.fromQuat, f.toQuat, eased);
+      eyeHeight.current = camera.position.y;
+      if (f.t >= 1) flight.current = null;
+      return;
+    }
+
     const speed = isMobile ? 1.5 : 2.5;
     const friction = 10;
     const playerRadius = 0.5;
@@ -248,16 +474,12 @@ const Player = ({ initialPos, joystickInput, lookInput, collidableAssets, isMobi
       const collidableMeshes: THREE.Object3D[] = [];
       const collidableIds = new Set(collidableAssets.map(a => a.id));
 
+      // A mesh belongs to its nearest asset group; a collidable parent doesn't make its children solid
       scene.traverse((child) => {
         if ((child as THREE.Mesh).isMesh) {
           let p: THREE.Object3D | null = child;
-          while (p) {
-            if (collidableIds.has(p.name)) {
-              collidableMeshes.push(child);
-              break;
-            }
-            p = p.parent;
-          }
+          while (p && !p.userData.assetId) p = p.parent;
+          if (p && collidableIds.has(p.userData.assetId)) collidableMeshes.push(child);
         }
       });
 
@@ -276,7 +498,7 @@ const Player = ({ initialPos, joystickInput, lookInput, collidableAssets, isMobi
       }
     }
 
-    camera.position.y = initialPos[1] + 1.6;
+    camera.position.y = eyeHeight.current;
   });
 
   return null;
@@ -288,22 +510,22 @@ const ViewerModel: React.FC<{
   isAnchor?: boolean;
   renderOrder?: number;
   isHolding?: boolean;
-}> = ({ asset, isTarget, isAnchor, renderOrder = 0, isHolding = false }) => {
+  highlightPath?: string; // Makes this node glow; '' for the whole model
+  children?: React.ReactNode;
+}> = ({ asset, isTarget, isAnchor, renderOrder = 0, isHolding = false, highlightPath, children }) => {
   const { scene } = useGLTF(asset.url!);
   const clonedScene = useMemo(() => {
     const s = scene.clone();
     s.name = asset.id; // Assign ID for collision detection
+    // Node names are kept so steps can target parts of the model, see utils/modelNodes.ts
+    markModelRoot(s, asset.id);
 
-    // Reset transform to identity and CLEAR internal names
+    // Reset transform to identity
     s.position.set(0, 0, 0);
     s.rotation.set(0, 0, 0);
     s.scale.set(1, 1, 1);
 
-    // Initial pass to clean up internal names so raycaster bubbles up to our wrapper Group
     s.traverse((child) => {
-      // Keep only empty name or force clear existing ones (unless it's critical, but usually not for visual props)
-      child.name = "";
-
       // Apply renderOrder to all children for proper layering
       if (renderOrder !== undefined && renderOrder !== 0) {
         child.renderOrder = renderOrder;
@@ -354,12 +576,20 @@ const ViewerModel: React.FC<{
       });
     }
 
+    applyNodeOverrides(s, asset.nodeOverrides);
+
+    if (highlightPath !== undefined) {
+      const node = highlightPath ? findNodeByPath(s, highlightPath) : s;
+      if (node) highlightNode(node, '#3b82f6');
+    }
+
     return s;
-  }, [scene, asset.id, asset.opacity, asset.color, renderOrder, isHolding]);
+  }, [scene, asset.id, asset.opacity, asset.color, asset.nodeOverrides, renderOrder, isHolding, highlightPath]);
 
   return (
     <group
-      name={asset.id} // Ensure raycast bubbles up to identifying name
+      name={asset.id}
+      userData={{ assetId: asset.id }} // Raycast hits resolve to this asset
       position={asset.position}
       rotation={asset.rotation}
       scale={asset.scale}
@@ -367,6 +597,7 @@ const ViewerModel: React.FC<{
       renderOrder={renderOrder}
     >
       <primitive object={clonedScene} />
+      {children}
     </group>
   );
 };
@@ -386,33 +617,60 @@ const ViewerLoader = () => {
 // Ghost Hint Component
 const GhostHint: React.FC<{
   step: Step;
+  goal: CarryGoal;
   assets: Asset[];
-}> = ({ step, assets }) => {
-  const targetAsset = useMemo(() => assets.find(a => a.id === step.targetAssetId), [assets, step.targetAssetId]);
+}> = ({ step, goal, assets }) => {
+  const targetAsset = useMemo(() => assets.find(a => a.id === goal.assetId), [assets, goal.assetId]);
 
-  const targetPos = useMemo(() => {
-    if (step.snapAnchorId) {
-      const anchor = assets.find(a => a.id === step.snapAnchorId);
-      return anchor ? anchor.position : null;
+  const target = useMemo(() => {
+    if (goal.snapAnchorId) {
+      const anchor = assets.find(a => a.id === goal.snapAnchorId);
+      return anchor ? getWorldTransform(assets, anchor.id) : null;
     }
-    return step.targetPosition || null;
-  }, [step, assets]);
+    return goal.targetPosition ? { position: goal.targetPosition, rotation: goal.targetRotation || [0, 0, 0] } : null;
+  }, [goal, assets]);
 
-  if (!targetAsset || !targetPos || step.targetAction !== 'move') return null;
+  if (!targetAsset || !target) return null;
 
-  const offsetPos: Vector3Tuple = [targetPos[0], targetPos[1] + 0.1, targetPos[2]];
+  const offsetPos: Vector3Tuple = [target.position[0], target.position[1] + 0.1, target.position[2]];
+  const isOrient = step.targetAction === 'orient';
 
   return (
-    <group position={offsetPos} rotation={targetAsset.rotation} scale={targetAsset.scale}>
+    <group position={offsetPos} rotation={isOrient ? target.rotation : targetAsset.rotation} scale={targetAsset.scale}>
+      {/* Orient steps show the required angle as axes the learner can line the object up with */}
+      {isOrient && <axesHelper args={[0.3]} />}
       <Html position={[0, 0, 0]} center transform sprite>
         <div className="bg-blue-600/80 px-0.5 py-0.45 rounded text-white text-[1px] font-bold uppercase tracking-widest animate-bounce whitespace-nowrap">
-          Place Here
+          {isOrient ? 'Place & Align' : 'Place Here'}
         </div>
       </Html>
     </group>
   );
 };
 
+// Hint arrow bobbing above an object, pointing down at it
+const HintArrow: React.FC<{ assetId: string; assets: Asset[] }> = ({ assetId, assets }) => {
+  const group = useRef<THREE.Group>(null);
+  const position = useMemo(() => {
+    return assets.some(a => a.id === assetId) ? getWorldTransform(assets, assetId).position : null;
+  }, [assets, assetId]);
+
+  useFrame(({ clock }) => {
+    if (group.current && position) group.current.position.y = position[1] + 0.5 + Math.sin(clock.elapsedTime * 3) * 0.05;
+  });
+
+  if (!position) return null;
+
+  return (
+    <group ref={group} position={[position[0], position[1] + 0.5, position[2]]}>
+      <mesh rotation={[Math.PI, 0, 0]} renderOrder={998}>
+        <coneGeometry args={[0.06, 0.16, 16]} />
+        <meshBasicMaterial color="#f59e0b" depthTest={false} />
+      </mesh>
+    </group>
+  );
+};
+
 const WebXRManager = () => {
   const { gl, scene, camera } = useThree();
 
@@ -478,12 +736,17 @@ const WebXRManager = () => {
   return null;
 };
 
-const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isShared = false }) => {
+const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isShared = false, mode, progressKey }) => {
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
+  // Steps visited before the current one, in order, with the variables and scene as they were on entering each; Back pops from here.
+  // Visits resumed from saved progress have no scene of their own
+  const [stepHistory, setStepHistory] = useState<{ index: number; values: VariableValues; scene?: SceneProgress }[]>([]);
+  const [variableValues, setVariableValues] = useState<VariableValues>(() => getInitialValues(project.variables));
   const [completed, setCompleted] = useState(false);
   const [sessionAssets, setSessionAssets] = useState<Asset[]>(project.assets);
   const [isSnapped, setIsSnapped] = useState(false);
-  const [isHolding, setIsHolding] = useState(false);
+  const [heldAssetId, setHeldAssetId] = useState<string | null>(null); // Object the learner is carrying
+  const isHolding = heldAssetId !== null;
   const [isLocked, setIsLocked] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
   const [joystickVal, setJoystickVal] = useState({ x: 0, y: 0 });
@@ -491,10 +754,40 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
 
   const [snappedAnchors, setSnappedAnchors] = useState<Set<string>>(new Set());
   const [snappedObjects, setSnappedObjects] = useState<Set<string>>(new Set()); // Track which objects have been snapped and locked
+  const [quizSelection, setQuizSelection] = useState<string[]>([]);
+  const [quizResponses, setQuizResponses] = useState<Record<string, QuizResponse>>({}); // Keyed by step id, cleared when a branch leads back to the step
+  const [identifyAttempts, setIdentifyAttempts] = useState<Record<string, number>>({}); // Wrong picks per step id
+  const [identifyFeedback, setIdentifyFeedback] = useState<string | null>(null);
+  const [stepMetrics, setStepMetrics] = useState<Record<string, StepMetrics>>({}); // Keyed by step id, summed over visits
+  const stepStartedAt = useRef(Date.now());
+
+  // Assessment time limit: when it runs out, counted from leaving the introduction
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [timeLeftMs, setTimeLeftMs] = useState<number | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+
+  // Hints used on this visit to the current step
+  const [usedHints, setUsedHints] = useState(0);
+
+  // Progress saved by an earlier visit, offered until the learner resumes it or starts over; nothing is saved before that
+  const [savedProgress, setSavedProgress] = useState<LessonProgress | null>(null);
+  const [progressChecked, setProgressChecked] = useState(!progressKey);
 
   // Ref to prevent multiple snap triggers (React state is async, need immediate blocking)
   const isSnapProcessing = useRef(false);
 
+  // Orient steps: how far the held object is turned from the required angle, and the last twist angle on touch screens
+  const [orientError, setOrientError] = useState<number | null>(null);
+  const twistAngle = useRef<number | null>(null);
+
+  // Gaze and apply steps: seconds the target has been looked at (or the tool held on the region), and the share shown in the dwell ring
+  const dwellTime = useRef(0);
+  const dwellDone = useRef(false);
+  const [dwellProgress, setDwellProgress] = useState(0);
+
+  // Reach steps: set once the learner has entered the zone so the step only advances once
+  const reachDone = useRef(false);
+
   const currentStep = project.steps[currentStepIndex];
   const raycaster = useRef(new THREE.Raycaster());
   const mouse = new THREE.Vector2(0, 0); // Center of screen for FPS
@@ -515,27 +808,85 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
     return project.assets.find(a => a.type === 'player_start') || { position: [0, 0, 5] };
   }, [project.assets]);
 
+  // Objects the learner has carried keep their session transforms over per-step scene changes
+  const movedAssetIds = useRef(new Set<string>());
+  // The scene as the current step found it, stored with the step's visit when the learner moves on
+  const sceneOnEntry = useRef<SceneProgress | null>(null);
+
+  // Steps on the path the learner took, ending with the current one
+  const visitedSteps = useMemo(() => {
+    return [...stepHistory.map(visit => visit.index), currentStepIndex].map(index => project.steps[index]).filter(Boolean);
+  }, [project.steps, stepHistory, currentStepIndex]);
+
+  // The scene as of the current step: the visited steps' scene changes layered over the session assets
+  const sceneAssets = useMemo(() => {
+    return applyStepStates(sessionAssets, visitedSteps, movedAssetIds.current);
+  }, [sessionAssets, visitedSteps]);
+
+  // Steps with a camera mode move the learner to the authored view when they start
+  const stepViewpoint = useMemo<Viewpoint | null>(() => {
+    if (!currentStep || completed || !currentStep.cameraMode || currentStep.cameraMode === 'none') return null;
+    return {
+      key: `${currentStepIndex}:${currentStep.id}`,
+      position: currentStep.cameraPosition,
+      target: currentStep.cameraTarget,
+      mode: currentStep.cameraMode
+    };
+  }, [currentStep, currentStepIndex, completed]);
+
+  // Quiz steps on the learner's path; branches can skip some, and a step reached twice counts once
+  const visitedQuizSteps = useMemo(() => [...new Set(visitedSteps.filter(s => s.targetAction === 'quiz'))], [visitedSteps]);
+
+  const rules = useMemo(() => getModeRules(project, mode), [project, mode]);
+
+  const lessonScore = useMemo(() => {
+    return scoreLesson(project.steps, stepMetrics, quizResponses, identifyAttempts, {
+      rubric: rules.rubric,
+      hintsShown: rules.showHints,
+      unfinishedStepId: timedOut ? currentStep?.id : undefined
+    });
+  }, [project.steps, rules, stepMetrics, quizResponses, identifyAttempts, timedOut, currentStep]);
+
   const collidableAssets = useMemo(() => {
-    return sessionAssets.filter(a => {
-      // Exclude player start
-      if (a.type === 'player_start') return false;
+    return sceneAssets.filter(a => {
+      // Exclude player start and trigger zones
+      if (a.type === 'player_start' || a.type === 'zone') return false;
       // Exclude non-collidable explicitly set
       if (a.isCollidable === false) return false;
       // Exclude Snap Proxies (opacity < 1 means ghost/guide)
       if (a.opacity !== undefined && a.opacity < 1) return false;
       // Exclude currently held object to prevent self-collision while moving
-      if (isHolding && currentStep?.targetAssetId === a.id) return false;
+      if (heldAssetId === a.id) return false;
 
       return true;
     });
-  }, [sessionAssets, isHolding, currentStep]);
+  }, [sceneAssets, heldAssetId]);
 
   useEffect(() => {
     setIsSnapped(false);
-    setIsHolding(false);
+    setHeldAssetId(null);
+    setQuizSelection([]);
+    setIdentifyFeedback(null);
+    setOrientError(null);
+    dwellTime.current = 0;
+    dwellDone.current = false;
+    setDwellProgress(0);
+    reachDone.current = false;
+    setUsedHints(0);
     // Reset snap processing flag when step changes
     isSnapProcessing.current = false;
-  }, [currentStepIndex]);
+    sceneOnEntry.current = { sessionAssets, movedAssetIds: new Set(movedAssetIds.current), snappedObjects, snappedAnchors };
+  }, [currentStepIndex, stepHistory.length]); // A branch may lead back to the same step
+
+  // Multi steps go on after each placed item, so the snap guard is released once the item is locked
+  useEffect(() => {
+    if (!isSnapped) isSnapProcessing.current = false;
+  }, [snappedObjects]);
+
+  // Objects that can be picked up right now, with their destinations
+  const openGoals = useMemo(() => {
+    return currentStep && !completed ? getOpenGoals(currentStep, snappedObjects) : [];
+  }, [currentStep, completed, snappedObjects]);
 
   useEffect(() => {
     if (isHolding) {
@@ -548,12 +899,226 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
     };
   }, [isHolding]);
 
-  const handleNext = () => {
-    if (currentStepIndex < project.steps.length - 1) {
-      setCurrentStepIndex(prev => prev + 1);
-    } else {
+  // Adds the time since the step started (or was last timed) to the current step's metrics
+  const recordStepTime = () => {
+    if (!currentStep) return;
+    const elapsed = Date.now() - stepStartedAt.current;
+    stepStartedAt.current = Date.now();
+    setStepMetrics(prev => recordMetric(prev, currentStep.id, 'timeMs', elapsed));
+  };
+
+  // Leaves the current step with its completion effects, or with its mistake effects when its countdown failed it
+  const leaveStep = (timedOut: boolean) => {
+    recordStepTime();
+    if (currentStepIndex === 0 && rules.timeLimitMs && deadline === null) setDeadline(Date.now() + rules.timeLimitMs);
+    const values = applyEffects(project.variables, variableValues, timedOut ? currentStep?.onMistake : currentStep?.onComplete);
+    setVariableValues(values);
+    const nextIndex = currentStep ? resolveNextStep(project.steps, currentStepIndex, {
+      quizResponse: quizResponses[currentStep.id],
+      mistakes: identifyAttempts[currentStep.id],
+      values,
+      timedOut
+    }) : null;
+    if (nextIndex === null) {
       setCompleted(true);
+      return;
+    }
+    // A step reached again through a branch is answered afresh
+    const nextId = project.steps[nextIndex].id;
+    setQuizResponses(({ [nextId]: _answered, ...rest }) => rest);
+    setIdentifyAttempts(({ [nextId]: _attempts, ...rest }) => rest);
+    setStepHistory(prev => [...prev, { index: currentStepIndex, values: variableValues, scene: sceneOnEntry.current }]);
+    setCurrentStepIndex(nextIndex);
+  };
+
+  const handleNext = () => leaveStep(false);
+
+  // Back follows the path the learner took, which may differ from list order after a branch
+  const handleBack = () => {
+    if (stepHistory.length === 0 || !rules.allowBack) return;
+    recordStepTime();
+    const previous = stepHistory[stepHistory.length - 1];
+    setCurrentStepIndex(previous.index);
+    setVariableValues(previous.values);
+    if (previous.scene) {
+      setSessionAssets(previous.scene.sessionAssets);
+      movedAssetIds.current = new Set(previous.scene.movedAssetIds);
+      setSnappedObjects(previous.scene.snappedObjects);
+      setSnappedAnchors(previous.scene.snappedAnchors);
+    }
+    setStepHistory(prev => prev.slice(0, -1));
+  };
+
+  // Counts down the time limit; the lesson ends where the learner is when it runs out
+  useEffect(() => {
+    if (deadline === null || completed || timedOut || !currentStep) return;
+    const tick = () => {
+      const left = deadline - Date.now();
+      setTimeLeftMs(Math.max(0, left));
+      if (left <= 0) {
+        recordStepTime();
+        setTimedOut(true);
+        setCompleted(true);
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [deadline, completed, currentStepIndex]);
+
+  // Looks for progress from an earlier visit when the lesson opens
+  useEffect(() => {
+    if (!progressKey) return;
+    let cancelled = false;
+    loadProgress(progressKey).then(progress => {
+      if (cancelled) return;
+      if (progress && fromProgress(progress, rules.mode, project.steps, project.assets)) setSavedProgress(progress);
+      setProgressChecked(true);
+    });
+    return () => { cancelled = true; };
+  }, [progressKey]);
+
+  // Saves on every new step, placed object and answer; finishing the lesson clears it
+  useEffect(() => {
+    if (!progressKey || !progressChecked || savedProgress) return;
+    if (completed || !currentStep) {
+      clearProgress(progressKey);
+      return;
+    }
+    if (currentStepIndex === 0 && stepHistory.length === 0) return; // Nothing done yet
+    const progress = toProgress(progressKey, rules.mode, project.steps, {
+      currentStepIndex,
+      stepHistory,
+      variableValues,
+      sessionAssets,
+      movedAssetIds: [...movedAssetIds.current],
+      snappedObjects: [...snappedObjects],
+      snappedAnchors: [...snappedAnchors],
+      quizResponses,
+      identifyAttempts,
+      stepMetrics,
+      deadline
+    });
+    if (progress) saveProgress(progress);
+  }, [progressChecked, savedProgress, completed, currentStepIndex, stepHistory.length, snappedObjects, quizResponses]);
+
+  const resumeProgress = () => {
+    const snapshot = savedProgress && fromProgress(savedProgress, rules.mode, project.steps, project.assets);
+    setSavedProgress(null);
+    if (!snapshot) return;
+    setCurrentStepIndex(snapshot.currentStepIndex);
+    // Visits saved by the headset player have no values of their own, so Back keeps the current ones; no visit keeps its scene
+    setStepHistory(snapshot.stepHistory.map(visit => ({ index: visit.index, values: visit.values || snapshot.variableValues })));
+    setVariableValues(snapshot.variableValues);
+    setSessionAssets(snapshot.sessionAssets);
+    movedAssetIds.current = new Set(snapshot.movedAssetIds);
+    setSnappedObjects(new Set(snapshot.snappedObjects));
+    setSnappedAnchors(new Set(snapshot.snappedAnchors));
+    setQuizResponses(snapshot.quizResponses);
+    setIdentifyAttempts(snapshot.identifyAttempts);
+    setStepMetrics(snapshot.stepMetrics);
+    setDeadline(snapshot.deadline);
+    stepStartedAt.current = Date.now();
+  };
+
+  const startOver = () => {
+    setSavedProgress(null);
+    clearProgress(progressKey);
+  };
+
+  const quizResponse = currentStep?.targetAction === 'quiz' ? quizResponses[currentStep.id] : undefined;
+  const instruction = currentStep ? interpolate(currentStep.instruction, project.variables, variableValues) : '';
+
+  const toggleQuizSelection = (answerId: string) => {
+    if (!currentStep?.quiz || quizResponse) return;
+    setQuizSelection(prev => toggleQuizAnswer(currentStep.quiz, prev, answerId));
+  };
+
+  const submitQuiz = () => {
+    if (!currentStep?.quiz || quizResponse || quizSelection.length === 0) return;
+    const response = createQuizResponse(currentStep, quizSelection);
+    setQuizResponses(prev => ({ ...prev, [currentStep.id]: response }));
+    if (!response.correct) applyMistake();
+  };
+
+  // Quiz and identify steps change variables on every wrong submission or pick
+  const applyMistake = () => {
+    if (currentStep?.onMistake) setVariableValues(prev => applyEffects(project.variables, prev, currentStep.onMistake));
+  };
+
+  const isAnswerRevealed = rules.showHints && currentStep?.targetAction === 'identify' && shouldRevealAnswer(currentStep, identifyAttempts[currentStep.id] || 0);
+
+  const hintMarks = getHintMarks(currentStep, usedHints, rules.showHints);
+  const hintsLeft = rules.showHints && currentStep?.hints ? currentStep.hints.length - usedHints : 0;
+
+  const showNextHint = () => {
+    if (!currentStep || hintsLeft <= 0) return;
+    setUsedHints(usedHints + 1);
+    setStepMetrics(prev => recordMetric(prev, currentStep.id, 'hintsUsed'));
+  };
+
+  // What happens when the step's countdown runs out; a hint timeout just counts down again
+  const handleStepTimeout = () => {
+    const timeLimit = currentStep?.timeLimit;
+    if (!timeLimit) return;
+    if (timeLimit.onTimeout === 'hint') {
+      showNextHint();
+      return;
     }
+    setStepMetrics(prev => recordMetric(prev, currentStep.id, 'timeouts'));
+    leaveStep(failsOnTimeout(currentStep));
+  };
+  // The countdown outlives renders, so it calls the latest handler through a ref
+  const stepTimeoutHandler = useRef(handleStepTimeout);
+  stepTimeoutHandler.current = handleStepTimeout;
+
+  // Step countdown: starts on entering the step and stops once the task is done; hint timeouts restart it after each hint
+  const stepTimeLimit = currentStepIndex > 0 && !completed && !isSnapped && !quizResponse ? currentStep?.timeLimit : undefined;
+  const isStepTimerRunning = !!stepTimeLimit && (stepTimeLimit.onTimeout !== 'hint' || hintsLeft > 0);
+  const [stepTimeLeftMs, setStepTimeLeftMs] = useState<number | null>(null);
+  useEffect(() => {
+    if (!isStepTimerRunning) {
+      setStepTimeLeftMs(null);
+      return;
+    }
+    const endsAt = Date.now() + stepTimeLimit!.seconds * 1000;
+    const timer = setInterval(() => {
+      const left = endsAt - Date.now();
+      setStepTimeLeftMs(Math.max(0, left));
+      if (left <= 0) {
+        clearInterval(timer);
+        stepTimeoutHandler.current();
+      }
+    }, 100);
+    setStepTimeLeftMs(stepTimeLimit!.seconds * 1000);
+    return () => clearInterval(timer);
+  }, [currentStepIndex, stepHistory.length, isStepTimerRunning, stepTimeLimit?.seconds, stepTimeLimit?.onTimeout === 'hint' ? usedHints : 0]);
+
+  // Hints with a delay show on their own, counted from the previous hint or from entering the step
+  useEffect(() => {
+    if (completed || hintsLeft <= 0) return;
+    const delay = getNextHintDelay(currentStep, usedHints);
+    if (delay === null) return;
+    const timer = setTimeout(showNextHint, delay * 1000);
+    return () => clearTimeout(timer);
+  }, [currentStepIndex, stepHistory.length, usedHints, hintsLeft, completed]);
+
+  // Adds up dwell time for gaze and apply steps; true on the frame the step completes
+  const advanceDwell = (isDwelling: boolean, delta: number): boolean => {
+    dwellTime.current = isDwelling ? dwellTime.current + delta : 0;
+    const progress = Math.min(1, dwellTime.current / getDwellSeconds(currentStep));
+    const shown = Math.round(progress * 40) / 40; // Limits re-renders to the ring's visible steps
+    if (shown !== dwellProgress) setDwellProgress(shown);
+    if (progress < 1) return false;
+    dwellDone.current = true;
+    setTimeout(handleNext, 300);
+    return true;
+  };
+
+  const grabAsset = (id: string) => {
+    // Carried objects leave their parent so the hold position can be set in world space
+    setSessionAssets(prev => reparentAsset(prev, id, null));
+    setHeldAssetId(id);
   };
 
   const handleInteraction = (scene: THREE.Scene, camera: THREE.Camera, clientX?: number, clientY?: number) => {
@@ -580,29 +1145,74 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
     raycaster.current.setFromCamera(mouse, camera);
     const intersects = raycaster.current.intersectObjects(scene.children, true);
 
+    let firstHit: string | null = null; // Nearest object under the cursor, for counting wrong clicks
     if (intersects.length > 0) {
       // Loop through all intersections to find the target (in case of transparent overlays/helpers)
       for (const hit of intersects) {
-        let targetObj = hit.object;
-        while (targetObj && !targetObj.name && targetObj.parent) {
-          targetObj = targetObj.parent;
+        const assetHit = resolveAssetHit(hit.object);
+        if (!assetHit) continue;
+        firstHit = firstHit || assetHit.assetId;
+
+        // Identify steps judge the nearest object, so a distractor in front cannot be clicked through
+        if (currentStep?.targetAction === 'identify') {
+          const result = gradeIdentifyPick(currentStep, assetHit);
+          if (!result) return;
+          if (result.correct) {
+            handleNext();
+          } else {
+            setIdentifyAttempts(prev => ({ ...prev, [currentStep.id]: (prev[currentStep.id] || 0) + 1 }));
+            setIdentifyFeedback(result.feedback);
+            applyMistake();
+          }
+          return;
+        }
+
+        // Quiz answers shown as objects can be picked in the scene
+        if (currentStep?.targetAction === 'quiz') {
+          const answer = currentStep.quiz?.answers.find(a => a.assetId === assetHit.assetId);
+          if (answer) {
+            toggleQuizSelection(answer.id);
+            return;
+          }
+          continue;
         }
 
-        const assetId = targetObj.name || targetObj.uuid;
-        const targetAsset = sessionAssets.find(a => a.id === currentStep?.targetAssetId);
+        // Multi steps let the learner pick up any item that is still open
+        if (currentStep?.targetAction === 'multi') {
+          if (!isHolding && getOpenGoal(currentStep, snappedObjects, assetHit.assetId)) {
+            grabAsset(assetHit.assetId);
+            return;
+          }
+          continue;
+        }
+
+        const targetAsset = sceneAssets.find(a => a.id === currentStep?.targetAssetId);
+
+        // Steps aimed at a part of a model only react to hits on that part
+        if (currentStep?.targetNodePath && !isNodeWithin(assetHit.nodePath, currentStep.targetNodePath)) continue;
 
         // Strict check: only allow picking if we clicked the correct target object
-        if (targetAsset && assetId === targetAsset.id) {
+        if (targetAsset && assetHit.assetId === targetAsset.id) {
           if (currentStep?.targetAction === 'click') {
             handleNext();
             return; // Action taken, stop
-          } else if (currentStep?.targetAction === 'move' && !isHolding) {
-            setIsHolding(true);
+          } else if (isMoveAction(currentStep?.targetAction) && !isHolding && getOpenGoal(currentStep, snappedObjects, targetAsset.id)) {
+            grabAsset(targetAsset.id);
             return; // Action taken, stop
+          } else if (currentStep?.targetAction === 'apply' && !isHolding) {
+            grabAsset(targetAsset.id);
+            return;
           }
         }
       }
     }
+
+    // Nothing was picked up or clicked: a click on another object counts against the learner, the room itself doesn't
+    const clicked = sceneAssets.find(a => a.id === firstHit);
+    const isScenery = clicked?.geometryType === 'room' || clicked?.geometryType === 'facility';
+    if (currentStep && clicked && !isScenery && (currentStep.targetAction === 'click' || currentStep.targetAction === 'apply' || isCarryAction(currentStep.targetAction))) {
+      setStepMetrics(prev => recordMetric(prev, currentStep.id, 'wrongClicks'));
+    }
   };
 
   // Carrying and Snapping Logic
@@ -613,10 +1223,12 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
 
     const [targetBox, setTargetBox] = useState<THREE.Box3 | null>(null);
 
-    // Optimize: Pre-calculate target box when step changes
+    const heldGoal = heldAssetId && currentStep ? getOpenGoal(currentStep, snappedObjects, heldAssetId) : undefined;
+
+    // Optimize: Pre-calculate target box when the held object changes
     useEffect(() => {
-      if (currentStep?.snapAnchorId) {
-        const anchorAsset = sessionAssets.find(a => a.id === currentStep.snapAnchorId);
+      if (heldGoal?.snapAnchorId) {
+        const anchorAsset = sceneAssets.find(a => a.id === heldGoal.snapAnchorId);
         if (anchorAsset) {
           const anchorObj = scene.getObjectByName(anchorAsset.id);
           if (anchorObj) {
@@ -626,12 +1238,37 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
       } else {
         setTargetBox(null);
       }
-    }, [currentStep, sessionAssets, scene]);
+    }, [heldGoal?.snapAnchorId, sceneAssets, scene]);
+
+    useFrame((_, delta) => {
+      // Gaze steps complete once the target has stayed under the center of the view long enough
+      if (currentStep?.targetAction === 'gaze' && !completed && !dwellDone.current) {
+        raycaster.current.setFromCamera(new THREE.Vector2(0, 0), camera);
+        advanceDwell(isGazingAtTarget(currentStep, raycaster.current, scene.children), delta);
+      }
+
+      // Apply steps complete once the held tool has touched the region long enough; the tool is released where it is
+      const heldTool = currentStep?.targetAction === 'apply' && heldAssetId === currentStep.targetAssetId ? heldAssetId : null;
+      if (currentStep?.targetAction === 'apply' && !completed && !dwellDone.current) {
+        const tool = heldTool ? scene.getObjectByName(heldTool) : undefined;
+        if (advanceDwell(!!tool && !!currentStep.region && isToolTouchingRegion(tool, scene, currentStep.region, sceneAssets), delta)) {
+          setHeldAssetId(null);
+        }
+      }
+
+      // Reach steps complete as soon as the learner walks into the zone; zones hidden by a scene change are inactive
+      if (currentStep?.targetAction === 'reach' && !completed && !reachDone.current) {
+        const zone = sceneAssets.find(a => a.id === currentStep.targetAssetId);
+        const feet = camera.position.clone().setY(camera.position.y - 1.6);
+        if (zone?.type === 'zone' && zone.visible !== false && isLearnerInZone(zone, sceneAssets, feet, 1.6)) {
+          reachDone.current = true;
+          setTimeout(handleNext, 300);
+        }
+      }
 
-    useFrame(() => {
       // CRITICAL: Check ref flag FIRST to prevent duplicate snaps (state is async!)
-      if (isHolding && currentStep?.targetAssetId && !isSnapped && !isSnapProcessing.current) {
-        const targetAsset = sessionAssets.find(a => a.id === currentStep.targetAssetId);
+      if ((heldGoal || heldTool) && !isSnapped && !isSnapProcessing.current) {
+        const targetAsset = sceneAssets.find(a => a.id === heldAssetId);
         // Don't update if this object is already snapped (locked)
         if (targetAsset && !snappedObjects.has(targetAsset.id)) {
           // Object follows a point in front of camera (Closer for better visibility with small objects)
@@ -642,21 +1279,34 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
           const holdPos = new THREE.Vector3(0, -0.1, -holdDistance).applyMatrix4(camera.matrixWorld);
           updateAssetSessionTransform(targetAsset.id, holdPos);
 
+          // Tools only follow the camera, they never snap
+          if (!heldGoal) return;
+
           // Check for Snap
           let targetPos: THREE.Vector3 | null = null;
           let targetRot: Vector3Tuple | null = null;
 
-          if (currentStep.snapAnchorId) {
-            const anchorAsset = sessionAssets.find(a => a.id === currentStep.snapAnchorId);
+          if (heldGoal.snapAnchorId) {
+            const anchorAsset = sceneAssets.find(a => a.id === heldGoal.snapAnchorId);
             if (anchorAsset) {
-              targetPos = new THREE.Vector3(...anchorAsset.position);
-              targetRot = anchorAsset.rotation;
+              const anchorTransform = getWorldTransform(sceneAssets, anchorAsset.id);
+              targetPos = new THREE.Vector3(...anchorTransform.position);
+              targetRot = anchorTransform.rotation;
             }
-          } else if (currentStep.targetPosition) {
-            targetPos = new THREE.Vector3(...currentStep.targetPosition);
+          } else if (heldGoal.targetPosition) {
+            targetPos = new THREE.Vector3(...heldGoal.targetPosition);
+            targetRot = heldGoal.targetRotation || null;
           }
 
-          if (targetPos) {
+          // Orient steps also need the held object turned the right way before it snaps
+          let isAligned = true;
+          if (currentStep.targetAction === 'orient') {
+            const error = orientationError(toQuaternion(targetAsset.rotation), toQuaternion(targetRot || [0, 0, 0]), currentStep.orientationAxis);
+            isAligned = error <= getOrientationTolerance(currentStep);
+            if (Math.round(error) !== orientError) setOrientError(Math.round(error));
+          }
+
+          if (targetPos && isAligned) {
             let shouldSnap = false;
 
             if (targetBox) {
@@ -671,7 +1321,7 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
                   shouldSnap = true;
                 }
               }
-            } else if (currentStep.targetPosition) {
+            } else if (heldGoal.targetPosition) {
               // Fallback: Distance Check
               if (holdPos.distanceTo(targetPos) < 1.0) {
                 shouldSnap = true;
@@ -682,26 +1332,73 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
               // IMMEDIATELY set flag to prevent duplicate triggers in next frames
               isSnapProcessing.current = true;
 
-              setIsSnapped(true);
-              setIsHolding(false);
+              setHeldAssetId(null);
 
               // IMPORTANT: Set EXACT target position and rotation FIRST (before locking)
               updateAssetSessionTransform(targetAsset.id, targetPos, targetRot || targetAsset.rotation);
 
               // THEN lock the object to prevent any further movement
-              setSnappedObjects(prev => new Set(prev).add(targetAsset.id));
+              const placed = new Set(snappedObjects).add(targetAsset.id);
+              setSnappedObjects(placed);
 
-              if (currentStep.snapAnchorId) {
-                setSnappedAnchors(prev => new Set(prev).add(currentStep.snapAnchorId!));
+              if (heldGoal.snapAnchorId) {
+                setSnappedAnchors(prev => new Set(prev).add(heldGoal.snapAnchorId!));
               }
 
-              setTimeout(handleNext, 800);
+              // Multi steps finish with their last item
+              if (getOpenGoals(currentStep, placed).length === 0) {
+                setIsSnapped(true);
+                setTimeout(handleNext, 800);
+              }
             }
           }
         }
       }
     });
 
+    // Orient steps: the wheel turns the held object around the view's up axis, Shift+wheel tips it
+    // toward the learner, and Q/E or a two-finger twist roll it around the view direction
+    useEffect(() => {
+      if (!isHolding || currentStep?.targetAction !== 'orient') return;
+      const canvas = gl.domElement;
+      const viewAxis = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z).applyQuaternion(camera.quaternion);
+
+      const handleWheel = (e: WheelEvent) => {
+        e.preventDefault();
+        rotateHeldAsset(e.shiftKey ? viewAxis(1, 0, 0) : viewAxis(0, 1, 0), Math.sign(e.deltaY) * ROTATE_STEP);
+      };
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.code === 'KeyQ') rotateHeldAsset(viewAxis(0, 0, 1), ROTATE_STEP);
+        if (e.code === 'KeyE') rotateHeldAsset(viewAxis(0, 0, 1), -ROTATE_STEP);
+      };
+      const handleTouchMove = (e: TouchEvent) => {
+        if (e.touches.length !== 2) {
+          twistAngle.current = null;
+          return;
+        }
+        const [a, b] = [e.touches[0], e.touches[1]];
+        const angle = Math.atan2(b.clientY - a.clientY, b.clientX - a.clientX);
+        if (twistAngle.current !== null) {
+          const delta = Math.atan2(Math.sin(angle - twistAngle.current), Math.cos(angle - twistAngle.current));
+          // Screen y points down, so a clockwise twist is a negative turn around the axis facing the learner
+          rotateHeldAsset(viewAxis(0, 0, 1), -delta);
+        }
+        twistAngle.current = angle;
+      };
+      const handleTouchEnd = () => { twistAngle.current = null; };
+
+      canvas.addEventListener('wheel', handleWheel, { passive: false });
+      window.addEventListener('keydown', handleKeyDown);
+      canvas.addEventListener('touchmove', handleTouchMove);
+      canvas.addEventListener('touchend', handleTouchEnd);
+      return () => {
+        canvas.removeEventListener('wheel', handleWheel);
+        window.removeEventListener('keydown', handleKeyDown);
+        canvas.removeEventListener('touchmove', handleTouchMove);
+        canvas.removeEventListener('touchend', handleTouchEnd);
+      };
+    }, [gl, camera, isHolding]);
+
     useEffect(() => {
       const canvas = gl.domElement;
 
@@ -728,9 +1425,10 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
         };
 
         const handleMouseUp = (e: MouseEvent) => {
-          // Stop holding immediately on MouseUp
+          // Stop holding immediately on MouseUp; letting go of an item anywhere but its destination is a missed drop
           if (isHolding) {
-            setIsHolding(false);
+            if (heldGoal) setStepMetrics(prev => recordMetric(prev, currentStep.id, 'missedDrops'));
+            setHeldAssetId(null);
           }
         };
 
@@ -746,9 +1444,16 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
     return null;
   };
 
+  const rotateHeldAsset = (axis: THREE.Vector3, angle: number) => {
+    const id = heldAssetId;
+    if (!id || snappedObjects.has(id)) return;
+    setSessionAssets(prev => prev.map(a => a.id === id ? { ...a, rotation: rotateAroundAxis(a.rotation, axis, angle) } : a));
+  };
+
   const updateAssetSessionTransform = (id: string, pos: THREE.Vector3, rot?: Vector3Tuple) => {
     // Don't update transform if object is already snapped (locked)
     if (snappedObjects.has(id)) return;
+    movedAssetIds.current.add(id);
 
     setSessionAssets(prev => prev.map(a => {
       if (a.id === id) {
@@ -765,9 +1470,108 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
   const handleRestart = () => {
     setCompleted(false);
     setCurrentStepIndex(0);
+    setStepHistory([]);
+    setVariableValues(getInitialValues(project.variables));
+    setStepMetrics({});
+    stepStartedAt.current = Date.now();
+    setDeadline(null);
+    setTimeLeftMs(null);
+    setTimedOut(false);
     setSessionAssets(project.assets); // Reset asset positions
+    movedAssetIds.current = new Set();
     setSnappedAnchors(new Set()); // Reset hidden anchors
     setSnappedObjects(new Set()); // Reset locked objects
+    setQuizResponses({});
+    setIdentifyAttempts({});
+  };
+
+  // Child assets are rendered inside their parent so they inherit its transform
+  const renderChildren = (parentId: string) => getChildren(sceneAssets, parentId).map(renderAsset);
+
+  const renderAsset = (asset: Asset) => {
+    if (asset.type === 'player_start' || asset.type === 'zone') return null; // Spawn marker and trigger zones are editor-only
+
+    const isTarget = currentStep?.targetAction === 'multi' ? openGoals.some(g => g.assetId === asset.id) : currentStep?.targetAssetId === asset.id;
+    const isHeld = heldAssetId === asset.id;
+    const isMarkedTarget = isTarget && (hintMarks.highlightTarget || isAnswerRevealed);
+    // Models only glow for a revealed answer or an authored hint, not the practice default
+    const isGlowingModel = isTarget && (isAnswerRevealed || (hintMarks.highlightTarget && !!currentStep.hints?.length));
+    const isRegion = currentStep?.targetAction === 'apply' && currentStep.region?.assetId === asset.id;
+    const isAnchor = currentStep?.targetAction === 'multi' ? openGoals.some(g => g.snapAnchorId === asset.id) : currentStep?.snapAnchorId === asset.id;
+    const isMarkedGoal = (isAnchor && hintMarks.showGhost) || (isRegion && hintMarks.highlightTarget);
+    const quizAnswer = currentStep?.targetAction === 'quiz' ? currentStep.quiz?.answers.find(a => a.assetId === asset.id) : undefined;
+    const isPickedAnswer = !!quizAnswer && (quizResponse ? quizResponse.answerIds : quizSelection).includes(quizAnswer.id);
+
+    // Check if this asset is a snap anchor for a step the learner hasn't reached yet
+    const isFutureStepAnchor = project.steps.some(step =>
+      !visitedSteps.includes(step) && getStepAnchorIds(step).includes(asset.id)
+    );
+
+    // Hide Snap Proxy if:
+    // 1. Currently snapped and is current anchor
+    // 2. Previously snapped (in snappedAnchors set)
+    // 3. Is a snap anchor for a future step (not yet reached)
+    if ((isSnapped && isAnchor) || snappedAnchors.has(asset.id) || isFutureStepAnchor) return null;
+
+    return (
+      <group
+        key={asset.id}
+        name={asset.id}
+        userData={{ assetId: asset.id }}
+        renderOrder={isHeld ? 999 : 0}
+      >
+        {asset.type === 'shape' && (
+          <mesh
+            name={asset.id}
+            position={asset.position}
+            rotation={asset.rotation}
+            scale={asset.scale}
+            visible={asset.visible !== false}
+          >
+            {asset.geometryType === 'box' && <boxGeometry args={[0.2, 0.2, 0.2]} />}
+            {asset.geometryType === 'sphere' && <sphereGeometry args={[0.14, 32, 32]} />}
+            {asset.geometryType === 'cone' && <coneGeometry args={[0.14, 0.3, 32]} />}
+            {asset.geometryType === 'torus' && <torusGeometry args={[0.1, 0.04, 16, 100]} />}
+            <meshStandardMaterial
+              color={asset.color}
+              roughness={0.3}
+              metalness={0.2}
+              emissive={isMarkedTarget ? '#3b82f6' : isMarkedGoal ? '#10b981' : isPickedAnswer ? '#f59e0b' : 'black'}
+              emissiveIntensity={(isMarkedTarget || isMarkedGoal || isPickedAnswer) ? 0.4 : 0}
+              depthTest={!isHeld}
+              depthWrite={!isHeld}
+            />
+            {renderChildren(asset.id)}
+          </mesh>
+        )}
+
+        {asset.type === 'text' && (
+          <Text
+            position={asset.position}
+            rotation={asset.rotation}
+            scale={asset.scale}
+            visible={asset.visible !== false}
+            fontSize={0.5}
+            color={asset.color}
+            anchorX="center"
+            anchorY="middle"
+          >
+            {asset.content || ''}
+          </Text>
+        )}
+
+        {asset.type === 'model' && asset.url && (
+          <ViewerModel
+            asset={asset}
+            renderOrder={isHeld ? 999 : 0}
+            isHolding={isHeld}
+            highlightPath={isGlowingModel ? currentStep.targetNodePath || '' : isRegion && hintMarks.highlightTarget ? currentStep.region.nodePath || '' : undefined}
+          >
+            {renderChildren(asset.id)}
+          </ViewerModel>
+        )}
+      </group>
+    );
   };
 
   return (
@@ -779,93 +1583,47 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
           <ambientLight intensity={0.5} />
           <pointLight position={[10, 10, 10]} intensity={1} />
 
-          <Player initialPos={playerStart.position} joystickInput={joystickVal} lookInput={lookVal} collidableAssets={collidableAssets} isMobile={isMobile} />
+          <Player initialPos={playerStart.position} joystickInput={joystickVal} lookInput={lookVal} collidableAssets={collidableAssets} isMobile={isMobile} viewpoint={stepViewpoint} />
           <InteractionManager />
 
           <gridHelper args={[100, 100, 0x222222, 0x111111]} position={[0, 0, 0]} />
 
-          {/* Ghost Hint for Move Steps */}
-          {currentStep && !completed && !isSnapped && (
-            <GhostHint step={currentStep} assets={sessionAssets} />
-          )}
-
-          {sessionAssets.map((asset) => {
-            if (asset.type === 'player_start') return null; // Don't show player start mesh in viewer
-
-            const isTarget = currentStep?.targetAssetId === asset.id;
-            const isAnchor = currentStep?.snapAnchorId === asset.id;
-
-            // Check if this asset is a snap anchor for a future step (not current step)
-            const isFutureStepAnchor = project.steps.some((step, idx) =>
-              idx > currentStepIndex && step.snapAnchorId === asset.id
-            );
-
-            // Hide Snap Proxy if:
-            // 1. Currently snapped and is current anchor
-            // 2. Previously snapped (in snappedAnchors set)
-            // 3. Is a snap anchor for a future step (not yet reached)
-            if ((isSnapped && isAnchor) || snappedAnchors.has(asset.id) || isFutureStepAnchor) return null;
+          {/* Ghost Hints for the destinations of objects still to be placed */}
+          {hintMarks.showGhost && currentStep && !isSnapped && openGoals.map(goal => (
+            <GhostHint key={goal.assetId} step={currentStep} goal={goal} assets={sceneAssets} />
+          ))}
 
-            return (
-              <group
-                key={asset.id}
-                name={asset.id}
-                renderOrder={isTarget && isHolding ? 999 : 0}
-              >
-                {asset.type === 'shape' && (
-                  <mesh
-                    name={asset.id}
-                    position={asset.position}
-                    rotation={asset.rotation}
-                    scale={asset.scale}
-                    visible={asset.visible !== false}
-                  >
-                    {asset.geometryType === 'box' && <boxGeometry args={[0.2, 0.2, 0.2]} />}
-                    {asset.geometryType === 'sphere' && <sphereGeometry args={[0.14, 32, 32]} />}
-                    {asset.geometryType === 'cone' && <coneGeometry args={[0.14, 0.3, 32]} />}
-                    {asset.geometryType === 'torus' && <torusGeometry args={[0.1, 0.04, 16, 100]} />}
-                    <meshStandardMaterial
-                      color={asset.color}
-                      roughness={0.3}
-                      metalness={0.2}
-                      emissive={isTarget ? '#3b82f6' : isAnchor ? '#10b981' : 'black'}
-                      emissiveIntensity={(isTarget || isAnchor) ? 0.4 : 0}
-                      depthTest={!(isTarget && isHolding)}
-                      depthWrite={!(isTarget && isHolding)}
-                    />
-                  </mesh>
-                )}
+          {hintMarks.showArrow && !isHolding && !isSnapped && (currentStep?.targetAction === 'multi' ? openGoals[0]?.assetId : currentStep?.targetAssetId) && (
+            <HintArrow assetId={currentStep.targetAction === 'multi' ? openGoals[0].assetId : currentStep.targetAssetId} assets={sceneAssets} />
+          )}
 
-                {asset.type === 'text' && (
-                  <Text
-                    position={asset.position}
-                    rotation={asset.rotation}
-                    scale={asset.scale}
-                    visible={asset.visible !== false}
-                    fontSize={0.5}
-                    color={asset.color}
-                    anchorX="center"
-                    anchorY="middle"
-                  >
-                    {asset.content || ''}
-                  </Text>
-                )}
-
-                {asset.type === 'model' && asset.url && (
-                  <ViewerModel
-                    asset={asset}
-                    renderOrder={isTarget && isHolding ? 999 : 0}
-                    isHolding={isTarget && isHolding}
-                  />
-                )}
-              </group>
-            );
-          })}
+          {getRootAssets(sceneAssets).map(renderAsset)}
 
           <ContactShadows position={[0, -0.01, 0]} opacity={0.4} scale={50} blur={2.4} />
         </Suspense>
       </Canvas>
 
+      {/* Dwell ring for gaze and apply steps, around the center of view */}
+      {!completed && (currentStep?.targetAction === 'gaze' || (currentStep?.targetAction === 'apply' && dwellProgress > 0)) && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-30">
+          <svg width="56" height="56" viewBox="0 0 56 56" className="-rotate-90">
+            <circle cx="28" cy="28" r="22" fill="none" stroke="rgba(255,255,255,0.2)" strokeWidth="4" />
+            <circle
+              cx="28"
+              cy="28"
+              r="22"
+              fill="none"
+              stroke={dwellProgress >= 1 ? '#22c55e' : '#3b82f6'}
+              strokeWidth="4"
+              strokeLinecap="round"
+              strokeDasharray={2 * Math.PI * 22}
+              strokeDashoffset={2 * Math.PI * 22 * (1 - dwellProgress)}
+            />
+            <circle cx="28" cy="28" r="2" fill="white" />
+          </svg>
+        </div>
+      )}
+
       {/* Control UI Overlays */}
       {isMobile && !completed && (
         <>
@@ -884,6 +1642,7 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
             TEST: {testMode}
           </div>
         )}
+        {!completed && <VariableMonitor variables={project.variables} values={variableValues} />}
       </div>
 
       {/* Start Instructions - Updated for Free Click */}
@@ -927,6 +1686,14 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
                 style={{ width: `${currentStepIndex === 0 ? 0 : (currentStepIndex - 1 / (project.steps.length - 1)) * 100}%` }}
               />
             </div>
+            {rules.mode === 'assessment' && (
+              <span className="text-[10px] font-black uppercase tracking-widest text-amber-400">Assessment</span>
+            )}
+            {timeLeftMs !== null && (
+              <span className={`flex items-center gap-1 font-mono font-bold ${timeLeftMs < 60000 ? 'text-red-400 animate-pulse' : 'text-slate-300'}`}>
+                <Clock size={14} /> {formatDuration(timeLeftMs)}
+              </span>
+            )}
           </div>
         )}
       </div>
@@ -951,11 +1718,12 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
                   </div>
                   <div className="space-y-4">
                     <h1 className="text-4xl font-bold text-white tracking-tight">{currentStep.title}</h1>
-                    <p className="text-slate-300 text-lg leading-relaxed max-w-lg mx-auto whitespace-pre-line">{currentStep.instruction}</p>
+                    <p className="text-slate-300 text-lg leading-relaxed max-w-lg mx-auto whitespace-pre-line">{instruction}</p>
                   </div>
                   <button
                     onClick={handleNext}
-                    className="mt-4 bg-blue-600 hover:bg-blue-500 text-white px-12 py-4 rounded-2xl font-bold text-lg shadow-lg shadow-blue-500/25 transition-all hover:scale-105 active:scale-95 flex items-center gap-3"
+                    disabled={!progressChecked}
+                    className="mt-4 bg-blue-600 hover:bg-blue-500 text-white px-12 py-4 rounded-2xl font-bold text-lg shadow-lg shadow-blue-500/25 transition-all hover:scale-105 active:scale-95 flex items-center gap-3 disabled:opacity-40"
                   >
                     Start Lesson <ChevronRight size={24} />
                   </button>
@@ -965,25 +1733,67 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
                 <>
                   <div className="flex items-start gap-4">
                     <div className={`${isSnapped ? 'bg-green-600/20 text-green-400' : 'bg-blue-600/20 text-blue-400'} p-3 rounded-2xl shrink-0 transition-colors`}>
-                      {isSnapped ? <CheckCircle2 size={24} /> : currentStep.targetAction === 'move' ? <Move size={24} className="animate-pulse" /> : <Info size={24} />}
+                      {isSnapped ? <CheckCircle2 size={24} /> : currentStep.targetAction === 'orient' ? <RotateCw size={24} className="animate-pulse" /> : (currentStep.targetAction === 'move' || currentStep.targetAction === 'multi') ? <Move size={24} className="animate-pulse" /> : <Info size={24} />}
                     </div>
                     <div className="flex-1 space-y-2">
                       <h2 className="text-xl font-bold text-white tracking-tight flex items-center gap-2">
                         {currentStep.title}
-                        {currentStep.targetAction === 'move' && <span className="text-[10px] bg-blue-500 text-white px-2 py-0.5 rounded-full uppercase tracking-tighter font-black">Hold to Move</span>}
+                        {isCarryAction(currentStep.targetAction) && <span className="text-[10px] bg-blue-500 text-white px-2 py-0.5 rounded-full uppercase tracking-tighter font-black">Hold to Move</span>}
+                        {stepTimeLeftMs !== null && (
+                          <span
+                            className={`ml-auto flex items-center gap-1 text-sm font-mono font-black ${stepTimeLeftMs <= 3000 ? 'text-red-400 animate-pulse' : 'text-amber-300'}`}
+                            title={currentStep.timeLimit?.onTimeout === 'hint' ? 'Time until the next hint' : 'Time left for this step'}
+                          >
+                            <Clock size={14} /> {Math.ceil(stepTimeLeftMs / 1000)}s
+                          </span>
+                        )}
                       </h2>
-                      <p className="text-slate-300 leading-relaxed text-sm whitespace-pre-line">{currentStep.instruction}</p>
+                      <p className="text-slate-300 leading-relaxed text-sm whitespace-pre-line">{instruction}</p>
+                      {(currentStep.hints || []).slice(0, usedHints).map((hint, i) => hint.text?.trim() && (
+                        <p key={i} className="flex items-start gap-2 text-amber-200 text-xs leading-relaxed">
+                          <Lightbulb size={14} className="text-amber-400 shrink-0 mt-0.5" /> {hint.text}
+                        </p>
+                      ))}
+                      {hintsLeft > 0 && (
+                        <button
+                          onClick={showNextHint}
+                          className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-amber-400 hover:text-amber-300 transition-colors"
+                        >
+                          <Lightbulb size={12} /> {usedHints === 0 ? 'Show a hint' : 'Another hint'} ({hintsLeft} left)
+                        </button>
+                      )}
                     </div>
                   </div>
 
+                  {currentStep.targetAction === 'quiz' && currentStep.quiz && (
+                    <QuizPanel
+                      quiz={currentStep.quiz}
+                      assets={sceneAssets}
+                      selected={quizSelection}
+                      response={quizResponse}
+                      onToggle={toggleQuizSelection}
+                    />
+                  )}
+
+                  {currentStep.targetAction === 'multi' && currentStep.placements && (
+                    <PlacementProgress
+                      step={currentStep}
+                      assets={sceneAssets}
+                      placed={snappedObjects}
+                      heldAssetId={heldAssetId}
+                    />
+                  )}
+
                   <div className="mt-8 flex justify-between items-center">
-                    <button
-                      disabled={currentStepIndex === 0 || isSnapped}
-                      onClick={() => setCurrentStepIndex(prev => prev - 1)}
-                      className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors disabled:opacity-30"
-                    >
-                      <ChevronLeft size={20} /> Back
-                    </button>
+                    {rules.allowBack ? (
+                      <button
+                        disabled={stepHistory.length === 0 || isSnapped}
+                        onClick={handleBack}
+                        className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors disabled:opacity-30"
+                      >
+                        <ChevronLeft size={20} /> Back
+                      </button>
+                    ) : <span />}
 
                     {currentStep.targetAction === 'none' && !isSnapped && (
                       <button
@@ -994,17 +1804,81 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
                       </button>
                     )}
 
+                    {currentStep.targetAction === 'quiz' && (
+                      quizResponse ? (
+                        <button
+                          onClick={handleNext}
+                          className="bg-blue-600 hover:bg-blue-500 px-8 py-3 rounded-2xl flex items-center gap-2 font-bold text-white shadow-lg shadow-blue-500/20 transition-all active:scale-95"
+                        >
+                          Next <ChevronRight size={20} />
+                        </button>
+                      ) : (
+                        <button
+                          onClick={submitQuiz}
+                          disabled={quizSelection.length === 0}
+                          className="bg-blue-600 hover:bg-blue-500 px-8 py-3 rounded-2xl flex items-center gap-2 font-bold text-white shadow-lg shadow-blue-500/20 transition-all active:scale-95 disabled:opacity-40 disabled:bg-slate-700 disabled:shadow-none"
+                        >
+                          Submit Answer
+                        </button>
+                      )
+                    )}
+
+                    {currentStep.targetAction === 'identify' && (
+                      <div className="flex flex-col items-end gap-1 text-right">
+                        {identifyFeedback ? (
+                          <div className="text-red-400 text-xs font-bold">{identifyFeedback}</div>
+                        ) : (
+                          <div className="text-blue-400 text-[10px] font-black uppercase tracking-widest animate-pulse">
+                            Find and click the right one
+                          </div>
+                        )}
+                        {isAnswerRevealed ? (
+                          <div className="text-[10px] text-blue-300 font-bold uppercase tracking-widest">The answer is highlighted</div>
+                        ) : (identifyAttempts[currentStep.id] || 0) > 0 && (
+                          <div className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                            {identifyAttempts[currentStep.id]} wrong {identifyAttempts[currentStep.id] === 1 ? 'pick' : 'picks'}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {currentStep.targetAction === 'gaze' && (
+                      <div className="flex items-center gap-2 text-blue-400 text-[10px] font-black uppercase tracking-widest">
+                        <Eye size={14} /> Keep the object in the center of view
+                      </div>
+                    )}
+
+                    {currentStep.targetAction === 'apply' && (
+                      <div className="flex items-center gap-2 text-blue-400 text-[10px] font-black uppercase tracking-widest animate-pulse">
+                        {isHolding ? (hintMarks.highlightTarget ? 'Hold the tool on the highlighted area' : 'Hold the tool on the right area') : 'Hold click to pick up the tool'}
+                      </div>
+                    )}
+
+                    {currentStep.targetAction === 'reach' && (
+                      <div className="flex items-center gap-2 text-blue-400 text-[10px] font-black uppercase tracking-widest animate-pulse">
+                        <Footprints size={14} /> Walk to the right spot
+                      </div>
+                    )}
+
                     {currentStep.targetAction === 'click' && (
                       <div className="flex items-center gap-2 text-blue-400 text-[10px] font-black uppercase tracking-widest animate-pulse">
                         Look at target and click
                       </div>
                     )}
 
-                    {currentStep.targetAction === 'move' && !isSnapped && (
-                      <div className="flex flex-col items-end">
+                    {isCarryAction(currentStep.targetAction) && !isSnapped && (
+                      <div className="flex flex-col items-end gap-1">
                         <div className="flex items-center gap-2 text-blue-400 text-[10px] font-black uppercase tracking-widest animate-bounce">
-                          {isHolding ? 'Release to drop / Drag to destination' : 'Hold click to grab object'}
+                          {isHolding ? 'Release to drop / Drag to destination' : currentStep.targetAction === 'multi' ? 'Hold click to grab an item' : 'Hold click to grab object'}
                         </div>
+                        {currentStep.targetAction === 'orient' && isHolding && (
+                          <div className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+                            {isMobile ? 'Twist with two fingers to rotate' : 'Scroll, Shift+Scroll or Q/E to rotate'}
+                            {orientError !== null && (
+                              <span className={orientError <= getOrientationTolerance(currentStep) ? 'text-green-400' : 'text-amber-400'}> · {orientError}° off</span>
+                            )}
+                          </div>
+                        )}
                       </div>
                     )}
 
@@ -1025,13 +1899,35 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
             className="absolute inset-0 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm z-50 p-6"
           >
             <div className="bg-slate-900 border border-slate-700 rounded-[3rem] p-12 max-w-md text-center shadow-2xl">
-              <div className="w-24 h-24 bg-green-500/20 rounded-full flex items-center justify-center mx-auto mb-8 text-green-500">
-                <CheckCircle2 size={64} />
-              </div>
-              <h1 className="text-4xl font-bold mb-4">Well Done!</h1>
-              <p className="text-slate-400 mb-10 leading-relaxed text-lg">
-                You've completed the interactive 3D lesson: <strong>{project.projectName}</strong>.
-              </p>
+              {timedOut ? (
+                <>
+                  <div className="w-24 h-24 bg-amber-500/20 rounded-full flex items-center justify-center mx-auto mb-8 text-amber-500">
+                    <Clock size={64} />
+                  </div>
+                  <h1 className="text-4xl font-bold mb-4">Time's Up</h1>
+                  <p className="text-slate-400 mb-10 leading-relaxed text-lg">
+                    The time limit for <strong>{project.projectName}</strong> ran out before the lesson was finished.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <div className="w-24 h-24 bg-green-500/20 rounded-full flex items-center justify-center mx-auto mb-8 text-green-500">
+                    <CheckCircle2 size={64} />
+                  </div>
+                  <h1 className="text-4xl font-bold mb-4">Well Done!</h1>
+                  <p className="text-slate-400 mb-10 leading-relaxed text-lg">
+                    You've completed the interactive 3D lesson: <strong>{project.projectName}</strong>.
+                  </p>
+                </>
+              )}
+
+              {visitedQuizSteps.length > 0 && (
+                <div className="-mt-6 mb-6 text-sm font-bold text-blue-300">
+                  Quiz: {visitedQuizSteps.filter(s => quizResponses[s.id]?.correct).length} / {visitedQuizSteps.length} correct
+                </div>
+              )}
+
+              <ResultsPanel score={lessonScore} />
 
               <div className="space-y-3">
                 <button
@@ -1064,6 +1960,38 @@ const Viewer: React.FC<ViewerProps> = ({ project, onExit, testMode = 'auto', isS
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Resume prompt for progress saved on an earlier visit */}
+      {savedProgress && (
+        <div className="absolute inset-0 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm z-[60] p-6">
+          <div className="bg-slate-900 border border-slate-700 rounded-[2.5rem] p-10 max-w-md w-full text-center shadow-2xl">
+            <div className="w-20 h-20 bg-blue-600/20 rounded-full flex items-center justify-center mx-auto mb-6 text-blue-400 ring-1 ring-blue-500/50">
+              <History size={40} />
+            </div>
+            <h1 className="text-3xl font-bold text-white mb-3">Welcome Back</h1>
+            <p className="text-slate-400 leading-relaxed mb-2">
+              You were on <strong className="text-white">{project.steps.find(s => s.id === savedProgress.currentStepId)?.title || 'a step'}</strong> in {project.projectName}.
+            </p>
+            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mb-8">
+              Saved {new Date(savedProgress.savedAt).toLocaleString()}
+            </p>
+            <div className="space-y-3">
+              <button
+                onClick={resumeProgress}
+                className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-4 rounded-2xl transition-all hover:scale-105 active:scale-95 shadow-xl flex items-center justify-center gap-2"
+              >
+                Resume where you left off <ChevronRight size={20} />
+              </button>
+              <button
+                onClick={startOver}
+                className="w-full bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold py-4 rounded-2xl transition-all hover:scale-105 active:scale-95 flex items-center justify-center gap-2"
+              >
+                <RefreshCcw size={18} /> Start over
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
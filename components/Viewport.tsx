@@ -1,26 +1,55 @@
 
 // @ts-nocheck
 import React, { Suspense, useRef, useState, useEffect, useMemo } from 'react';
-import { Canvas, useThree } from '@react-three/fiber';
+import { Canvas, ThreeEvent, useThree, useFrame } from '@react-three/fiber';
 import { OrbitControls, TransformControls, Grid, Environment, ContactShadows, Text, useGLTF, Html, useProgress } from '@react-three/drei';
 import * as THREE from 'three';
 import { Asset, Vector3Tuple } from '../types';
 import { Loader2, User } from 'lucide-react';
+import { getChildren, getRootAssets } from '../utils/hierarchy';
+import { applyNodeOverrides, findNodeByPath, markModelRoot } from '../utils/modelNodes';
+import { getZoneShape } from '../utils/zones';
+
+export interface CameraView {
+  position: Vector3Tuple;
+  target: Vector3Tuple;
+}
+
+// Lets the Editor read and set the authoring camera, e.g. to capture a step's viewpoint
+export interface ViewportCameraControls {
+  capture: () => CameraView;
+  moveTo: (view: Partial<CameraView> & { position: Vector3Tuple }) => void;
+}
 
 interface ViewportProps {
   assets: Asset[];
-  selectedAssetId: string | null;
+  selectedAssetId: string | null; // Primary selection, owns the single-object gizmo
+  selectedAssetIds: string[];
   onAssetUpdate: (id: string, updates: Partial<Asset>) => void;
-  onSelectAsset: (id: string | null) => void;
+  onAssetsUpdate: (changes: { id: string; updates: Partial<Asset> }[]) => void;
+  onSelectAsset: (id: string | null, additive?: boolean) => void;
+  onSelectAssets: (ids: string[], additive: boolean) => void;
+  selectedNodePath?: string | null; // Part of the primary selection picked in the Properties panel
+  cameraControlsRef?: React.MutableRefObject<ViewportCameraControls | null>;
   onDropAsset: (type: string, subType: string | null, position: Vector3Tuple, url?: string, label?: string) => void;
 }
 
+// Screen rectangle sent with the 'box-select' window event when a shift-drag ends
+interface BoxSelectDetail {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  additive: boolean;
+}
+
 const CustomModel: React.FC<{
   asset: Asset;
-  onPointerDown: (e: any) => void;
-  onClick: (e: any) => void;
-  onRef: (el: THREE.Object3D) => void
-}> = ({ asset, onPointerDown, onClick, onRef }) => {
+  onPointerDown: (e: ThreeEvent<PointerEvent>) => void;
+  onClick: (e: ThreeEvent<MouseEvent>) => void;
+  onRef: (el: THREE.Object3D) => void;
+  children?: React.ReactNode;
+}> = ({ asset, onPointerDown, onClick, onRef, children }) => {
   const { scene } = useGLTF(asset.url!);
   const clonedScene = useMemo(() => {
     const s = scene.clone();
@@ -30,11 +59,8 @@ const CustomModel: React.FC<{
     s.rotation.set(0, 0, 0);
     s.scale.set(1, 1, 1);
 
-    // Initial pass to clean up internal names so raycaster bubbles up to our wrapper Group
-    s.traverse((child: any) => {
-      // Keep only empty name or force clear existing ones
-      child.name = "";
-    });
+    // Node names are kept so steps can target parts of the model, see utils/modelNodes.ts
+    markModelRoot(s, asset.id);
 
     // Material Override Logic for Snap Proxy / Ghost Mode
     if (asset.opacity !== undefined && asset.opacity < 1) {
@@ -64,8 +90,10 @@ const CustomModel: React.FC<{
       });
     }
 
+    applyNodeOverrides(s, asset.nodeOverrides);
+
     return s;
-  }, [scene, asset.id, asset.opacity, asset.color]);
+  }, [scene, asset.id, asset.opacity, asset.color, asset.nodeOverrides]);
 
   useEffect(() => {
     // Side effects if needed, but the main logic is now in useMemo for the scene graph construction
@@ -73,7 +101,8 @@ const CustomModel: React.FC<{
 
   return (
     <group
-      name={asset.id} // Ensure raycast bubbles up
+      name={asset.id}
+      userData={{ assetId: asset.id }}
       ref={onRef}
       position={asset.position}
       rotation={asset.rotation}
@@ -83,6 +112,7 @@ const CustomModel: React.FC<{
       onClick={asset.visible !== false ? onClick : undefined}
     >
       <primitive object={clonedScene} />
+      {children}
     </group>
   );
 };
@@ -90,8 +120,8 @@ const CustomModel: React.FC<{
 
 const PlayerStartMesh: React.FC<{
   asset: Asset;
-  onPointerDown: (e: any) => void;
-  onClick: (e: any) => void;
+  onPointerDown: (e: ThreeEvent<PointerEvent>) => void;
+  onClick: (e: ThreeEvent<MouseEvent>) => void;
   onRef: (el: THREE.Object3D) => void
 }> = ({ asset, onPointerDown, onClick, onRef }) => {
   return (
@@ -123,6 +153,72 @@ const PlayerStartMesh: React.FC<{
   );
 };
 
+// Trigger zones are drawn as an outline over a faint fill. Only the outline takes clicks, so objects
+// standing inside a zone can still be selected.
+const ZoneMesh: React.FC<{
+  asset: Asset;
+  onPointerDown: (e: ThreeEvent<PointerEvent>) => void;
+  onClick: (e: ThreeEvent<MouseEvent>) => void;
+  onRef: (el: THREE.Object3D) => void
+}> = ({ asset, onPointerDown, onClick, onRef }) => {
+  const shape = getZoneShape(asset);
+  const { geometry, edges } = useMemo(() => {
+    const geometry = shape === 'sphere'
+      ? new THREE.SphereGeometry(0.5, 16, 8)
+      : shape === 'cylinder'
+        ? new THREE.CylinderGeometry(0.5, 0.5, 1, 24)
+        : new THREE.BoxGeometry(1, 1, 1);
+    geometry.translate(0, 0.5, 0);
+    return { geometry, edges: new THREE.EdgesGeometry(geometry) };
+  }, [shape]);
+
+  useEffect(() => () => {
+    geometry.dispose();
+    edges.dispose();
+  }, [geometry, edges]);
+
+  return (
+    <group
+      position={asset.position}
+      rotation={asset.rotation}
+      scale={asset.scale}
+      visible={asset.visible !== false}
+      ref={onRef}
+    >
+      <mesh geometry={geometry} raycast={() => null}>
+        <meshBasicMaterial color={asset.color} transparent opacity={0.08} depthWrite={false} side={THREE.DoubleSide} />
+      </mesh>
+      <lineSegments geometry={edges} onPointerDown={onPointerDown} onClick={onClick}>
+        <lineBasicMaterial color={asset.color} />
+      </lineSegments>
+    </group>
+  );
+};
+
+// Bounding boxes around every selected object while more than one is selected, or around a picked model part
+const SelectionBoxes: React.FC<{ objects: THREE.Object3D[]; color?: number }> = ({ objects, color = 0x3b82f6 }) => {
+  const helpers = useMemo(() => objects.map(obj => new THREE.BoxHelper(obj, color)), [objects, color]);
+
+  useEffect(() => () => {
+    helpers.forEach(helper => {
+      helper.geometry.dispose();
+      (helper.material as THREE.Material).dispose();
+    });
+  }, [helpers]);
+
+  useFrame(() => {
+    helpers.forEach(helper => helper.update());
+  });
+
+  return (
+    <>
+      {helpers.map((helper, i) => <primitive key={i} object={helper} />)}
+    </>
+  );
+};
+
+const isScalable = (asset?: Asset) => !!asset && (asset.type === 'shape' || asset.type === 'text' || asset.type === 'zone');
+
 const LoaderUI = () => {
   const { progress } = useProgress();
   return (
@@ -143,9 +239,32 @@ const LoaderUI = () => {
   );
 };
 
-const SceneContent: React.FC<ViewportProps> = ({ assets, selectedAssetId, onAssetUpdate, onSelectAsset }) => {
-  const { scene, camera } = useThree();
+const SceneContent: React.FC<ViewportProps> = ({ assets, selectedAssetId, selectedAssetIds, onAssetUpdate, onAssetsUpdate, onSelectAsset, onSelectAssets, selectedNodePath, cameraControlsRef }) => {
+  const { scene, camera, gl } = useThree();
   const controlsRef = useRef<any>(null);
+
+  useEffect(() => {
+    if (!cameraControlsRef) return;
+    cameraControlsRef.current = {
+      capture: () => {
+        const target = controlsRef.current ? controlsRef.current.target : new THREE.Vector3();
+        return {
+          position: [camera.position.x, camera.position.y, camera.position.z],
+          target: [target.x, target.y, target.z]
+        };
+      },
+      moveTo: ({ position, target }) => {
+        camera.position.set(...position);
+        if (controlsRef.current) {
+          if (target) controlsRef.current.target.set(...target);
+          controlsRef.current.update();
+        } else if (target) {
+          camera.lookAt(...target);
+        }
+      }
+    };
+    return () => { cameraControlsRef.current = null; };
+  }, [camera, cameraControlsRef]);
   const [transformMode, setTransformMode] = useState<'translate' | 'rotate' | 'scale'>('translate');
   const [isDraggingGizmo, setIsDraggingGizmo] = useState(false);
   const meshRefs = useRef<{ [key: string]: THREE.Object3D }>({});
@@ -159,8 +278,8 @@ const SceneContent: React.FC<ViewportProps> = ({ assets, selectedAssetId, onAsse
       if (e.key === 'w') setTransformMode('translate');
       if (e.key === 'e') setTransformMode('rotate');
       if (e.key === 'r') {
-        const current = assets.find(a => a.id === selectedAssetId);
-        if (current && (current.type === 'shape' || current.type === 'text')) {
+        // Group scaling is only allowed when every selected object supports it
+        if (selectedAssetIds.length > 0 && selectedAssetIds.every(id => isScalable(assets.find(a => a.id === id)))) {
           setTransformMode('scale');
         }
       }
@@ -199,18 +318,57 @@ const SceneContent: React.FC<ViewportProps> = ({ assets, selectedAssetId, onAsse
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedAssetId, camera, onSelectAsset, assets]);
+  }, [selectedAssetId, selectedAssetIds, camera, onSelectAsset, assets]);
 
   // Reset transform mode if switching to an asset that doesn't support scaling
   useEffect(() => {
-    const current = assets.find(a => a.id === selectedAssetId);
-    if (current && transformMode === 'scale' && current.type !== 'shape' && current.type !== 'text') {
+    if (transformMode === 'scale' && selectedAssetIds.some(id => !isScalable(assets.find(a => a.id === id)))) {
       setTransformMode('translate');
     }
-  }, [selectedAssetId, assets, transformMode]);
+  }, [selectedAssetIds, assets, transformMode]);
+
+  // Holding Shift turns a canvas drag into a box selection instead of orbiting
+  const [isShiftHeld, setIsShiftHeld] = useState(false);
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => setIsShiftHeld(e.shiftKey);
+    const handleBlur = () => setIsShiftHeld(false);
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Box selection: pick every visible, unlocked asset whose origin projects inside the screen rectangle
+  useEffect(() => {
+    const handleBoxSelect = (e: CustomEvent<BoxSelectDetail>) => {
+      const { left, top, right, bottom, additive } = e.detail;
+      const rect = gl.domElement.getBoundingClientRect();
+
+      const ids = assets.filter(asset => {
+        const obj = meshRefs.current[asset.id];
+        if (!obj || asset.visible === false || asset.locked) return false;
+
+        const projected = obj.getWorldPosition(new THREE.Vector3()).project(camera);
+        if (projected.z > 1) return false; // Behind the camera
+
+        const x = rect.left + ((projected.x + 1) / 2) * rect.width;
+        const y = rect.top + ((1 - projected.y) / 2) * rect.height;
+        return x >= left && x <= right && y >= top && y <= bottom;
+      }).map(asset => asset.id);
+
+      onSelectAssets(ids, additive);
+    };
+
+    window.addEventListener('box-select', handleBoxSelect);
+    return () => window.removeEventListener('box-select', handleBoxSelect);
+  }, [assets, camera, gl, onSelectAssets]);
 
   // Hàm xử lý việc xác định xem có nên thực hiện Select hay không
-  const handleInteraction = (assetId: string, event: any) => {
+  const handleInteraction = (assetId: string, event: ThreeEvent<MouseEvent>) => {
     if (!pointerDownPos.current) return;
 
     const moveThreshold = 5; // pixel
@@ -219,12 +377,12 @@ const SceneContent: React.FC<ViewportProps> = ({ assets, selectedAssetId, onAsse
 
     // Nếu chuột di chuyển ít hơn threshold thì mới coi là Click chọn vật thể
     if (deltaX < moveThreshold && deltaY < moveThreshold) {
-      onSelectAsset(assetId);
+      onSelectAsset(assetId, !!event.shiftKey);
     }
     pointerDownPos.current = null;
   };
 
-  const onPointerDown = (e: any) => {
+  const onPointerDown = (e: ThreeEvent<PointerEvent>) => {
     e.stopPropagation();
     pointerDownPos.current = { x: e.clientX, y: e.clientY };
   };
@@ -253,15 +411,215 @@ const SceneContent: React.FC<ViewportProps> = ({ assets, selectedAssetId, onAsse
   }, [selectedAssetId]);
 
   const selectedAsset = assets.find(a => a.id === selectedAssetId);
+  const isMultiSelect = selectedAssetIds.length > 1;
   // Show gizmo if we have a target and the asset isn't hidden
-  const showGizmo = gizmoTarget && selectedAsset?.visible !== false;
+  const showGizmo = !isMultiSelect && gizmoTarget && selectedAsset?.visible !== false;
+
+  // Group transforms: a shared pivot at the selection centre drives every selected object
+  const pivotRef = useRef<THREE.Group>(null);
+  const groupDragStart = useRef<{ pivotInverse: THREE.Matrix4; objects: { id: string; obj: THREE.Object3D; world: THREE.Matrix4 }[] } | null>(null);
+
+  // Objects moved by the group gizmo; an object whose ancestor is also selected follows that ancestor instead
+  const getGroupObjects = () => {
+    const selected = selectedAssetIds
+      .filter(id => assets.find(a => a.id === id)?.visible !== false)
+      .map(id => ({ id, obj: meshRefs.current[id] }))
+      .filter(entry => entry.obj);
+    const selectedObjects = new Set(selected.map(entry => entry.obj));
+
+    return selected.filter(({ obj }) => {
+      let parent = obj.parent;
+      while (parent) {
+        if (selectedObjects.has(parent)) return false;
+        parent = parent.parent;
+      }
+      return true;
+    });
+  };
+
+  const selectedNodeObjects = useMemo(() => {
+    const obj = selectedAssetId ? meshRefs.current[selectedAssetId] : null;
+    if (!obj || !selectedNodePath) return [];
+    const modelRoot = obj.children.find(child => child.userData.modelRoot);
+    const node = modelRoot ? findNodeByPath(modelRoot, selectedNodePath) : undefined;
+    return node ? [node] : [];
+  }, [selectedAssetId, selectedNodePath, gizmoTarget]);
+
+  const groupObjects = useMemo(() => isMultiSelect ? getGroupObjects().map(entry => entry.obj) : [], [isMultiSelect, selectedAssetIds, assets, gizmoTarget]);
+
+  useEffect(() => {
+    const pivot = pivotRef.current;
+    if (!pivot || !isMultiSelect || isDraggingGizmo) return;
+
+    const objects = getGroupObjects();
+    if (objects.length === 0) return;
+
+    const center = new THREE.Vector3();
+    objects.forEach(({ obj }) => center.add(obj.getWorldPosition(new THREE.Vector3())));
+    center.divideScalar(objects.length);
+
+    pivot.position.copy(center);
+    pivot.rotation.set(0, 0, 0);
+    pivot.scale.set(1, 1, 1);
+    pivot.updateMatrixWorld();
+  }, [selectedAssetIds, assets, isMultiSelect, isDraggingGizmo]);
+
+  const handleGroupDragStart = () => {
+    const pivot = pivotRef.current;
+    if (!pivot) return;
+    pivot.updateMatrixWorld();
+    groupDragStart.current = {
+      pivotInverse: pivot.matrixWorld.clone().invert(),
+      objects: getGroupObjects().map(({ id, obj }) => {
+        obj.updateMatrixWorld();
+        return { id, obj, world: obj.matrixWorld.clone() };
+      })
+    };
+  };
+
+  const handleGroupDrag = () => {
+    const start = groupDragStart.current;
+    const pivot = pivotRef.current;
+    if (!start || !pivot) return;
+
+    pivot.updateMatrixWorld();
+    const delta = pivot.matrixWorld.clone().multiply(start.pivotInverse);
+
+    start.objects.forEach(({ obj, world }) => {
+      const next = delta.clone().multiply(world);
+      if (obj.parent) {
+        obj.parent.updateMatrixWorld();
+        next.premultiply(obj.parent.matrixWorld.clone().invert());
+      }
+      next.decompose(obj.position, obj.quaternion, obj.scale);
+    });
+  };
+
+  const handleGroupDragEnd = () => {
+    const start = groupDragStart.current;
+    groupDragStart.current = null;
+    if (!start) return;
+
+    onAssetsUpdate(start.objects.map(({ id, obj }) => ({
+      id,
+      updates: {
+        position: [obj.position.x, obj.position.y, obj.position.z],
+        rotation: [obj.rotation.x, obj.rotation.y, obj.rotation.z],
+        scale: [obj.scale.x, obj.scale.y, obj.scale.z]
+      }
+    })));
+  };
+
+  // Child assets are rendered inside their parent so they inherit its transform
+  const renderChildren = (parentId: string) => getChildren(assets, parentId).map(renderAsset);
+
+  const renderAsset = (asset: Asset) => (
+    <React.Fragment key={asset.id}>
+      {asset.type === 'shape' && (
+        <mesh
+          ref={(el) => handleRef(asset.id, el)}
+          position={asset.position}
+          rotation={asset.rotation}
+          scale={asset.scale}
+          visible={asset.visible !== false}
+          onPointerDown={asset.visible !== false ? onPointerDown : undefined}
+          onClick={(e) => {
+            if (asset.visible !== false && !asset.locked) {
+              e.stopPropagation();
+              handleInteraction(asset.id, e);
+            }
+          }}
+        >
+          {asset.geometryType === 'box' && <boxGeometry args={[0.2, 0.2, 0.2]} />}
+          {asset.geometryType === 'sphere' && <sphereGeometry args={[0.14, 32, 32]} />}
+          {asset.geometryType === 'cone' && <coneGeometry args={[0.14, 0.3, 32]} />}
+          {asset.geometryType === 'torus' && <torusGeometry args={[0.1, 0.04, 16, 100]} />}
+          <meshStandardMaterial
+            color={asset.color}
+            roughness={0.3}
+            metalness={0.2}
+            transparent={true}
+            opacity={asset.opacity ?? 0.5}
+          />
+          {renderChildren(asset.id)}
+        </mesh>
+      )}
+
+      {asset.type === 'text' && (
+        <Text
+          ref={(el) => handleRef(asset.id, el)}
+          position={asset.position}
+          rotation={asset.rotation}
+          scale={asset.scale}
+          visible={asset.visible !== false}
+          fontSize={0.5}
+          color={asset.color}
+          anchorX="center"
+          anchorY="middle"
+          onPointerDown={asset.visible !== false ? onPointerDown : undefined}
+          onClick={(e) => {
+            if (asset.visible !== false && !asset.locked) {
+              e.stopPropagation();
+              handleInteraction(asset.id, e);
+            }
+          }}
+        >
+          {asset.content || 'Text'}
+        </Text>
+      )}
+
+      {asset.type === 'model' && asset.url && (
+        <CustomModel
+          asset={asset}
+          onRef={(el) => handleRef(asset.id, el)}
+          onPointerDown={onPointerDown}
+          onClick={(e) => {
+            if (!asset.locked) {
+              e.stopPropagation();
+              handleInteraction(asset.id, e);
+            }
+          }}
+        >
+          {renderChildren(asset.id)}
+        </CustomModel>
+      )}
+
+      {asset.type === 'player_start' && (
+        <PlayerStartMesh
+          asset={asset}
+          onRef={(el) => handleRef(asset.id, el)}
+          onPointerDown={onPointerDown}
+          onClick={(e) => {
+            if (!asset.locked) {
+              e.stopPropagation();
+              handleInteraction(asset.id, e);
+            }
+          }}
+        />
+      )}
+
+      {asset.type === 'zone' && (
+        <ZoneMesh
+          asset={asset}
+          onRef={(el) => handleRef(asset.id, el)}
+          onPointerDown={asset.visible !== false ? onPointerDown : undefined}
+          onClick={(e) => {
+            if (asset.visible !== false && !asset.locked) {
+              e.stopPropagation();
+              handleInteraction(asset.id, e);
+            }
+          }}
+        />
+      )}
+    </React.Fragment>
+  );
 
   return (
     <>
       <OrbitControls
         ref={controlsRef}
         makeDefault
-        enabled={!isDraggingGizmo}
+        enabled={!isDraggingGizmo && !isShiftHeld}
       />
 
       <Environment preset="city" />
@@ -270,89 +628,7 @@ const SceneContent: React.FC<ViewportProps> = ({ assets, selectedAssetId, onAsse
       <gridHelper args={[20, 20, 0x444444, 0x222222]} />
 
       <Suspense fallback={<LoaderUI />}>
-        {assets.map((asset) => (
-          <React.Fragment key={asset.id}>
-            {asset.type === 'shape' && (
-              <mesh
-                ref={(el) => handleRef(asset.id, el)}
-                position={asset.position}
-                rotation={asset.rotation}
-                scale={asset.scale}
-                visible={asset.visible !== false}
-                onPointerDown={asset.visible !== false ? onPointerDown : undefined}
-                onClick={(e) => {
-                  if (asset.visible !== false && !asset.locked) {
-                    e.stopPropagation();
-                    handleInteraction(asset.id, e);
-                  }
-                }}
-              >
-                {asset.geometryType === 'box' && <boxGeometry args={[0.2, 0.2, 0.2]} />}
-                {asset.geometryType === 'sphere' && <sphereGeometry args={[0.14, 32, 32]} />}
-                {asset.geometryType === 'cone' && <coneGeometry args={[0.14, 0.3, 32]} />}
-                {asset.geometryType === 'torus' && <torusGeometry args={[0.1, 0.04, 16, 100]} />}
-                <meshStandardMaterial
-                  color={asset.color}
-                  roughness={0.3}
-                  metalness={0.2}
-                  transparent={true}
-                  opacity={asset.opacity ?? 0.5}
-                />
-              </mesh>
-            )}
-
-            {asset.type === 'text' && (
-              <Text
-                ref={(el) => handleRef(asset.id, el)}
-                position={asset.position}
-                rotation={asset.rotation}
-                scale={asset.scale}
-                visible={asset.visible !== false}
-                fontSize={0.5}
-                color={asset.color}
-                anchorX="center"
-                anchorY="middle"
-                onPointerDown={asset.visible !== false ? onPointerDown : undefined}
-                onClick={(e) => {
-                  if (asset.visible !== false && !asset.locked) {
-                    e.stopPropagation();
-                    handleInteraction(asset.id, e);
-                  }
-                }}
-              >
-                {asset.content || 'Text'}
-              </Text>
-            )}
-
-            {asset.type === 'model' && asset.url && (
-              <CustomModel
-                asset={asset}
-                onRef={(el) => handleRef(asset.id, el)}
-                onPointerDown={onPointerDown}
-                onClick={(e) => {
-                  if (!asset.locked) {
-                    e.stopPropagation();
-                    handleInteraction(asset.id, e);
-                  }
-                }}
-              />
-            )}
-
-            {asset.type === 'player_start' && (
-              <PlayerStartMesh
-                asset={asset}
-                onRef={(el) => handleRef(asset.id, el)}
-                onPointerDown={onPointerDown}
-                onClick={(e) => {
-                  if (!asset.locked) {
-                    e.stopPropagation();
-                    handleInteraction(asset.id, e);
-                  }
-                }}
-              />
-            )}
-          </React.Fragment>
-        ))}
+        {getRootAssets(assets).map(renderAsset)}
       </Suspense>
 
       {showGizmo && (
@@ -374,6 +650,28 @@ const SceneContent: React.FC<ViewportProps> = ({ assets, selectedAssetId, onAsse
         />
       )}
 
+      {selectedNodeObjects.length > 0 && <SelectionBoxes objects={selectedNodeObjects} color={0xfacc15} />}
+
+      <group ref={pivotRef} />
+      {isMultiSelect && groupObjects.length > 0 && (
+        <>
+          <SelectionBoxes objects={groupObjects} />
+          <TransformControls
+            object={pivotRef.current}
+            mode={transformMode}
+            onMouseDown={() => {
+              setIsDraggingGizmo(true);
+              handleGroupDragStart();
+            }}
+            onObjectChange={handleGroupDrag}
+            onMouseUp={() => {
+              setIsDraggingGizmo(false);
+              handleGroupDragEnd();
+            }}
+          />
+        </>
+      )}
+
       <ContactShadows position={[0, -0.01, 0]} opacity={0.4} scale={20} blur={2.4} />
     </>
   );
@@ -382,11 +680,38 @@ const SceneContent: React.FC<ViewportProps> = ({ assets, selectedAssetId, onAsse
 const Viewport: React.FC<ViewportProps> = (props) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const [selectionBox, setSelectionBox] = useState<{ startX: number; startY: number; endX: number; endY: number } | null>(null);
+
+  const selectionRect = selectionBox && {
+    left: Math.min(selectionBox.startX, selectionBox.endX),
+    top: Math.min(selectionBox.startY, selectionBox.endY),
+    right: Math.max(selectionBox.startX, selectionBox.endX),
+    bottom: Math.max(selectionBox.startY, selectionBox.endY)
+  };
+  const containerRect = containerRef.current?.getBoundingClientRect();
+  const scalableSelection = props.selectedAssetIds.length > 0 && props.selectedAssetIds.every(id => isScalable(props.assets.find(a => a.id === id)));
 
   return (
     <div
       ref={containerRef}
       className={`w-full h-full cursor-crosshair relative transition-colors ${isDraggingOver ? 'bg-blue-500/10' : ''}`}
+      onPointerDown={(e) => {
+        if (e.shiftKey && e.button === 0) {
+          setSelectionBox({ startX: e.clientX, startY: e.clientY, endX: e.clientX, endY: e.clientY });
+        }
+      }}
+      onPointerMove={(e) => {
+        if (selectionBox) {
+          setSelectionBox({ ...selectionBox, endX: e.clientX, endY: e.clientY });
+        }
+      }}
+      onPointerUp={() => {
+        // Small drags are shift-clicks, which the objects handle themselves
+        if (selectionRect && selectionRect.right - selectionRect.left > 5 && selectionRect.bottom - selectionRect.top > 5) {
+          window.dispatchEvent(new CustomEvent<BoxSelectDetail>('box-select', { detail: { ...selectionRect, additive: true } }));
+        }
+        setSelectionBox(null);
+      }}
       onDragOver={(e) => {
         e.preventDefault();
         setIsDraggingOver(true);
@@ -423,8 +748,26 @@ const Viewport: React.FC<ViewportProps> = (props) => {
         <DropHandler onDrop={props.onDropAsset} />
       </Canvas>
 
+      {selectionRect && containerRect && (
+        <div
+          className="absolute border border-dashed border-blue-400 bg-blue-500/10 pointer-events-none z-20"
+          style={{
+            left: selectionRect.left - containerRect.left,
+            top: selectionRect.top - containerRect.top,
+            width: selectionRect.right - selectionRect.left,
+            height: selectionRect.bottom - selectionRect.top
+          }}
+        />
+      )}
+
       {props.selectedAssetId && (
         <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-slate-900/90 backdrop-blur-md border border-slate-700 rounded-2xl px-6 py-3 flex items-center gap-8 text-xs text-slate-300 font-mono shadow-2xl z-20">
+          {props.selectedAssetIds.length > 1 && (
+            <>
+              <span className="text-[10px] uppercase font-bold text-blue-400">{props.selectedAssetIds.length} selected</span>
+              <div className="w-px h-4 bg-slate-800" />
+            </>
+          )}
           <div className="flex flex-col items-center gap-1">
             <span className="flex items-center gap-2"> <kbd className="bg-slate-700 px-2 py-0.5 rounded text-white">W</kbd> <span className="text-[10px] uppercase font-bold text-slate-500">Move</span> </span>
           </div>
@@ -434,7 +777,7 @@ const Viewport: React.FC<ViewportProps> = (props) => {
           </div>
           <div className="w-px h-4 bg-slate-800" />
 
-          {(props.assets.find(a => a.id === props.selectedAssetId)?.type === 'shape' || props.assets.find(a => a.id === props.selectedAssetId)?.type === 'text') && (
+          {scalableSelection && (
             <>
               <div className="flex flex-col items-center gap-1">
                 <span className="flex items-center gap-2"> <kbd className="bg-slate-700 px-2 py-0.5 rounded text-white">R</kbd> <span className="text-[10px] uppercase font-bold text-slate-500">Scale</span> </span>
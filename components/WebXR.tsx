@@ -6,13 +6,33 @@ import { VRButton } from 'three/addons/webxr/VRButton.js';
 import { XRControllerModelFactory } from 'three/examples/jsm/webxr/XRControllerModelFactory.js';
 import { XRHandModelFactory } from 'three/examples/jsm/webxr/XRHandModelFactory.js';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { ProjectData } from '../types';
+import { LessonMode, ProjectData, QuizResponse, Step, StepMetrics, Vector3Tuple } from '../types';
+import { loadProjectData } from '../utils/projectValidation';
+import { getWorldTransform } from '../utils/hierarchy';
+import { applyStepStates } from '../utils/stepState';
+import { createQuizResponse, getAnswerLabel, toggleQuizAnswer } from '../utils/quiz';
+import { AssetHit, applyNodeOverrides, findAssetNode, highlightNode, isNodeWithin, markModelRoot, resolveAssetHit } from '../utils/modelNodes';
+import { gradeIdentifyPick, shouldRevealAnswer } from '../utils/identify';
+import { getOrientationTolerance, orientationError, toQuaternion } from '../utils/orientation';
+import { isCarryAction, isMoveAction } from '../utils/stepActions';
+import { getDwellSeconds, isGazingAtTarget } from '../utils/gaze';
+import { isLearnerInZone } from '../utils/zones';
+import { CarryGoal, countPlaced, getOpenGoal, getOpenGoals } from '../utils/placements';
+import { isToolTouchingRegion } from '../utils/toolContact';
+import { failsOnTimeout, resolveNextStep } from '../utils/lessonFlow';
+import { applyEffects, formatMonitor, getInitialValues, interpolate } from '../utils/variables';
+import { formatDuration, recordMetric, scoreLesson } from '../utils/scoring';
+import { getModeRules } from '../utils/lessonMode';
+import { formatHints, getHintMarks, getNextHintDelay } from '../utils/hints';
+import { LessonProgress, clearProgress, fromProgress, loadProgress, saveProgress, toProgress } from '../utils/lessonProgress';
 
 interface WebXRProps {
     project?: ProjectData;
+    mode?: LessonMode; // Overrides the lesson's own mode, e.g. from the launch link
+    progressKey?: string; // Saves progress under this key and offers to resume it
 }
 
-export const WebXR = ({ project }: WebXRProps) => {
+export const WebXR = ({ project, mode, progressKey }: WebXRProps) => {
     const containerRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -27,11 +47,37 @@ export const WebXR = ({ project }: WebXRProps) => {
         let isLoading = true;
         let isStarted = false; // New: Lesson start flag
         let currentStepIndex = 0;
+        const stepHistory: number[] = []; // Steps visited before the current one, in order
+        let variableValues = getInitialValues(project?.variables);
         let completed = false;
-        const snappedObjects = new Set<string>();
+        const snappedObjects = new Set<string>(); // Objects locked in place after snapping
+        const movedAssetIds = new Set<string>(); // Carried objects keep where the user put them
         let holdingAssetId: string | null = null;
         let holdingHand: THREE.Group | null = null;
+        const grabOffset = new THREE.Quaternion(); // Held object's rotation relative to the hand, for orient steps
         let startButton: THREE.Mesh | null = null; // New: Start button mesh
+        let quizGroup: THREE.Group | null = null; // Answer buttons beside the step panel
+        let quizSelection: string[] = [];
+        const quizResponses: Record<string, QuizResponse> = {}; // Keyed by step id, cleared when a branch leads back to the step
+        const identifyAttempts: Record<string, number> = {}; // Wrong picks per step id
+        let stepMetrics: Record<string, StepMetrics> = {}; // Keyed by step id, summed over visits
+        let stepStartedAt = Date.now();
+        const rules = getModeRules(project, mode);
+        let deadline: number | null = null; // Assessment time limit, counted from pressing Start
+        let shownSeconds = -1; // Seconds left as last drawn on the panel
+        let timedOut = false;
+        let usedHints = 0; // Hints used on this visit to the current step
+        let hintTime = 0; // Seconds since entering the step or the last hint, for hints with a delay
+        let hintButton: THREE.Mesh | null = null; // Below the step panel while the step has hints left
+        let hintArrow: THREE.Mesh; // Bobs above the target once a hint turns it on
+        let stepTimeLeft: number | null = null; // Seconds left on the current step's countdown
+        let savedProgress: LessonProgress | null = null; // From an earlier visit, offered instead of Start until resumed or dropped
+        let resumeButtons: THREE.Group | null = null;
+        let highlightedMaterials: { mesh: THREE.Mesh; material: THREE.Material | THREE.Material[] }[] = [];
+        let dwellRing: THREE.Mesh; // Dwell indicator in front of the head, filled with setDrawRange
+        let dwellTime = 0;
+        let dwellDone = false;
+        let reachDone = false; // Reach steps advance once per visit to the zone
         const sessionAssets = [...(project?.assets || [])];
 
         let hand1: THREE.XRHandSpace, hand2: THREE.XRHandSpace;
@@ -202,6 +248,306 @@ export const WebXR = ({ project }: WebXRProps) => {
             if (loadingSpinner) loadingSpinner.visible = showSpinner;
         }
 
+        // Flat panel button with a canvas label; the label can be redrawn with setButtonLabel
+        function createPanelButton(name: string, label: string, width: number, height: number, color: string) {
+            const button = new THREE.Mesh(
+                new THREE.BoxGeometry(width, height, 0.03),
+                new THREE.MeshBasicMaterial({ color: 0x0f172a, transparent: true, depthTest: false, depthWrite: false })
+            );
+            button.name = name;
+            button.renderOrder = 10001;
+
+            const canvas = document.createElement('canvas');
+            canvas.width = 512;
+            canvas.height = Math.round(512 * height / width);
+            const labelMesh = new THREE.Mesh(
+                new THREE.PlaneGeometry(width * 0.96, height * 0.9),
+                new THREE.MeshBasicMaterial({ map: new THREE.CanvasTexture(canvas), transparent: true, depthTest: false, depthWrite: false })
+            );
+            labelMesh.position.z = 0.02;
+            labelMesh.renderOrder = 10002;
+            button.add(labelMesh);
+
+            setButtonLabel(button, label, color);
+            return button;
+        }
+
+        function setButtonLabel(button: THREE.Mesh, label: string, color: string) {
+            const labelMesh = button.children[0] as THREE.Mesh;
+            const texture = (labelMesh.material as THREE.MeshBasicMaterial).map as THREE.CanvasTexture;
+            const canvas = texture.image as HTMLCanvasElement;
+            const context = canvas.getContext('2d')!;
+
+            context.clearRect(0, 0, canvas.width, canvas.height);
+            context.fillStyle = color;
+            context.fillRect(0, 0, canvas.width, canvas.height);
+            context.font = `bold ${Math.round(canvas.height * 0.4)}px Inter, Arial`;
+            context.fillStyle = 'white';
+            context.textAlign = 'center';
+            context.textBaseline = 'middle';
+            context.fillText(label, canvas.width / 2, canvas.height / 2, canvas.width - 24);
+            texture.needsUpdate = true;
+        }
+
+        // Rebuilds the answer buttons for the current quiz step, or removes them on other steps
+        function updateQuizUI() {
+            if (quizGroup) {
+                quizGroup.traverse(child => {
+                    const mesh = child as THREE.Mesh;
+                    if (!mesh.isMesh) return;
+                    mesh.geometry.dispose();
+                    const material = mesh.material as THREE.MeshBasicMaterial;
+                    material.map?.dispose();
+                    material.dispose();
+                });
+                loadingGroup.remove(quizGroup);
+                quizGroup = null;
+            }
+
+            const step = project?.steps[currentStepIndex];
+            if (!isStarted || completed || !step || step.targetAction !== 'quiz' || !step.quiz) return;
+
+            const response = quizResponses[step.id];
+            const picked = response ? response.answerIds : quizSelection;
+            quizGroup = new THREE.Group();
+            quizGroup.position.set(1.75, 0.35, 0.2);
+            quizGroup.rotation.y = -0.35; // Turned toward the learner
+            loadingGroup.add(quizGroup);
+
+            step.quiz.answers.forEach((answer, i) => {
+                const isPicked = picked.includes(answer.id);
+                const color = !response ? (isPicked ? '#2563eb' : '#334155')
+                    : answer.correct ? '#16a34a' : isPicked ? '#dc2626' : '#1e293b';
+                const button = createPanelButton(`quiz_answer_${answer.id}`, getAnswerLabel(answer, sessionAssets), 1.0, 0.16, color);
+                button.position.y = -i * 0.2;
+                quizGroup!.add(button);
+            });
+
+            const submit = createPanelButton(
+                'btn_quiz_submit',
+                response ? 'NEXT' : 'SUBMIT',
+                0.6,
+                0.16,
+                !response && quizSelection.length === 0 ? '#475569' : '#3b82f6'
+            );
+            submit.position.y = -step.quiz.answers.length * 0.2 - 0.1;
+            quizGroup.add(submit);
+        }
+
+        function handleQuizSelect(answerId: string) {
+            const step = project?.steps[currentStepIndex];
+            if (!step?.quiz || quizResponses[step.id]) return;
+            quizSelection = toggleQuizAnswer(step.quiz, quizSelection, answerId);
+            updateQuizUI();
+        }
+
+        function handleQuizSubmit() {
+            const step = project?.steps[currentStepIndex];
+            if (!step?.quiz) return;
+            if (quizResponses[step.id]) {
+                handleNext();
+                return;
+            }
+            if (quizSelection.length === 0) return;
+            quizResponses[step.id] = createQuizResponse(step, quizSelection);
+            if (!quizResponses[step.id].correct) applyMistake(step);
+            updateStepUI();
+            saveLessonProgress();
+        }
+
+        function handleIdentifyPick(step: Step, hit: AssetHit) {
+            const result = gradeIdentifyPick(step, hit);
+            if (!result) return false;
+            if (result.correct) {
+                handleNext();
+                return true;
+            }
+
+            identifyAttempts[step.id] = (identifyAttempts[step.id] || 0) + 1;
+            applyMistake(step);
+            updateLoadingDisplay(withMonitor(`${step.title}: ${result.feedback}`), false);
+            if (rules.showHints && shouldRevealAnswer(step, identifyAttempts[step.id]) && highlightedMaterials.length === 0) {
+                revealAnswer(step);
+            }
+            return true;
+        }
+
+        // Quiz and identify steps change variables on every wrong submission or pick
+        function applyMistake(step: Step) {
+            variableValues = applyEffects(project?.variables, variableValues, step.onMistake);
+        }
+
+        // One line for the final panel: score and pass mark when the lesson has a rubric, then time and mistakes
+        function describeResults() {
+            const score = scoreLesson(project!.steps, stepMetrics, quizResponses, identifyAttempts, {
+                rubric: rules.rubric,
+                hintsShown: rules.showHints,
+                unfinishedStepId: timedOut ? project!.steps[currentStepIndex]?.id : undefined
+            });
+            const mistakes = score.steps.reduce((sum, s) => sum + s.mistakes, 0);
+            const missedDrops = score.steps.reduce((sum, s) => sum + s.metrics.missedDrops, 0);
+            const hints = score.steps.reduce((sum, s) => sum + s.hints, 0);
+            return [
+                score.maxPoints > 0 && `Score: ${score.percent}% (${score.points} / ${score.maxPoints})`,
+                score.passed !== undefined && (score.passed ? 'Passed' : 'Not passed'),
+                `Time: ${formatDuration(score.totalTimeMs)}`,
+                `Mistakes: ${mistakes}`,
+                missedDrops > 0 && `Missed drops: ${missedDrops}`,
+                hints > 0 && `Hints: ${hints}`
+            ].filter(Boolean).join(' | ');
+        }
+
+        // Adds the time since the step started to its metrics
+        function recordStepTime(step: Step | undefined) {
+            if (!step) return;
+            const now = Date.now();
+            stepMetrics = recordMetric(stepMetrics, step.id, 'timeMs', now - stepStartedAt);
+            stepStartedAt = now;
+        }
+
+        // Panel text followed by the used hints, the countdowns and the visible variables, since the headset has no separate monitor
+        function withMonitor(text: string) {
+            const step = project?.steps[currentStepIndex];
+            const hints = step ? formatHints(step, usedHints) : '';
+            const stepTimer = stepTimeLeft !== null ? `${step?.timeLimit?.onTimeout === 'hint' ? 'Next hint in' : 'Step time'} ${Math.ceil(stepTimeLeft)}s` : '';
+            const timer = deadline !== null ? `Time left ${formatDuration(Math.max(0, deadline - Date.now()))}` : '';
+            return [text, hints, stepTimer, timer, formatMonitor(project?.variables, variableValues)].filter(Boolean).join(' | ');
+        }
+
+        // Ends the lesson where the learner is once the time limit runs out, and redraws the clock every second
+        function updateTimeLimit() {
+            if (deadline === null || completed) return;
+            const left = deadline - Date.now();
+            if (left <= 0) {
+                recordStepTime(project?.steps[currentStepIndex]);
+                timedOut = true;
+                completed = true;
+                holdingAssetId = null;
+                holdingHand = null;
+                updateStepUI();
+                updateGhostHints();
+                saveLessonProgress();
+                return;
+            }
+            const seconds = Math.ceil(left / 1000);
+            if (seconds !== shownSeconds) {
+                shownSeconds = seconds;
+                updateStepUI();
+            }
+        }
+
+        function getHintsLeft() {
+            const step = project?.steps[currentStepIndex];
+            return isStarted && !completed && rules.showHints && step?.hints ? step.hints.length - usedHints : 0;
+        }
+
+        function showNextHint() {
+            const step = project?.steps[currentStepIndex];
+            if (!step || getHintsLeft() <= 0) return;
+            usedHints++;
+            hintTime = 0;
+            stepMetrics = recordMetric(stepMetrics, step.id, 'hintsUsed');
+            updateStepUI();
+            updateGhostHints();
+            updateHintMarks();
+        }
+
+        // Shows the hint button while the step has hints left; the step panel shows the used ones
+        function updateHintUI() {
+            const left = getHintsLeft();
+            if (!hintButton) {
+                hintButton = createPanelButton('btn_hint', '', 0.8, 0.14, '#d97706');
+                hintButton.position.set(0, -0.75, 0.1);
+                loadingGroup.add(hintButton);
+            }
+            hintButton.visible = left > 0;
+            if (left > 0) setButtonLabel(hintButton, `${usedHints === 0 ? 'HINT' : 'ANOTHER HINT'} (${left} LEFT)`, '#d97706');
+        }
+
+        // Glows from the step's hints, or the practice default of lighting up an apply step's region
+        function updateHintMarks() {
+            const step = project?.steps[currentStepIndex];
+            if (!step || !getHintMarks(step, usedHints, rules.showHints).highlightTarget || highlightedMaterials.length > 0) return;
+            if (step.targetAction === 'apply' && step.region) {
+                highlightPart(step.region.assetId, step.region.nodePath);
+            } else if (step.hints?.length) {
+                // Models have no target glow by default, so only authored hints light them up
+                if (step.targetAction === 'multi') getOpenGoals(step, snappedObjects).forEach(goal => highlightPart(goal.assetId));
+                else if (step.targetAssetId) highlightPart(step.targetAssetId, step.targetNodePath);
+            }
+        }
+
+        // Keeps the hint arrow above the target, or the next item on multi steps, while nothing is held
+        function updateHintArrow(elapsed: number) {
+            const step = project?.steps[currentStepIndex];
+            const marks = getHintMarks(step, usedHints, rules.showHints);
+            const assetId = step?.targetAction === 'multi' ? getOpenGoals(step, snappedObjects)[0]?.assetId : step?.targetAssetId;
+            const target = marks.showArrow && !holdingAssetId && !completed && assetId ? scene.getObjectByName(assetId) : undefined;
+            hintArrow.visible = !!target;
+            if (!target) return;
+            target.getWorldPosition(hintArrow.position);
+            hintArrow.position.y += 0.5 + Math.sin(elapsed * 3) * 0.05;
+        }
+
+        // Counts the step's countdown down while its task is open, and acts on the timeout when it runs out
+        function updateStepTimer(delta: number) {
+            const step = project?.steps[currentStepIndex];
+            const timeLimit = step?.timeLimit;
+            if (isLoading || completed || stepTimeLeft === null || !step || !timeLimit || quizResponses[step.id]) return;
+            if (timeLimit.onTimeout === 'hint' && getHintsLeft() <= 0) {
+                stepTimeLeft = null;
+                updateStepUI();
+                return;
+            }
+            const shown = Math.ceil(stepTimeLeft);
+            stepTimeLeft -= delta;
+            if (stepTimeLeft > 0) {
+                if (Math.ceil(stepTimeLeft) !== shown) updateStepUI();
+                return;
+            }
+            if (timeLimit.onTimeout === 'hint') {
+                stepTimeLeft = timeLimit.seconds;
+                showNextHint();
+                return;
+            }
+            stepTimeLeft = null;
+            stepMetrics = recordMetric(stepMetrics, step.id, 'timeouts');
+            holdingAssetId = null;
+            holdingHand = null;
+            handleNext(failsOnTimeout(step));
+        }
+
+        // Counts toward the next hint's delay
+        function updateHintTimer(delta: number) {
+            if (isLoading || getHintsLeft() <= 0) return;
+            const delay = getNextHintDelay(project?.steps[currentStepIndex], usedHints);
+            if (delay === null) return;
+            hintTime += delta;
+            if (hintTime >= delay) showNextHint();
+        }
+
+        // Makes an identify step's right answer glow
+        function revealAnswer(step: Step) {
+            if (step.targetAssetId) highlightPart(step.targetAssetId, step.targetNodePath);
+        }
+
+        // Glowing objects get their original materials back on the next step
+        function highlightPart(assetId: string, nodePath?: string) {
+            const node = findAssetNode(scene, assetId, nodePath);
+            if (!node) return;
+
+            node.traverse(child => {
+                const mesh = child as THREE.Mesh;
+                if (mesh.isMesh && mesh.material) highlightedMaterials.push({ mesh, material: mesh.material });
+            });
+            highlightNode(node, '#3b82f6');
+        }
+
+        function clearHighlights() {
+            highlightedMaterials.forEach(({ mesh, material }) => { mesh.material = material; });
+            highlightedMaterials = [];
+        }
+
         function updateLoadingText(text: string) {
             updateLoadingDisplay(text, true);
         }
@@ -227,7 +573,8 @@ export const WebXR = ({ project }: WebXRProps) => {
                     assetsToLoad = project.assets;
                 } else {
                     const response = await fetch('/defaultScenes/DQ00HD_Anatomy_of_the_Heart 2.json');
-                    const projectData = await response.json();
+                    const { project: projectData } = loadProjectData(await response.json());
+                    if (!projectData) throw new Error('Default scene is invalid');
                     assetsToLoad = projectData.assets;
                 }
 
@@ -241,11 +588,14 @@ export const WebXR = ({ project }: WebXRProps) => {
                             updateLoadingText(`Loading Models: ${current}/${total}`);
                             const model = await loadModelAsync(asset.url);
                             model.name = asset.id;
+                            model.userData.assetId = asset.id;
+                            markModelRoot(model, asset.id);
 
-                            // Apply transformations
-                            if (asset.position) model.position.set(...(asset.position as [number, number, number]));
-                            if (asset.rotation) model.rotation.set(...(asset.rotation as [number, number, number]));
-                            if (asset.scale) model.scale.set(...(asset.scale as [number, number, number]));
+                            // Apply transformations in world space; nested models are attached to their parents once everything is loaded
+                            const { position, rotation, scale } = getWorldTransform(assetsToLoad, asset.id);
+                            model.position.set(...position);
+                            model.rotation.set(...rotation);
+                            model.scale.set(...scale);
 
                             // Apply visibility and opacity
                             model.visible = asset.visible !== false;
@@ -269,6 +619,8 @@ export const WebXR = ({ project }: WebXRProps) => {
                                 });
                             }
 
+                            applyNodeOverrides(model, asset.nodeOverrides);
+
                             scene.add(model);
                             current++;
                             console.log(`Loaded model: ${asset.name || asset.id}`);
@@ -278,6 +630,14 @@ export const WebXR = ({ project }: WebXRProps) => {
                     }
                 }
 
+                // Rebuild the asset hierarchy; attach() keeps the world transforms applied above
+                for (const asset of assetsToLoad) {
+                    if (!asset.parentId) continue;
+                    const child = scene.getObjectByName(asset.id);
+                    const parent = scene.getObjectByName(asset.parentId);
+                    if (child && parent) parent.attach(child);
+                }
+
                 // Scene Pre-warming: Compile shaders and prepare materials
                 updateLoadingText('Preparing scene...');
                 renderer.compile(scene, camera);
@@ -285,6 +645,11 @@ export const WebXR = ({ project }: WebXRProps) => {
                 // Stabilization Buffer: Wait 1s to allow GPU data upload to finish
                 await new Promise(resolve => setTimeout(resolve, 1000));
 
+                if (progressKey && project) {
+                    const progress = await loadProgress(progressKey);
+                    if (progress && fromProgress(progress, rules.mode, project.steps, project.assets)) savedProgress = progress;
+                }
+
                 isLoading = false;
                 updateStepUI();
 
@@ -297,6 +662,7 @@ export const WebXR = ({ project }: WebXRProps) => {
                 hand2.visible = true;
 
                 // Load ghost hints/anchors for the first step if needed
+                applyStepSceneState();
                 updateGhostHints();
 
             } catch (error) {
@@ -309,8 +675,16 @@ export const WebXR = ({ project }: WebXRProps) => {
             if (!project || !project.steps) return;
 
             if (completed) {
-                updateLoadingDisplay('Congratulations! Lesson Complete', false);
+                // Only quiz steps on the user's path count; a step reached twice counts once
+                const quizSteps = [...new Set(getVisitedSteps().filter(s => s.targetAction === 'quiz'))];
+                const quizCount = quizSteps.length;
+                const correctCount = quizSteps.filter(s => quizResponses[s.id]?.correct).length;
+                const heading = timedOut ? "Time's up!" : 'Congratulations! Lesson Complete';
+                updateLoadingDisplay(`${heading}${quizCount > 0 ? ` - Quiz: ${correctCount} / ${quizCount} correct` : ''} - ${describeResults()}`, false);
                 if (startButton) startButton.visible = false;
+                updateResumeUI();
+                updateQuizUI();
+                updateHintUI();
                 return;
             }
 
@@ -319,16 +693,140 @@ export const WebXR = ({ project }: WebXRProps) => {
             if (!isStarted) {
                 // Show text from step 1 even if not started
                 const introStep = project.steps[0];
-                const introText = introStep ? `${introStep.title}: ${introStep.instruction}` : 'Welcome to the Lesson! Press Start to Begin.';
+                const introText = introStep ? `${introStep.title}: ${interpolate(introStep.instruction, project.variables, variableValues)}` : 'Welcome to the Lesson! Press Start to Begin.';
                 updateLoadingDisplay(introText, false);
-                if (startButton) startButton.visible = true;
+                if (startButton) startButton.visible = !savedProgress;
+                updateResumeUI();
+                updateHintUI();
                 return;
             }
 
-            if (currentStep) {
-                updateLoadingDisplay(`${currentStep.title}: ${currentStep.instruction}`, isLoading);
+            if (currentStep?.targetAction === 'quiz' && currentStep.quiz) {
+                const response = quizResponses[currentStep.id];
+                const feedback = response
+                    ? [response.correct ? 'Correct!' : 'Not quite.', ...currentStep.quiz.answers.filter(a => response.answerIds.includes(a.id) && a.feedback).map(a => a.feedback)].join(' ')
+                    : currentStep.quiz.question;
+                updateLoadingDisplay(withMonitor(`${currentStep.title}: ${feedback}`), isLoading);
+                if (startButton) startButton.visible = false;
+            } else if (currentStep?.targetAction === 'multi' && currentStep.placements) {
+                const progress = `${countPlaced(currentStep, snappedObjects)} / ${currentStep.placements.items.length} placed`;
+                updateLoadingDisplay(withMonitor(`${currentStep.title}: ${interpolate(currentStep.instruction, project.variables, variableValues)} (${progress})`), isLoading);
                 if (startButton) startButton.visible = false;
+            } else if (currentStep) {
+                updateLoadingDisplay(withMonitor(`${currentStep.title}: ${interpolate(currentStep.instruction, project.variables, variableValues)}`), isLoading);
+                if (startButton) startButton.visible = false;
+            }
+            updateResumeUI();
+            updateQuizUI();
+            updateHintUI();
+        }
+
+        // Resume and Start Over in place of Start while progress from an earlier visit is on offer
+        function updateResumeUI() {
+            const step = savedProgress && project?.steps.find(s => s.id === savedProgress!.currentStepId);
+            if (!isStarted && step) {
+                if (!resumeButtons) {
+                    resumeButtons = new THREE.Group();
+                    resumeButtons.position.set(0, -0.6, 0.1);
+                    const resume = createPanelButton('btn_resume', 'RESUME', 0.7, 0.18, '#3b82f6');
+                    resume.position.x = -0.4;
+                    const startOver = createPanelButton('btn_start_over', 'START OVER', 0.7, 0.18, '#334155');
+                    startOver.position.x = 0.4;
+                    resumeButtons.add(resume, startOver);
+                    loadingGroup.add(resumeButtons);
+                }
+                updateLoadingDisplay(`Welcome back! You were on ${step.title}. Resume where you left off, or start over.`, false);
+                return;
+            }
+            if (resumeButtons) {
+                resumeButtons.traverse(child => {
+                    const mesh = child as THREE.Mesh;
+                    if (!mesh.isMesh) return;
+                    mesh.geometry.dispose();
+                    const material = mesh.material as THREE.MeshBasicMaterial;
+                    material.map?.dispose();
+                    material.dispose();
+                });
+                loadingGroup.remove(resumeButtons);
+                resumeButtons = null;
+            }
+        }
+
+        // Picks the lesson up where the saved progress left it
+        function resumeProgress() {
+            const snapshot = savedProgress && project ? fromProgress(savedProgress, rules.mode, project.steps, project.assets) : null;
+            savedProgress = null;
+            if (!snapshot) {
+                updateStepUI();
+                return;
+            }
+            isStarted = true;
+            currentStepIndex = snapshot.currentStepIndex;
+            stepHistory.splice(0, stepHistory.length, ...snapshot.stepHistory.map(visit => visit.index));
+            variableValues = snapshot.variableValues;
+            sessionAssets.splice(0, sessionAssets.length, ...snapshot.sessionAssets);
+            snapshot.snappedObjects.forEach(id => snappedObjects.add(id));
+            Object.assign(quizResponses, snapshot.quizResponses);
+            Object.assign(identifyAttempts, snapshot.identifyAttempts);
+            stepMetrics = snapshot.stepMetrics;
+            deadline = snapshot.deadline;
+            stepStartedAt = Date.now();
+
+            // Placed objects go back where they snapped; ones that were only carried return to their authored place
+            snapshot.snappedObjects.forEach(id => {
+                const obj = scene.getObjectByName(id);
+                const asset = sessionAssets.find(a => a.id === id);
+                if (!obj || !asset) return;
+                scene.attach(obj);
+                obj.position.set(...asset.position);
+                obj.rotation.set(...asset.rotation);
+                movedAssetIds.add(id);
+            });
+            enterStep();
+        }
+
+        function startOver() {
+            savedProgress = null;
+            if (progressKey) clearProgress(progressKey);
+            isStarted = true;
+            handleNext();
+        }
+
+        // Saves where the learner is, or clears the saved progress once the lesson is over
+        function saveLessonProgress() {
+            if (!progressKey || !project) return;
+            if (completed) {
+                clearProgress(progressKey);
+                return;
+            }
+            const progress = toProgress(progressKey, rules.mode, project.steps, {
+                currentStepIndex,
+                stepHistory: stepHistory.map(index => ({ index })),
+                variableValues,
+                sessionAssets,
+                movedAssetIds: [...movedAssetIds],
+                snappedObjects: [...snappedObjects],
+                snappedAnchors: [],
+                quizResponses,
+                identifyAttempts,
+                stepMetrics,
+                deadline
+            });
+            if (progress) saveProgress(progress);
+        }
+
+        // Where a carried object has to go; rotation is null when any angle will do
+        function getGoalDestination(goal: CarryGoal): { position: THREE.Vector3; rotation: Vector3Tuple | null } | null {
+            if (goal.snapAnchorId) {
+                const anchor = sessionAssets.find(a => a.id === goal.snapAnchorId);
+                if (!anchor) return null;
+                const { position, rotation } = getWorldTransform(sessionAssets, anchor.id);
+                return { position: new THREE.Vector3(...position), rotation };
             }
+            if (goal.targetPosition) {
+                return { position: new THREE.Vector3(...goal.targetPosition), rotation: goal.targetRotation || null };
+            }
+            return null;
         }
 
         function updateGhostHints() {
@@ -337,25 +835,23 @@ export const WebXR = ({ project }: WebXRProps) => {
 
             if (completed || !project || !project.steps) return;
             const currentStep = project.steps[currentStepIndex];
-            if (currentStep?.targetAction === 'move') {
-                let targetPos: THREE.Vector3 | null = null;
-
-                if (currentStep.snapAnchorId) {
-                    const anchor = sessionAssets.find(a => a.id === currentStep.snapAnchorId);
-                    if (anchor) targetPos = new THREE.Vector3(...anchor.position);
-                } else if (currentStep.targetPosition) {
-                    targetPos = new THREE.Vector3(...currentStep.targetPosition);
-                }
+            if (!currentStep || !getHintMarks(currentStep, usedHints, rules.showHints).showGhost) return;
+            for (const goal of getOpenGoals(currentStep, snappedObjects)) {
+                const destination = getGoalDestination(goal);
+                const targetPos = destination?.position;
+                const isOrient = currentStep.targetAction === 'orient';
 
                 if (targetPos) {
-                    const targetAsset = sessionAssets.find(a => a.id === currentStep.targetAssetId);
+                    const targetAsset = sessionAssets.find(a => a.id === goal.assetId);
                     if (targetAsset && targetAsset.url) {
                         const loader = new GLTFLoader();
                         loader.load(targetAsset.url, (gltf) => {
                             const ghost = gltf.scene;
                             ghost.name = `ghost_${targetAsset.id}`;
                             ghost.position.copy(targetPos!);
-                            if (targetAsset.rotation) ghost.rotation.set(...(targetAsset.rotation as [number, number, number]));
+                            // Orient steps show the ghost at the angle the learner has to match
+                            const ghostRotation = isOrient ? destination!.rotation || [0, 0, 0] : targetAsset.rotation;
+                            if (ghostRotation) ghost.rotation.set(...(ghostRotation as [number, number, number]));
                             if (targetAsset.scale) ghost.scale.set(...(targetAsset.scale as [number, number, number]));
 
                             ghost.traverse(child => {
@@ -382,7 +878,7 @@ export const WebXR = ({ project }: WebXRProps) => {
                             labelCtx.fillStyle = '#10b981';
                             labelCtx.textAlign = 'center';
                             labelCtx.textBaseline = 'middle';
-                            labelCtx.fillText('PLACE HERE', 128, 32);
+                            labelCtx.fillText(isOrient ? 'PLACE & ALIGN' : 'PLACE HERE', 128, 32);
 
                             const labelTex = new THREE.CanvasTexture(labelCanvas);
                             const labelPlane = new THREE.PlaneGeometry(0.5, 0.125);
@@ -397,7 +893,67 @@ export const WebXR = ({ project }: WebXRProps) => {
             }
         }
 
-        function handleNext() {
+        // Steps on the path the user took, ending with the current one
+        function getVisitedSteps(): Step[] {
+            return [...stepHistory, currentStepIndex].map(index => project!.steps[index]).filter(Boolean);
+        }
+
+        // Per-step scene changes (see utils/stepState.ts), resolved along the visited steps
+        function applyStepSceneState() {
+            if (!project || !project.steps) return;
+            const stateAssets = applyStepStates(sessionAssets, getVisitedSteps(), movedAssetIds);
+
+            for (const asset of stateAssets) {
+                const obj = scene.getObjectByName(asset.id);
+                if (!obj) continue;
+
+                obj.visible = asset.visible !== false;
+
+                if (!movedAssetIds.has(asset.id)) {
+                    // Models whose parent isn't rendered here sit at the scene root in world space
+                    const { position, rotation, scale } = obj.parent === scene ? getWorldTransform(stateAssets, asset.id) : asset;
+                    obj.position.set(...position);
+                    obj.rotation.set(...rotation);
+                    obj.scale.set(...scale);
+                }
+
+                const opacity = asset.opacity ?? 1;
+                obj.traverse((child) => {
+                    const mesh = child as THREE.Mesh;
+                    if (!mesh.isMesh || !mesh.material) return;
+                    (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).forEach(mat => {
+                        mat.transparent = opacity < 1 || mat.transparent;
+                        mat.opacity = opacity;
+                    });
+                });
+            }
+        }
+
+        // In a headset every camera mode teleports: a smooth flight moves the view without the user moving, which causes motion sickness
+        function applyStepViewpoint() {
+            if (!project || !project.steps) return;
+            const step = project.steps[currentStepIndex];
+            if (!step || !step.cameraMode || step.cameraMode === 'none') return;
+
+            // Turn the user so their current head direction faces the step's look target
+            if (step.cameraTarget) {
+                const dx = step.cameraTarget[0] - step.cameraPosition[0];
+                const dz = step.cameraTarget[2] - step.cameraPosition[2];
+                const headYaw = new THREE.Euler().setFromQuaternion(camera.quaternion, 'YXZ').y;
+                userGroup.rotation.y = Math.atan2(-dx, -dz) - headYaw;
+            }
+
+            // Then move the user so the head lands on the step's camera position
+            const headOffset = camera.position.clone().applyAxisAngle(camera.up, userGroup.rotation.y);
+            userGroup.position.set(
+                step.cameraPosition[0] - headOffset.x,
+                step.cameraPosition[1] - headOffset.y,
+                step.cameraPosition[2] - headOffset.z
+            );
+        }
+
+        // Leaves the current step with its completion effects, or with its mistake effects when its countdown failed it
+        function handleNext(timedOut = false) {
             if (!project || !project.steps) {
                 completed = true;
                 updateStepUI();
@@ -405,17 +961,50 @@ export const WebXR = ({ project }: WebXRProps) => {
                 return;
             }
 
-            if (currentStepIndex < project.steps.length - 1) {
-                currentStepIndex++;
-                updateStepUI();
-                updateGhostHints();
+            const step = project.steps[currentStepIndex];
+            recordStepTime(step);
+            if (currentStepIndex === 0 && rules.timeLimitMs && deadline === null) deadline = Date.now() + rules.timeLimitMs;
+            variableValues = applyEffects(project.variables, variableValues, timedOut ? step?.onMistake : step?.onComplete);
+            const nextIndex = step ? resolveNextStep(project.steps, currentStepIndex, {
+                quizResponse: quizResponses[step.id],
+                mistakes: identifyAttempts[step.id],
+                values: variableValues,
+                timedOut
+            }) : null;
+
+            if (nextIndex !== null) {
+                stepHistory.push(currentStepIndex);
+                currentStepIndex = nextIndex;
+                // A step reached again through a branch is answered afresh
+                delete quizResponses[project.steps[nextIndex].id];
+                delete identifyAttempts[project.steps[nextIndex].id];
+                enterStep();
             } else {
                 completed = true;
                 updateStepUI();
                 updateGhostHints();
+                saveLessonProgress();
             }
         }
 
+        // Starts the current step afresh: per-visit state, panel, scene changes and viewpoint
+        function enterStep() {
+            quizSelection = [];
+            clearHighlights();
+            usedHints = 0;
+            hintTime = 0;
+            stepTimeLeft = project!.steps[currentStepIndex].timeLimit?.seconds ?? null;
+            updateHintMarks();
+            dwellTime = 0;
+            dwellDone = false;
+            reachDone = false;
+            updateStepUI();
+            applyStepSceneState();
+            updateGhostHints();
+            applyStepViewpoint();
+            saveLessonProgress();
+        }
+
         function onSelectStart(event: any) {
             if (isLoading || completed || !project || !project.steps) return;
             const controller = event.target;
@@ -428,6 +1017,7 @@ export const WebXR = ({ project }: WebXRProps) => {
             raycaster.ray.direction.set(0, 0, -1).applyMatrix4(tempMatrix);
 
             const intersects = raycaster.intersectObjects(scene.children, true);
+            let firstHit: string | null = null; // Nearest object hit, for counting wrong clicks
             if (intersects.length > 0) {
                 for (const hit of intersects) {
                     let targetObj = hit.object;
@@ -435,31 +1025,112 @@ export const WebXR = ({ project }: WebXRProps) => {
                         targetObj = targetObj.parent;
                     }
 
-                    const assetId = targetObj.name;
                     const currentStep = project.steps[currentStepIndex];
 
                     // Handle START Button
-                    if (assetId === "btn_start") {
+                    if (targetObj.name === "btn_start" && startButton?.visible) {
                         isStarted = true;
                         handleNext(); // Move to next step immediately after start
                         return;
                     }
+                    if (targetObj.name === 'btn_resume') {
+                        resumeProgress();
+                        return;
+                    }
+                    if (targetObj.name === 'btn_start_over') {
+                        startOver();
+                        return;
+                    }
+
+                    if (targetObj.name.startsWith('quiz_answer_')) {
+                        handleQuizSelect(targetObj.name.slice('quiz_answer_'.length));
+                        return;
+                    }
+                    if (targetObj.name === 'btn_hint' && hintButton?.visible) {
+                        showNextHint();
+                        return;
+                    }
+                    if (targetObj.name === 'btn_quiz_submit') {
+                        handleQuizSubmit();
+                        return;
+                    }
+
+                    const assetHit = resolveAssetHit(hit.object);
+                    if (!assetHit) continue;
+                    const assetId = assetHit.assetId;
+                    firstHit = firstHit || assetId;
+
+                    // Identify steps judge the nearest object, so a distractor in front cannot be picked through
+                    if (isStarted && currentStep?.targetAction === 'identify') {
+                        handleIdentifyPick(currentStep, assetHit);
+                        return;
+                    }
 
-                    if (isStarted && assetId && currentStep && assetId === currentStep.targetAssetId) {
+                    // Quiz answers shown as objects can be picked in the scene
+                    if (isStarted && currentStep?.targetAction === 'quiz') {
+                        const answer = currentStep.quiz?.answers.find(a => a.assetId === assetId);
+                        if (answer) {
+                            handleQuizSelect(answer.id);
+                            return;
+                        }
+                        continue;
+                    }
+                    // Multi steps let the user pick up any item that is still open
+                    if (isStarted && currentStep?.targetAction === 'multi') {
+                        if (!holdingAssetId && getOpenGoal(currentStep, snappedObjects, assetId)) {
+                            grabAsset(assetId, controller);
+                            return;
+                        }
+                        continue;
+                    }
+
+                    // Steps aimed at a part of a model only react to hits on that part
+                    if (currentStep?.targetNodePath && !isNodeWithin(assetHit.nodePath, currentStep.targetNodePath)) continue;
+
+                    if (isStarted && currentStep && assetId === currentStep.targetAssetId) {
                         if (currentStep.targetAction === 'click') {
                             handleNext();
                             return;
-                        } else if (currentStep.targetAction === 'move' && !holdingAssetId) {
-                            holdingAssetId = assetId;
-                            holdingHand = controller;
+                        } else if (isMoveAction(currentStep.targetAction) && !holdingAssetId && getOpenGoal(currentStep, snappedObjects, assetId)) {
+                            grabAsset(assetId, controller);
+                            return;
+                        } else if (currentStep.targetAction === 'apply' && !holdingAssetId) {
+                            grabAsset(assetId, controller);
                             return;
                         }
                     }
                 }
             }
+
+            // Nothing was picked up or clicked: hitting another object counts against the learner, the room itself doesn't
+            const step = project.steps[currentStepIndex];
+            const clicked = sessionAssets.find(a => a.id === firstHit);
+            const isScenery = clicked?.geometryType === 'room' || clicked?.geometryType === 'facility';
+            if (isStarted && step && clicked && !isScenery && (step.targetAction === 'click' || step.targetAction === 'apply' || isCarryAction(step.targetAction))) {
+                stepMetrics = recordMetric(stepMetrics, step.id, 'wrongClicks');
+            }
+        }
+
+        function grabAsset(assetId: string, controller: THREE.Group) {
+            // Carried objects leave their parent so the hold position can be set in world space
+            const heldObj = scene.getObjectByName(assetId);
+            if (heldObj) {
+                scene.attach(heldObj);
+                // Orient steps turn the object with the wrist from the angle it was grabbed at
+                const handQuat = controller.getWorldQuaternion(new THREE.Quaternion());
+                grabOffset.copy(handQuat.invert().multiply(heldObj.quaternion));
+            }
+            movedAssetIds.add(assetId);
+            holdingAssetId = assetId;
+            holdingHand = controller;
         }
 
         function onSelectEnd() {
+            // Held items snap as soon as they reach their destination, so one still held here was dropped short
+            const step = project?.steps[currentStepIndex];
+            if (holdingAssetId && step && isCarryAction(step.targetAction)) {
+                stepMetrics = recordMetric(stepMetrics, step.id, 'missedDrops');
+            }
             holdingAssetId = null;
             holdingHand = null;
         }
@@ -477,6 +1148,27 @@ export const WebXR = ({ project }: WebXRProps) => {
             camera.position.set(0, 1.6, 3);
             userGroup.add(camera);
 
+            // Gaze and apply steps: a ring fixed in front of the head fills while the dwell time adds up
+            dwellRing = new THREE.Mesh(
+                new THREE.RingGeometry(0.03, 0.04, 48, 1),
+                new THREE.MeshBasicMaterial({ color: 0x3b82f6, side: THREE.DoubleSide, depthTest: false, depthWrite: false, transparent: true })
+            );
+            dwellRing.position.set(0, 0, -1);
+            dwellRing.rotation.z = Math.PI / 2; // Start filling from the top
+            dwellRing.scale.x = -1; // ...and clockwise
+            dwellRing.renderOrder = 10003;
+            dwellRing.visible = false;
+            camera.add(dwellRing);
+
+            hintArrow = new THREE.Mesh(
+                new THREE.ConeGeometry(0.06, 0.16, 16),
+                new THREE.MeshBasicMaterial({ color: 0xf59e0b, depthTest: false })
+            );
+            hintArrow.rotation.x = Math.PI; // Pointing down
+            hintArrow.renderOrder = 10003;
+            hintArrow.visible = false;
+            scene.add(hintArrow);
+
             controls = new OrbitControls(camera, container);
             controls.target.set(0, 1.6, 0);
             controls.update();
@@ -619,6 +1311,66 @@ export const WebXR = ({ project }: WebXRProps) => {
         const _forward = new THREE.Vector3();
         const _right = new THREE.Vector3();
         const _holdPos = new THREE.Vector3();
+        const _gazeRaycaster = new THREE.Raycaster();
+        const _headPos = new THREE.Vector3();
+        const _headDir = new THREE.Vector3();
+        const _feetPos = new THREE.Vector3();
+
+        // Gaze steps dwell on the target under the head ray, apply steps on the held tool touching the region
+        function updateDwell(delta: number) {
+            const step = project?.steps[currentStepIndex];
+            if (isLoading || !isStarted || completed || !step || (step.targetAction !== 'gaze' && step.targetAction !== 'apply') || dwellDone) {
+                dwellRing.visible = false;
+                return;
+            }
+
+            let isDwelling = false;
+            if (step.targetAction === 'gaze') {
+                camera.getWorldPosition(_headPos);
+                camera.getWorldDirection(_headDir);
+                _gazeRaycaster.set(_headPos, _headDir);
+                isDwelling = isGazingAtTarget(step, _gazeRaycaster, scene.children);
+            } else {
+                const tool = holdingAssetId && holdingAssetId === step.targetAssetId ? scene.getObjectByName(holdingAssetId) : undefined;
+                if (tool && step.region) {
+                    const stateAssets = applyStepStates(sessionAssets, getVisitedSteps(), movedAssetIds);
+                    isDwelling = isToolTouchingRegion(tool, scene, step.region, stateAssets);
+                }
+            }
+            dwellTime = isDwelling ? dwellTime + delta : 0;
+            const progress = Math.min(1, dwellTime / getDwellSeconds(step));
+
+            // Each ring segment is two triangles (6 indices), so the draw range grows a segment at a time
+            const indexCount = dwellRing.geometry.index!.count;
+            dwellRing.geometry.setDrawRange(0, Math.floor(indexCount * progress / 6) * 6);
+            dwellRing.visible = progress > 0;
+
+            if (progress >= 1) {
+                dwellDone = true;
+                // The tool stays where the user was holding it
+                holdingAssetId = null;
+                holdingHand = null;
+                handleNext();
+            }
+        }
+
+        // Zones are never loaded into the scene, so reach steps test the user's body against the zone asset itself
+        function updateReach() {
+            const step = project?.steps[currentStepIndex];
+            if (isLoading || !isStarted || completed || !step || step.targetAction !== 'reach' || reachDone) return;
+
+            const stateAssets = applyStepStates(sessionAssets, getVisitedSteps(), movedAssetIds);
+            const zone = stateAssets.find(a => a.id === step.targetAssetId);
+            if (!zone || zone.type !== 'zone' || zone.visible === false) return;
+
+            // The reference space is floor-level, so the user's feet are at the user group's height
+            camera.getWorldPosition(_headPos);
+            _feetPos.set(_headPos.x, userGroup.position.y, _headPos.z);
+            if (isLearnerInZone(zone, stateAssets, _feetPos, _headPos.y - userGroup.position.y)) {
+                reachDone = true;
+                handleNext();
+            }
+        }
 
         function handleLocomotion(delta: number) {
             if (isLoading) return;
@@ -633,26 +1385,46 @@ export const WebXR = ({ project }: WebXRProps) => {
                     _holdPos.set(0, 0, -0.3).applyMatrix4(holdingHand.matrixWorld);
                     heldObj.position.copy(_holdPos);
 
-                    // Check for snapping
                     const currentStep = project.steps[currentStepIndex];
-                    let targetPos: THREE.Vector3 | null = null;
-
-                    if (currentStep.snapAnchorId) {
-                        const anchor = sessionAssets.find(a => a.id === currentStep.snapAnchorId);
-                        if (anchor) targetPos = new THREE.Vector3(...anchor.position);
-                    } else if (currentStep.targetPosition) {
-                        targetPos = new THREE.Vector3(...currentStep.targetPosition);
+                    const isOrient = currentStep.targetAction === 'orient';
+                    if (isOrient) {
+                        holdingHand.getWorldQuaternion(heldObj.quaternion).multiply(grabOffset);
                     }
 
-                    if (targetPos && _holdPos.distanceTo(targetPos) < 0.2) {
+                    // Check for snapping
+                    const goal = getOpenGoal(currentStep, snappedObjects, holdingAssetId);
+                    const destination = goal ? getGoalDestination(goal) : null;
+                    const targetPos = destination?.position;
+                    const targetQuat = isOrient ? toQuaternion(destination?.rotation || [0, 0, 0]) : null;
+                    const isAligned = !targetQuat
+                        || orientationError(heldObj.quaternion, targetQuat, currentStep.orientationAxis) <= getOrientationTolerance(currentStep);
+
+                    if (targetPos && isAligned && _holdPos.distanceTo(targetPos) < 0.2) {
                         // Snap!
                         heldObj.position.copy(targetPos);
-                        const asset = sessionAssets.find(a => a.id === holdingAssetId);
-                        if (asset) asset.position = [targetPos.x, targetPos.y, targetPos.z];
+                        if (targetQuat) heldObj.quaternion.copy(targetQuat);
+                        const index = sessionAssets.findIndex(a => a.id === holdingAssetId);
+                        if (index !== -1) {
+                            const { parentId, ...asset } = sessionAssets[index];
+                            sessionAssets[index] = {
+                                ...asset,
+                                position: [targetPos.x, targetPos.y, targetPos.z],
+                                ...(targetQuat ? { rotation: destination!.rotation || [0, 0, 0] } : {})
+                            };
+                        }
 
+                        snappedObjects.add(holdingAssetId);
                         holdingAssetId = null;
                         holdingHand = null;
-                        handleNext();
+
+                        // Multi steps finish with their last item
+                        if (getOpenGoals(currentStep, snappedObjects).length === 0) {
+                            handleNext();
+                        } else {
+                            updateStepUI();
+                            updateGhostHints();
+                            saveLessonProgress();
+                        }
                     }
                 }
             }
@@ -703,6 +1475,12 @@ export const WebXR = ({ project }: WebXRProps) => {
         function render() {
             const delta = clock.getDelta();
             handleLocomotion(delta);
+            updateDwell(delta);
+            updateReach();
+            updateTimeLimit();
+            updateHintTimer(delta);
+            updateStepTimer(delta);
+            updateHintArrow(clock.elapsedTime);
 
             if (loadingSpinner && loadingGroup.parent) {
                 loadingSpinner.rotation.z += delta * 4;
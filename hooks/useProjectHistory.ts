@@ -0,0 +1,83 @@
+import { useCallback, useReducer } from 'react';
+import { ProjectData } from '../types';
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  project: ProjectData;
+  coalesceKey?: string;
+  time: number;
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  index: number; // Entry currently shown in the editor
+  nextId: number;
+}
+
+type HistoryAction =
+  | { type: 'apply'; label: string; updater: (project: ProjectData) => ProjectData; coalesceKey?: string; time: number }
+  | { type: 'jump'; index: number }
+  | { type: 'step'; delta: number };
+
+const MAX_ENTRIES = 100;
+// Edits with the same key arriving within this window merge into one entry (slider drags, typing)
+const COALESCE_WINDOW_MS = 1000;
+
+const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  if (action.type === 'jump' || action.type === 'step') {
+    const target = action.type === 'jump' ? action.index : state.index + action.delta;
+    const index = Math.max(0, Math.min(state.entries.length - 1, target));
+    return index === state.index ? state : { ...state, index };
+  }
+
+  const current = state.entries[state.index];
+  const project = action.updater(current.project);
+  if (project === current.project) return state;
+
+  const canCoalesce = action.coalesceKey !== undefined
+    && state.index > 0
+    && current.coalesceKey === action.coalesceKey
+    && action.time - current.time < COALESCE_WINDOW_MS;
+
+  // Any new edit discards the redo branch
+  const kept = state.entries.slice(0, state.index + (canCoalesce ? 0 : 1));
+  const entry: HistoryEntry = canCoalesce
+    ? { ...current, project, time: action.time }
+    : { id: state.nextId, label: action.label, project, coalesceKey: action.coalesceKey, time: action.time };
+
+  const entries = [...kept, entry].slice(-MAX_ENTRIES);
+  return { entries, index: entries.length - 1, nextId: state.nextId + 1 };
+};
+
+/**
+ * Snapshot-based undo/redo history for the lesson being edited.
+ */
+export const useProjectHistory = (initialProject: () => ProjectData) => {
+  const [state, dispatch] = useReducer(historyReducer, undefined, () => ({
+    entries: [{ id: 0, label: 'Opened lesson', project: initialProject(), time: Date.now() }],
+    index: 0,
+    nextId: 1
+  }));
+
+  const apply = useCallback((label: string, updater: (project: ProjectData) => ProjectData, coalesceKey?: string) => {
+    dispatch({ type: 'apply', label, updater, coalesceKey, time: Date.now() });
+  }, []);
+
+  const jumpTo = useCallback((index: number) => dispatch({ type: 'jump', index }), []);
+
+  const undo = useCallback(() => dispatch({ type: 'step', delta: -1 }), []);
+  const redo = useCallback(() => dispatch({ type: 'step', delta: 1 }), []);
+
+  return {
+    project: state.entries[state.index].project,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    apply,
+    undo,
+    redo,
+    jumpTo
+  };
+};
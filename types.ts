@@ -1,12 +1,20 @@
 
 export type Vector3Tuple = [number, number, number];
 
+// Per-node changes to a model's look, keyed by node path (see utils/modelNodes.ts)
+export interface NodeOverride {
+  visible?: boolean;
+  color?: string;
+  emissive?: string;
+  opacity?: number;
+}
+
 export interface Asset {
   id: string;
   name: string;
-  type: 'model' | 'text' | 'shape' | 'player_start';
+  type: 'model' | 'text' | 'shape' | 'player_start' | 'zone'; // Zones are invisible trigger volumes, see utils/zones.ts
   content?: string; // For text type
-  geometryType?: 'box' | 'sphere' | 'cone' | 'torus' | 'human' | 'facility' | 'room' | 'custom' | string; // For shape type and model subtypes
+  geometryType?: 'box' | 'sphere' | 'cone' | 'torus' | 'cylinder' | 'human' | 'facility' | 'room' | 'custom' | string; // For shape and zone types and model subtypes
   color: string;
   position: Vector3Tuple;
   rotation: Vector3Tuple;
@@ -16,6 +24,140 @@ export interface Asset {
   locked?: boolean;
   isCollidable?: boolean;
   opacity?: number;
+  parentId?: string; // Transforms are relative to this asset, see utils/hierarchy.ts
+  nodeOverrides?: Record<string, NodeOverride>; // Models only
+}
+
+// Changes a step makes to an asset; they stay in effect for later steps until overridden
+export type AssetState = Partial<Pick<Asset, 'visible' | 'opacity' | 'color' | 'position' | 'rotation' | 'scale'>>;
+
+export interface QuizAnswer {
+  id: string;
+  text: string;
+  assetId?: string; // Answer shown as an object in the scene; learners can pick it there too
+  correct: boolean;
+  feedback?: string; // Shown after submitting when this answer was picked
+  nextStepId?: string; // Step to go to when this answer was picked, see utils/lessonFlow.ts
+}
+
+export interface Quiz {
+  question: string;
+  multiple: boolean; // Learners must pick every correct answer, and only those
+  answers: QuizAnswer[]; // 2–6, see utils/quiz.ts
+}
+
+// What a learner submitted for a quiz step during one run of the lesson
+export interface QuizResponse {
+  stepId: string;
+  answerIds: string[];
+  correct: boolean;
+  answeredAt: number;
+}
+
+// How a learner did on one step during one run of the lesson, summed over visits; see utils/scoring.ts
+export interface StepMetrics {
+  timeMs: number;
+  wrongClicks: number; // Clicks on objects other than the target; identify steps count wrong picks separately
+  missedDrops: number; // Carried objects let go away from their destination
+  hintsUsed: number;
+  timeouts: number; // Times the step's countdown ran out and moved the learner on
+}
+
+// One level of help on a step. Each hint unlocks after the one before it, and what it turns on stays on
+export interface StepHint {
+  text?: string;
+  highlightTarget?: boolean; // Glow on the target, or on the region for apply steps
+  showGhost?: boolean; // Carry steps: mark the destinations
+  showArrow?: boolean; // Arrow above the target
+  delaySeconds?: number; // Shown on its own this long after the previous hint; only on request when unset
+}
+
+// Countdown on a step and what happens when it runs out before the learner finishes
+export interface StepTimeLimit {
+  seconds: number;
+  // advance: go on as if finished; fail: go on with the 'incorrect' outcome; branch: go to branchStepId
+  // (falling back to fail when unset); hint: show the next hint and start the countdown again
+  onTimeout: 'advance' | 'fail' | 'branch' | 'hint';
+  branchStepId?: string; // A step id or LESSON_END, see utils/lessonFlow.ts
+}
+
+// Practice shows hints and allows going back; assessment hides both and is always scored
+export type LessonMode = 'practice' | 'assessment';
+
+// Points for the results screen; every step with a task is worth stepPoints minus its penalties, never below zero
+export interface ScoringRubric {
+  stepPoints: number;
+  wrongClickPenalty: number; // Also applies to wrong identify picks
+  missedDropPenalty: number;
+  hintPenalty: number; // Also applies when an identify step had to reveal its answer
+  targetSeconds?: number; // Steps taking longer lose slowPenalty
+  slowPenalty?: number;
+  passPercent?: number; // Shows passed or not passed on the results screen
+}
+
+// A wrong choice for an identify step; the step's target is the right one
+export interface IdentifyCandidate {
+  assetId: string;
+  nodePath?: string; // Part inside a model, see utils/modelNodes.ts
+  feedback?: string; // Shown when the learner picks this candidate
+}
+
+export interface IdentifyConfig {
+  candidates: IdentifyCandidate[];
+  wrongFeedback?: string; // Used for candidates without their own feedback
+  revealAfter?: number; // Highlight the right answer after this many wrong picks
+}
+
+// One item of a multi step and where it goes; the destination works like a move step's
+export interface Placement {
+  assetId: string;
+  snapAnchorId?: string;
+  targetPosition?: Vector3Tuple;
+}
+
+export interface PlacementSet {
+  items: Placement[];
+  ordered?: boolean; // Items must be placed in list order; any order when unset
+}
+
+// Where an apply step's tool has to touch: an object, a part of a model, or a zone
+export interface ApplyRegion {
+  assetId: string;
+  nodePath?: string; // Part inside a model, see utils/modelNodes.ts
+}
+
+// How a quiz or identify step went; other steps always count as correct
+export type StepOutcome = 'correct' | 'incorrect';
+
+// A named value the lesson tracks while it runs, e.g. a patient's heart rate; see utils/variables.ts
+export interface LessonVariable {
+  name: string; // Used as {name} in instructions and by effects and conditions
+  label?: string; // Shown on the learner's monitor instead of the name
+  type: 'number' | 'boolean';
+  initial: number | boolean;
+  unit?: string; // Shown after numbers, e.g. "bpm"
+  min?: number; // Numbers are kept within min and max
+  max?: number;
+  hidden?: boolean; // Left off the learner's monitor
+}
+
+// A change to a variable when a step is completed or the learner makes a mistake
+export interface VariableEffect {
+  variable: string;
+  op: 'set' | 'add'; // 'add' is for numbers only; use a negative value to subtract
+  value: number | boolean;
+}
+
+export interface VariableCondition {
+  variable: string;
+  op: '==' | '!=' | '<' | '<=' | '>' | '>='; // Flags only support == and !=
+  value: number | boolean;
+}
+
+export interface StepBranch {
+  outcome?: StepOutcome; // Any outcome when unset
+  condition?: VariableCondition; // Checked against the variables once the step's effects are applied
+  nextStepId: string; // A step id, or 'end' to finish the lesson
 }
 
 export interface Step {
@@ -23,16 +165,39 @@ export interface Step {
   title: string;
   instruction: string;
   cameraPosition: Vector3Tuple;
-  targetAction: 'click' | 'move' | 'none';
+  cameraTarget?: Vector3Tuple; // Point the camera looks at from cameraPosition
+  cameraMode?: 'none' | 'fly' | 'teleport'; // How the Viewer moves the learner to the step's view; 'none' when unset
+  targetAction: 'click' | 'move' | 'orient' | 'quiz' | 'identify' | 'gaze' | 'reach' | 'multi' | 'apply' | 'none';
   targetAssetId?: string;
+  targetNodePath?: string; // Part inside a model target, see utils/modelNodes.ts
   targetPosition?: Vector3Tuple;
   snapAnchorId?: string; // The ID of the object to snap to
+  targetRotation?: Vector3Tuple; // Orient steps without an anchor; otherwise the anchor's rotation is used
+  orientationTolerance?: number; // Orient steps: degrees the held object may be off, see utils/orientation.ts
+  orientationAxis?: 'x' | 'y' | 'z'; // Orient steps: only this local axis has to line up, spin around it is free
+  dwellSeconds?: number; // Gaze steps: how long the target must stay in view, see utils/gaze.ts; apply steps: how long the tool must touch
+  assetStates?: Record<string, AssetState>; // Keyed by asset id, see utils/stepState.ts
+  quiz?: Quiz; // Quiz steps only
+  identify?: IdentifyConfig; // Identify steps only
+  placements?: PlacementSet; // Multi steps only, see utils/placements.ts
+  region?: ApplyRegion; // Apply steps only: the step's target is the tool, see utils/toolContact.ts
+  nextStepId?: string; // Step that follows this one instead of the next in the list, or 'end'; see utils/lessonFlow.ts
+  branches?: StepBranch[]; // Where to go per outcome or variable condition, ahead of nextStepId
+  onComplete?: VariableEffect[]; // Applied when the learner finishes the step
+  onMistake?: VariableEffect[]; // Quiz and identify steps: applied on every wrong submission or pick
+  hints?: StepHint[]; // In order; when set they replace the step's always-on marks in practice
+  timeLimit?: StepTimeLimit;
 }
 
 export interface ProjectData {
+  schemaVersion?: number; // Written on save/export, see utils/projectMigrations.ts
   projectName: string;
   assets: Asset[];
   steps: Step[];
+  variables?: LessonVariable[];
+  scoring?: ScoringRubric; // Results show times and mistakes only when unset
+  mode?: LessonMode; // Practice when unset; a launch link can override it
+  timeLimitSeconds?: number; // Assessment only: the lesson ends when the time runs out
 }
 
 export enum AppMode {
@@ -0,0 +1,88 @@
+import { Asset, Step } from '../types';
+import { validateProject } from './projectValidation';
+import { removeAssetReferences } from './lessonLint';
+import { createAssetId, createStepId } from './ids';
+import { remapStepReferences } from './lessonFlow';
+
+// Marks clipboard text as lesson content so unrelated text is never pasted into a lesson
+const CLIPBOARD_FORMAT = '3d-edtech/lesson-content';
+
+export interface LessonClipboard {
+  assets: Asset[];
+  steps: Step[];
+}
+
+// Used when the browser denies clipboard access, so copy/paste still works within this tab
+let lastCopied: string | null = null;
+
+/**
+ * Writes assets and/or steps to the system clipboard as JSON, so they can be pasted into another open lesson.
+ */
+export const copyLessonContent = async (content: Partial<LessonClipboard>): Promise<void> => {
+  const text = JSON.stringify({ format: CLIPBOARD_FORMAT, assets: content.assets || [], steps: content.steps || [] }, null, 2);
+  lastCopied = text;
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch (e) {
+    console.warn('Clipboard write failed, keeping copy in this tab only', e);
+  }
+};
+
+/**
+ * Reads lesson content back from the clipboard. Returns null when the clipboard holds anything else.
+ */
+export const readLessonContent = async (): Promise<LessonClipboard | null> => {
+  let text = lastCopied;
+  try {
+    text = await navigator.clipboard.readText();
+  } catch (e) {
+    console.warn('Clipboard read failed, using last copy from this tab', e);
+  }
+  if (!text) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null || (parsed as { format?: unknown }).format !== CLIPBOARD_FORMAT) return null;
+  const { assets, steps } = parsed as { assets?: unknown; steps?: unknown };
+
+  // Pasted content may come from another lesson or an older build, so it goes through the same checks as a loaded file
+  const { project } = validateProject({ projectName: 'Clipboard', assets, steps });
+  return project ? { assets: project.assets, steps: project.steps } : null;
+};
+
+/**
+ * Copies assets with fresh ids, shifted so the clones don't sit exactly on top of the originals.
+ * Parent links inside the copied set point at the new copies; only top-level copies are shifted.
+ */
+export const cloneAssets = (assets: Asset[], offset: number = 0.5): Asset[] => {
+  const newIds = new Map(assets.map(asset => [asset.id, createAssetId()]));
+  return assets.map(asset => {
+    const copiedParent = asset.parentId ? newIds.get(asset.parentId) : undefined;
+    return {
+      ...asset,
+      id: newIds.get(asset.id)!,
+      name: `${asset.name} (copy)`,
+      position: copiedParent ? asset.position : [asset.position[0] + offset, asset.position[1], asset.position[2] + offset],
+      ...(asset.parentId ? { parentId: copiedParent || asset.parentId } : {})
+    };
+  });
+};
+
+/**
+ * Copies steps with fresh ids. References to objects missing from the target lesson are cleared.
+ * Transitions between the copied steps follow the copies; transitions to other steps are kept
+ * only when `lessonSteps` has them.
+ */
+export const cloneSteps = (steps: Step[], lessonAssets: Asset[], lessonSteps: Step[] = []): Step[] => {
+  const missing = new Set(
+    steps.flatMap(s => [s.targetAssetId, s.snapAnchorId, ...Object.keys(s.assetStates || {}), ...(s.quiz?.answers || []).map(a => a.assetId), ...(s.identify?.candidates || []).map(c => c.assetId), ...(s.placements?.items || []).flatMap(p => [p.assetId, p.snapAnchorId]), s.region?.assetId]).filter((id): id is string => !!id && !lessonAssets.some(a => a.id === id))
+  );
+  const cleaned = [...missing].reduce((result, id) => removeAssetReferences(result, id), steps);
+  const newIds = new Map(steps.map(step => [step.id, createStepId()]));
+  const linked = remapStepReferences(cleaned, newIds, new Set(lessonSteps.map(s => s.id)));
+  return linked.map(step => ({ ...step, id: newIds.get(step.id)! }));
+};
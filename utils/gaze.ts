@@ -0,0 +1,21 @@
+import * as THREE from 'three';
+import { Step } from '../types';
+import { isNodeWithin, resolveAssetHit } from './modelNodes';
+
+export const DEFAULT_DWELL_SECONDS = 2;
+
+export const getDwellSeconds = (step: Step): number => step.dwellSeconds ?? DEFAULT_DWELL_SECONDS;
+
+/**
+ * True when the nearest object along the ray is the step's target (or its target part).
+ * Objects that are not lesson assets, like UI panels, the grid or hints, are looked through.
+ */
+export const isGazingAtTarget = (step: Step, raycaster: THREE.Raycaster, objects: THREE.Object3D[]): boolean => {
+  for (const hit of raycaster.intersectObjects(objects, true)) {
+    const assetHit = resolveAssetHit(hit.object);
+    if (!assetHit) continue;
+    return assetHit.assetId === step.targetAssetId
+      && (!step.targetNodePath || isNodeWithin(assetHit.nodePath, step.targetNodePath));
+  }
+  return false;
+};
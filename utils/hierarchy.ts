@@ -0,0 +1,125 @@
+import * as THREE from 'three';
+import { Asset, Vector3Tuple } from '../types';
+
+export interface Transform {
+  position: Vector3Tuple;
+  rotation: Vector3Tuple;
+  scale: Vector3Tuple;
+}
+
+// Text labels and the spawn marker cannot hold children in the players, so they are never parents
+export const canHaveChildren = (asset: Asset): boolean => asset.type === 'shape' || asset.type === 'model';
+
+export const getChildren = (assets: Asset[], parentId: string): Asset[] => assets.filter(a => a.parentId === parentId);
+
+/**
+ * Assets drawn at the scene root: no parent, or a parent that is not part of the list.
+ */
+export const getRootAssets = (assets: Asset[]): Asset[] => {
+  const ids = new Set(assets.map(a => a.id));
+  return assets.filter(a => !a.parentId || !ids.has(a.parentId));
+};
+
+export const getDescendantIds = (assets: Asset[], id: string): Set<string> => {
+  const result = new Set<string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    getChildren(assets, current).forEach(child => {
+      if (!result.has(child.id)) {
+        result.add(child.id);
+        queue.push(child.id);
+      }
+    });
+  }
+  return result;
+};
+
+/**
+ * True when `id` may be moved under `parentId` (null = scene root) without creating a cycle.
+ */
+export const canReparent = (assets: Asset[], id: string, parentId: string | null): boolean => {
+  if (parentId === null) return true;
+  if (parentId === id) return false;
+  const parent = assets.find(a => a.id === parentId);
+  if (!parent || !canHaveChildren(parent)) return false;
+  return !getDescendantIds(assets, id).has(parentId);
+};
+
+export const getLocalMatrix = (asset: Pick<Asset, 'position' | 'rotation' | 'scale'>): THREE.Matrix4 => {
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(...asset.position),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...asset.rotation)),
+    new THREE.Vector3(...asset.scale)
+  );
+};
+
+export const getWorldMatrix = (assets: Asset[], id: string): THREE.Matrix4 => {
+  const matrix = new THREE.Matrix4();
+  const visited = new Set<string>();
+  let current = assets.find(a => a.id === id);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    matrix.premultiply(getLocalMatrix(current));
+    current = current.parentId ? assets.find(a => a.id === current!.parentId) : undefined;
+  }
+  return matrix;
+};
+
+export const matrixToTransform = (matrix: THREE.Matrix4): Transform => {
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  matrix.decompose(position, quaternion, scale);
+  const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+  return {
+    position: [position.x, position.y, position.z],
+    rotation: [rotation.x, rotation.y, rotation.z],
+    scale: [scale.x, scale.y, scale.z]
+  };
+};
+
+export const getWorldTransform = (assets: Asset[], id: string): Transform => matrixToTransform(getWorldMatrix(assets, id));
+
+export const getWorldPosition = (assets: Asset[], id: string): Vector3Tuple => {
+  const position = new THREE.Vector3().setFromMatrixPosition(getWorldMatrix(assets, id));
+  return [position.x, position.y, position.z];
+};
+
+/**
+ * Moves an asset under a new parent (null = scene root), keeping it where it is in the world.
+ */
+export const reparentAsset = (assets: Asset[], id: string, parentId: string | null): Asset[] => {
+  const asset = assets.find(a => a.id === id);
+  if (!asset || (asset.parentId || null) === parentId || !canReparent(assets, id, parentId)) return assets;
+
+  const local = parentId
+    ? getWorldMatrix(assets, parentId).invert().multiply(getWorldMatrix(assets, id))
+    : getWorldMatrix(assets, id);
+
+  return assets.map(a => {
+    if (a.id !== id) return a;
+    const { parentId: _previous, ...rest } = a;
+    return { ...rest, ...matrixToTransform(local), ...(parentId ? { parentId } : {}) };
+  });
+};
+
+/**
+ * Removes assets from the list. Their children move up to the nearest remaining ancestor
+ * and keep their place in the world.
+ */
+export const removeAssets = (assets: Asset[], ids: string[]): Asset[] => {
+  const removed = new Set(ids);
+  let result = assets;
+
+  assets.forEach(asset => {
+    if (removed.has(asset.id) || !asset.parentId || !removed.has(asset.parentId)) return;
+    let ancestor = assets.find(a => a.id === asset.parentId);
+    while (ancestor && removed.has(ancestor.id)) {
+      ancestor = ancestor.parentId ? assets.find(a => a.id === ancestor!.parentId) : undefined;
+    }
+    result = reparentAsset(result, asset.id, ancestor ? ancestor.id : null);
+  });
+
+  return result.filter(a => !removed.has(a.id));
+};
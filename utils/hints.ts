@@ -0,0 +1,55 @@
+import { Step, StepHint } from '../types';
+import { isCarryAction } from './stepActions';
+
+// What the players mark on the current step
+export interface HintMarks {
+  highlightTarget: boolean;
+  showGhost: boolean;
+  showArrow: boolean;
+}
+
+const NO_MARKS: HintMarks = { highlightTarget: false, showGhost: false, showArrow: false };
+
+export const createHint = (): StepHint => ({ text: '' });
+
+/**
+ * Marks for a step after `usedCount` of its hints. Steps without hints keep the practice
+ * defaults of a glowing target and ghost destinations, except identify steps, whose answer
+ * stays hidden until revealed. Steps with hints start bare and only show what the used hints
+ * turn on. Nothing is marked when the mode hides hints.
+ */
+export const getHintMarks = (step: Step | undefined, usedCount: number, hintsAllowed: boolean): HintMarks => {
+  if (!step || !hintsAllowed) return NO_MARKS;
+  if (!step.hints || step.hints.length === 0) {
+    return { highlightTarget: step.targetAction !== 'identify', showGhost: true, showArrow: false };
+  }
+  const used = step.hints.slice(0, usedCount);
+  return {
+    highlightTarget: used.some(h => h.highlightTarget),
+    showGhost: used.some(h => h.showGhost),
+    showArrow: used.some(h => h.showArrow)
+  };
+};
+
+// Seconds until the next hint shows on its own, or null when it waits for the learner to ask
+export const getNextHintDelay = (step: Step | undefined, usedCount: number): number | null => {
+  const next = step?.hints?.[usedCount];
+  return next?.delaySeconds !== undefined ? next.delaySeconds : null;
+};
+
+// A hint that shows nothing, e.g. a ghost on a step with no destination
+export const isEmptyHint = (step: Step, hint: StepHint): boolean => {
+  return !hint.text?.trim()
+    && !hint.highlightTarget
+    && !hint.showArrow
+    && !(hint.showGhost && isCarryAction(step.targetAction));
+};
+
+// The text of the used hints, numbered, for panels that show them as one line
+export const formatHints = (step: Step, usedCount: number): string => {
+  return (step.hints || [])
+    .slice(0, usedCount)
+    .map((hint, i) => hint.text?.trim() ? `Hint ${i + 1}: ${hint.text.trim()}` : '')
+    .filter(Boolean)
+    .join(' ');
+};
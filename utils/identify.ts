@@ -0,0 +1,29 @@
+import { Step } from '../types';
+import { AssetHit, isNodeWithin } from './modelNodes';
+
+export const DEFAULT_WRONG_FEEDBACK = 'Not that one. Try again.';
+
+export interface IdentifyResult {
+  correct: boolean;
+  feedback?: string; // Set for wrong picks
+}
+
+const matchesPart = (hit: AssetHit, assetId: string, nodePath?: string) =>
+  hit.assetId === assetId && (!nodePath || isNodeWithin(hit.nodePath, nodePath));
+
+/**
+ * Grades a pick on an identify step: the step target is the right answer and the candidates are
+ * distractors. Returns null for anything else, so stray clicks do not count as attempts.
+ */
+export const gradeIdentifyPick = (step: Step, hit: AssetHit): IdentifyResult | null => {
+  if (step.targetAssetId && matchesPart(hit, step.targetAssetId, step.targetNodePath)) return { correct: true };
+
+  const candidate = step.identify?.candidates.find(c => matchesPart(hit, c.assetId, c.nodePath));
+  if (!candidate) return null;
+  return { correct: false, feedback: candidate.feedback || step.identify?.wrongFeedback || DEFAULT_WRONG_FEEDBACK };
+};
+
+export const shouldRevealAnswer = (step: Step, wrongAttempts: number): boolean => {
+  const revealAfter = step.identify?.revealAfter;
+  return !!revealAfter && wrongAttempts >= revealAfter;
+};
@@ -0,0 +1,4 @@
+// Unique ids for lesson content, matching the format used in saved lessons
+export const createAssetId = (): string => `asset_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+export const createStepId = (): string => `step_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+export const createAnswerId = (): string => `answer_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
@@ -0,0 +1,226 @@
+import { QuizResponse, Step, StepBranch, StepOutcome } from '../types';
+import { VariableValues, checkCondition, describeCondition } from './variables';
+
+// Transition target that finishes the lesson instead of going to another step
+export const LESSON_END = 'end';
+
+export const STEP_OUTCOMES: { value: StepOutcome; label: string }[] = [
+  { value: 'correct', label: 'Correct' },
+  { value: 'incorrect', label: 'Incorrect' }
+];
+
+// What the learner did on a step, as far as choosing the next step goes
+export interface StepResult {
+  quizResponse?: QuizResponse;
+  mistakes?: number; // Identify steps: wrong picks before the right one
+  values?: VariableValues; // Lesson variables after the step's effects
+  timedOut?: boolean; // The step's countdown ran out with a 'fail' or 'branch' timeout
+}
+
+export interface StepTransition {
+  kind: 'answer' | 'branch' | 'condition' | 'timeout' | 'next';
+  label: string;
+  outcome?: StepOutcome; // Branches only
+  targetIndex: number | null; // null ends the lesson
+}
+
+// Branches with a condition are tried before those that only look at the outcome
+const orderBranches = (branches: StepBranch[] = []): StepBranch[] => [
+  ...branches.filter(b => b.condition),
+  ...branches.filter(b => !b.condition)
+];
+
+// Timeouts that count as getting the step wrong; 'advance' carries on as if the step was finished
+export const failsOnTimeout = (step: Step): boolean => step.timeLimit?.onTimeout === 'fail' || step.timeLimit?.onTimeout === 'branch';
+
+// Only quiz and identify steps, and steps that fail when time runs out, can go wrong; every other step counts as correct
+export const hasOutcomes = (step: Step): boolean => step.targetAction === 'quiz' || step.targetAction === 'identify' || failsOnTimeout(step);
+
+/**
+ * A timed-out step is incorrect, as is a quiz when the submitted answers were wrong, and an
+ * identify step when the learner picked anything else before the right one.
+ */
+export const getStepOutcome = (step: Step, result: StepResult = {}): StepOutcome => {
+  if (result.timedOut) return 'incorrect';
+  if (step.targetAction === 'quiz') return result.quizResponse?.correct === false ? 'incorrect' : 'correct';
+  if (step.targetAction === 'identify') return (result.mistakes || 0) > 0 ? 'incorrect' : 'correct';
+  return 'correct';
+};
+
+const findStepIndex = (steps: Step[], stepId: string | undefined): number | null | undefined => {
+  if (!stepId) return undefined;
+  if (stepId === LESSON_END) return null;
+  const index = steps.findIndex(s => s.id === stepId);
+  return index >= 0 ? index : undefined;
+};
+
+// The step after `stepIndex` when nothing more specific applies: `nextStepId`, or list order
+const getDefaultNext = (steps: Step[], stepIndex: number): number | null => {
+  const explicit = findStepIndex(steps, steps[stepIndex]?.nextStepId);
+  if (explicit !== undefined) return explicit;
+  return stepIndex < steps.length - 1 ? stepIndex + 1 : null;
+};
+
+/**
+ * Index of the step that follows `stepIndex`, or null when the lesson is over.
+ * A timeout's branch target or a picked quiz answer's `nextStepId` wins over the step's branches
+ * (conditional ones first), which win over its `nextStepId`; links to steps that no longer exist
+ * are ignored.
+ */
+export const resolveNextStep = (steps: Step[], stepIndex: number, result: StepResult = {}): number | null => {
+  const step = steps[stepIndex];
+  if (!step) return null;
+
+  if (result.timedOut) {
+    const target = step.timeLimit?.onTimeout === 'branch' ? findStepIndex(steps, step.timeLimit.branchStepId) : undefined;
+    if (target !== undefined) return target;
+  } else if (step.targetAction === 'quiz' && step.quiz && result.quizResponse) {
+    const picked = step.quiz.answers.filter(a => result.quizResponse!.answerIds.includes(a.id));
+    for (const answer of picked) {
+      const target = findStepIndex(steps, answer.nextStepId);
+      if (target !== undefined) return target;
+    }
+  }
+
+  const outcome = getStepOutcome(step, result);
+  for (const branch of orderBranches(step.branches)) {
+    if (branch.outcome && branch.outcome !== outcome) continue;
+    if (branch.condition && !checkCondition(branch.condition, result.values || {})) continue;
+    const target = findStepIndex(steps, branch.nextStepId);
+    if (target !== undefined) return target;
+  }
+
+  return getDefaultNext(steps, stepIndex);
+};
+
+/**
+ * Every way out of a step, for the flow graph and reachability checks. The 'next' transition is
+ * always listed, even when answers or branches cover every case.
+ */
+export const getStepTransitions = (steps: Step[], stepIndex: number): StepTransition[] => {
+  const step = steps[stepIndex];
+  if (!step) return [];
+  const transitions: StepTransition[] = [];
+
+  if (step.targetAction === 'quiz' && step.quiz) {
+    step.quiz.answers.forEach((answer, i) => {
+      const target = findStepIndex(steps, answer.nextStepId);
+      if (target !== undefined) transitions.push({ kind: 'answer', label: answer.text || `Answer ${i + 1}`, targetIndex: target });
+    });
+  }
+
+  if (step.timeLimit?.onTimeout === 'branch') {
+    const target = findStepIndex(steps, step.timeLimit.branchStepId);
+    if (target !== undefined) transitions.push({ kind: 'timeout', label: 'Time out', targetIndex: target });
+  }
+
+  orderBranches(step.branches).forEach(branch => {
+    const target = findStepIndex(steps, branch.nextStepId);
+    if (target === undefined) return;
+    const outcomeLabel = STEP_OUTCOMES.find(o => o.value === branch.outcome)?.label;
+    const label = [outcomeLabel, branch.condition && describeCondition(branch.condition)].filter(Boolean).join(', ') || 'Always';
+    transitions.push({ kind: branch.condition ? 'condition' : 'branch', label, outcome: branch.outcome, targetIndex: target });
+  });
+
+  transitions.push({ kind: 'next', label: 'Next', targetIndex: getDefaultNext(steps, stepIndex) });
+  return transitions;
+};
+
+// Step ids the learner can never get to from the introduction
+export const findUnreachableSteps = (steps: Step[]): string[] => {
+  if (steps.length === 0) return [];
+  const seen = new Set<number>([0]);
+  const queue = [0];
+  while (queue.length > 0) {
+    const index = queue.shift()!;
+    getStepTransitions(steps, index).forEach(({ targetIndex }) => {
+      if (targetIndex === null || seen.has(targetIndex)) return;
+      seen.add(targetIndex);
+      queue.push(targetIndex);
+    });
+  }
+  return steps.filter((_, i) => !seen.has(i)).map(s => s.id);
+};
+
+/**
+ * Drops every transition that leads to `stepId`, e.g. before the step is deleted.
+ * Steps that linked to it fall back to list order; timeouts that branched to it just fail.
+ */
+export const removeStepReferences = (steps: Step[], stepId: string): Step[] => {
+  return steps.map(step => {
+    const answers = step.quiz?.answers;
+    const usesStep = step.nextStepId === stepId
+      || step.timeLimit?.branchStepId === stepId
+      || (step.branches || []).some(b => b.nextStepId === stepId)
+      || (answers || []).some(a => a.nextStepId === stepId);
+    if (!usesStep) return step;
+
+    const next = { ...step };
+    if (next.nextStepId === stepId) delete next.nextStepId;
+    if (next.timeLimit?.branchStepId === stepId) {
+      const { branchStepId, ...timeLimit } = next.timeLimit;
+      next.timeLimit = timeLimit;
+    }
+    if (next.branches) {
+      const branches = next.branches.filter(b => b.nextStepId !== stepId);
+      if (branches.length > 0) next.branches = branches;
+      else delete next.branches;
+    }
+    if (next.quiz && answers) {
+      next.quiz = {
+        ...next.quiz,
+        answers: answers.map(a => {
+          if (a.nextStepId !== stepId) return a;
+          const { nextStepId, ...rest } = a;
+          return rest;
+        })
+      };
+    }
+    return next;
+  });
+};
+
+/**
+ * Points transitions at new step ids, e.g. after copying steps. Links to ids missing from
+ * `newIds` are kept when `keepIds` has them and dropped otherwise.
+ */
+export const remapStepReferences = (steps: Step[], newIds: Map<string, string>, keepIds: Set<string>): Step[] => {
+  const remap = (id: string | undefined): string | undefined => {
+    if (!id || id === LESSON_END) return id;
+    if (newIds.has(id)) return newIds.get(id);
+    return keepIds.has(id) ? id : undefined;
+  };
+
+  return steps.map(step => {
+    const next: Step = { ...step };
+    const nextStepId = remap(step.nextStepId);
+    if (nextStepId) next.nextStepId = nextStepId;
+    else delete next.nextStepId;
+
+    if (step.timeLimit?.branchStepId) {
+      const { branchStepId, ...timeLimit } = step.timeLimit;
+      const target = remap(branchStepId);
+      next.timeLimit = target ? { ...timeLimit, branchStepId: target } : timeLimit;
+    }
+
+    if (step.branches) {
+      const branches = step.branches
+        .map(b => ({ ...b, nextStepId: remap(b.nextStepId) }))
+        .filter((b): b is typeof b & { nextStepId: string } => !!b.nextStepId);
+      if (branches.length > 0) next.branches = branches;
+      else delete next.branches;
+    }
+
+    if (step.quiz) {
+      next.quiz = {
+        ...step.quiz,
+        answers: step.quiz.answers.map(a => {
+          const { nextStepId: answerNext, ...rest } = a;
+          const target = remap(answerNext);
+          return target ? { ...rest, nextStepId: target } : rest;
+        })
+      };
+    }
+    return next;
+  });
+};
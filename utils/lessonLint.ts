@@ -0,0 +1,756 @@
+import { Asset, LessonVariable, Placement, ProjectData, Quiz, Step } from '../types';
+import { createAssetId } from './ids';
+import { getAssetsAtStep } from './stepState';
+import { MAX_QUIZ_ANSWERS, MIN_QUIZ_ANSWERS, createQuizAnswer } from './quiz';
+import { isMoveAction, needsTarget } from './stepActions';
+import { LESSON_END, findUnreachableSteps, hasOutcomes } from './lessonFlow';
+import { FLAG_CONDITION_OPS, findPlaceholders } from './variables';
+import { isEmptyHint } from './hints';
+
+export interface LintFix {
+  label: string;
+  apply: (project: ProjectData) => ProjectData;
+}
+
+export interface LintIssue {
+  id: string;
+  severity: 'error' | 'warning';
+  message: string;
+  stepId?: string;
+  assetId?: string;
+  fix?: LintFix;
+}
+
+const updateStep = (project: ProjectData, stepId: string, updates: Partial<Step>): ProjectData => ({
+  ...project,
+  steps: project.steps.map(s => s.id === stepId ? { ...s, ...updates } : s)
+});
+
+const updateAsset = (project: ProjectData, assetId: string, updates: Partial<Asset>): ProjectData => ({
+  ...project,
+  assets: project.assets.map(a => a.id === assetId ? { ...a, ...updates } : a)
+});
+
+const updateQuiz = (project: ProjectData, stepId: string, updater: (quiz: Quiz) => Quiz): ProjectData => ({
+  ...project,
+  steps: project.steps.map(s => s.id === stepId && s.quiz ? { ...s, quiz: updater(s.quiz) } : s)
+});
+
+const isValueOfType = (variable: LessonVariable, value: number | boolean) => typeof value === (variable.type === 'number' ? 'number' : 'boolean');
+
+const stepLabel = (step: Step, index: number) => `${index === 0 ? 'Intro' : `Step ${index}`} "${step.title}"`;
+
+/**
+ * Clears step references to an asset that is being removed from the lesson.
+ */
+export const removeAssetReferences = (steps: Step[], assetId: string): Step[] => {
+  return steps.map(step => {
+    const hasState = !!step.assetStates && assetId in step.assetStates;
+    const hasAnswer = !!step.quiz && step.quiz.answers.some(a => a.assetId === assetId);
+    const hasCandidate = !!step.identify && step.identify.candidates.some(c => c.assetId === assetId);
+    const hasPlacement = !!step.placements && step.placements.items.some(p => p.assetId === assetId || p.snapAnchorId === assetId);
+    const hasRegion = step.region?.assetId === assetId;
+    if (step.targetAssetId !== assetId && step.snapAnchorId !== assetId && !hasState && !hasAnswer && !hasCandidate && !hasPlacement && !hasRegion) return step;
+    const cleaned = { ...step };
+    if (hasRegion) {
+      delete cleaned.region;
+    }
+    if (hasPlacement) {
+      // Removing an item drops it from the list; removing a destination keeps the item and its position
+      cleaned.placements = {
+        ...step.placements!,
+        items: step.placements!.items
+          .filter(p => p.assetId !== assetId)
+          .map(({ snapAnchorId, ...item }) => snapAnchorId === assetId ? item : { ...item, snapAnchorId })
+      };
+    }
+    if (hasCandidate) {
+      cleaned.identify = { ...step.identify!, candidates: step.identify!.candidates.filter(c => c.assetId !== assetId) };
+    }
+    if (hasAnswer) {
+      cleaned.quiz = {
+        ...step.quiz!,
+        answers: step.quiz!.answers.map(({ assetId: answerAssetId, ...answer }) => answerAssetId === assetId ? answer : { ...answer, assetId: answerAssetId })
+      };
+    }
+    if (hasState) {
+      const { [assetId]: _removed, ...rest } = step.assetStates!;
+      cleaned.assetStates = rest;
+    }
+    if (cleaned.targetAssetId === assetId) {
+      delete cleaned.targetAssetId;
+      delete cleaned.targetNodePath;
+      cleaned.targetAction = 'none';
+    }
+    if (cleaned.snapAnchorId === assetId) {
+      delete cleaned.snapAnchorId;
+    }
+    return cleaned;
+  });
+};
+
+/**
+ * Finds step setups that would break or confuse learners in the Viewer.
+ */
+export const lintProject = (project: ProjectData): LintIssue[] => {
+  const issues: LintIssue[] = [];
+  const assetsById = new Map(project.assets.map(a => [a.id, a]));
+  const anchorOwners = new Map<string, string>(); // anchor id -> first step using it
+  const stepIds = new Set(project.steps.map(s => s.id));
+  const isMissingStep = (stepId: string) => stepId !== LESSON_END && !stepIds.has(stepId);
+  const variablesByName = new Map((project.variables || []).map(v => [v.name, v]));
+
+  project.steps.forEach((step, index) => {
+    const label = stepLabel(step, index);
+
+    if (step.targetAssetId && !assetsById.has(step.targetAssetId)) {
+      issues.push({
+        id: `${step.id}:dangling-target`,
+        severity: 'error',
+        stepId: step.id,
+        message: `${label} targets an object that no longer exists.`,
+        fix: {
+          label: 'Clear target',
+          apply: (p) => updateStep(p, step.id, { targetAssetId: undefined, targetNodePath: undefined, targetAction: 'none' })
+        }
+      });
+    }
+
+    if (step.snapAnchorId && !assetsById.has(step.snapAnchorId)) {
+      issues.push({
+        id: `${step.id}:dangling-anchor`,
+        severity: 'error',
+        stepId: step.id,
+        message: `${label} snaps to a destination that no longer exists.`,
+        fix: {
+          label: 'Clear destination',
+          apply: (p) => updateStep(p, step.id, { snapAnchorId: undefined })
+        }
+      });
+    }
+
+    if (isMoveAction(step.targetAction) && !assetsById.has(step.snapAnchorId || '') && !step.targetPosition) {
+      issues.push({
+        id: `${step.id}:move-no-destination`,
+        severity: 'error',
+        stepId: step.id,
+        message: `${label} is a ${step.targetAction} step without a destination.`,
+        fix: {
+          label: 'Make it a click step',
+          apply: (p) => updateStep(p, step.id, { targetAction: 'click' })
+        }
+      });
+    }
+
+    if (step.targetAction === 'orient' && !step.snapAnchorId && step.targetPosition && !step.targetRotation) {
+      const movable = step.targetAssetId ? assetsById.get(step.targetAssetId) : undefined;
+      issues.push({
+        id: `${step.id}:orient-no-rotation`,
+        severity: 'warning',
+        stepId: step.id,
+        message: `${label} has no destination object or angle, so learners must match the default rotation.`,
+        fix: movable ? {
+          label: 'Use the object\'s rotation',
+          apply: (p) => updateStep(p, step.id, { targetRotation: movable.rotation })
+        } : undefined
+      });
+    }
+
+    Object.keys(step.assetStates || {}).forEach(assetId => {
+      if (assetsById.has(assetId)) return;
+      issues.push({
+        id: `${step.id}:dangling-state:${assetId}`,
+        severity: 'warning',
+        stepId: step.id,
+        message: `${label} changes an object that no longer exists.`,
+        fix: {
+          label: 'Remove change',
+          apply: (p) => ({ ...p, steps: removeAssetReferences(p.steps, assetId) })
+        }
+      });
+    });
+
+    if (needsTarget(step.targetAction) && !step.targetAssetId) {
+      issues.push({
+        id: `${step.id}:missing-target`,
+        severity: 'error',
+        stepId: step.id,
+        message: `${label} is a ${step.targetAction} step without an object.`,
+        fix: {
+          label: 'Make it an info step',
+          apply: (p) => updateStep(p, step.id, { targetAction: 'none' })
+        }
+      });
+    }
+
+    if (step.targetAction === 'quiz' && step.quiz) {
+      const { quiz } = step;
+      const correctCount = quiz.answers.filter(a => a.correct).length;
+
+      if (!quiz.question.trim()) {
+        issues.push({
+          id: `${step.id}:quiz-no-question`,
+          severity: 'warning',
+          stepId: step.id,
+          message: `${label} is a quiz without a question.`
+        });
+      }
+
+      if (quiz.answers.length < MIN_QUIZ_ANSWERS) {
+        issues.push({
+          id: `${step.id}:quiz-answer-count`,
+          severity: 'error',
+          stepId: step.id,
+          message: `${label} needs at least ${MIN_QUIZ_ANSWERS} answers.`,
+          fix: {
+            label: 'Add answers',
+            apply: (p) => updateQuiz(p, step.id, q => ({
+              ...q,
+              answers: [...q.answers, ...Array.from({ length: MIN_QUIZ_ANSWERS - q.answers.length }, () => createQuizAnswer())]
+            }))
+          }
+        });
+      } else if (quiz.answers.length > MAX_QUIZ_ANSWERS) {
+        issues.push({
+          id: `${step.id}:quiz-answer-count`,
+          severity: 'error',
+          stepId: step.id,
+          message: `${label} has more than ${MAX_QUIZ_ANSWERS} answers.`,
+          fix: {
+            label: `Keep the first ${MAX_QUIZ_ANSWERS}`,
+            apply: (p) => updateQuiz(p, step.id, q => ({ ...q, answers: q.answers.slice(0, MAX_QUIZ_ANSWERS) }))
+          }
+        });
+      }
+
+      if (correctCount === 0 && quiz.answers.length > 0) {
+        issues.push({
+          id: `${step.id}:quiz-no-correct`,
+          severity: 'error',
+          stepId: step.id,
+          message: `${label} has no correct answer.`,
+          fix: {
+            label: 'Mark first answer correct',
+            apply: (p) => updateQuiz(p, step.id, q => ({ ...q, answers: q.answers.map((a, i) => i === 0 ? { ...a, correct: true } : a) }))
+          }
+        });
+      } else if (correctCount > 1 && !quiz.multiple) {
+        issues.push({
+          id: `${step.id}:quiz-single-many-correct`,
+          severity: 'warning',
+          stepId: step.id,
+          message: `${label} marks ${correctCount} answers correct, but learners can only pick one.`,
+          fix: {
+            label: 'Allow multiple answers',
+            apply: (p) => updateQuiz(p, step.id, q => ({ ...q, multiple: true }))
+          }
+        });
+      }
+
+      quiz.answers.forEach((answer, i) => {
+        if (answer.assetId && !assetsById.has(answer.assetId)) {
+          issues.push({
+            id: `${step.id}:dangling-answer:${answer.id}`,
+            severity: 'warning',
+            stepId: step.id,
+            message: `${label} answer ${i + 1} shows an object that no longer exists.`,
+            fix: {
+              label: 'Remove object',
+              apply: (p) => ({ ...p, steps: removeAssetReferences(p.steps, answer.assetId!) })
+            }
+          });
+        } else if (!answer.text.trim() && !answer.assetId) {
+          issues.push({
+            id: `${step.id}:empty-answer:${answer.id}`,
+            severity: 'warning',
+            stepId: step.id,
+            message: `${label} answer ${i + 1} has no text or object.`
+          });
+        }
+      });
+    }
+
+    if (step.targetAction === 'identify' && step.identify) {
+      const { candidates } = step.identify;
+      if (candidates.length === 0) {
+        issues.push({
+          id: `${step.id}:identify-no-candidates`,
+          severity: 'warning',
+          stepId: step.id,
+          message: `${label} has no wrong choices, so it works like a click step.`
+        });
+      }
+
+      candidates.forEach((candidate, i) => {
+        const removeCandidate = (p: ProjectData) => ({
+          ...p,
+          steps: p.steps.map(s => s.id === step.id && s.identify
+            ? { ...s, identify: { ...s.identify, candidates: s.identify.candidates.filter((_, j) => j !== i) } }
+            : s)
+        });
+        if (!assetsById.has(candidate.assetId)) {
+          issues.push({
+            id: `${step.id}:dangling-candidate:${i}`,
+            severity: 'warning',
+            stepId: step.id,
+            message: `${label} offers a wrong choice that no longer exists.`,
+            fix: { label: 'Remove choice', apply: removeCandidate }
+          });
+        } else if (candidate.assetId === step.targetAssetId && (candidate.nodePath || '') === (step.targetNodePath || '')) {
+          issues.push({
+            id: `${step.id}:candidate-is-target:${i}`,
+            severity: 'error',
+            stepId: step.id,
+            assetId: candidate.assetId,
+            message: `${label} lists the right answer as a wrong choice.`,
+            fix: { label: 'Remove choice', apply: removeCandidate }
+          });
+        }
+      });
+    }
+
+    if (step.targetAction === 'multi' && step.placements) {
+      const { items } = step.placements;
+      const updateItems = (p: ProjectData, updater: (items: Placement[]) => Placement[]) => ({
+        ...p,
+        steps: p.steps.map(s => s.id === step.id && s.placements ? { ...s, placements: { ...s.placements, items: updater(s.placements.items) } } : s)
+      });
+
+      if (items.length === 0) {
+        issues.push({
+          id: `${step.id}:multi-no-items`,
+          severity: 'error',
+          stepId: step.id,
+          message: `${label} is a multi step without items to place.`,
+          fix: {
+            label: 'Make it an info step',
+            apply: (p) => updateStep(p, step.id, { targetAction: 'none', placements: undefined })
+          }
+        });
+      }
+
+      const seenItems = new Set<string>();
+      const seenAnchors = new Set<string>();
+      items.forEach((item, i) => {
+        const removeItem = { label: 'Remove item', apply: (p: ProjectData) => updateItems(p, list => list.filter((_, j) => j !== i)) };
+        const asset = assetsById.get(item.assetId);
+        if (!asset) {
+          issues.push({
+            id: `${step.id}:dangling-item:${i}`,
+            severity: 'error',
+            stepId: step.id,
+            message: `${label} item ${i + 1} is an object that no longer exists.`,
+            fix: removeItem
+          });
+          return;
+        }
+        if (seenItems.has(item.assetId)) {
+          issues.push({
+            id: `${step.id}:duplicate-item:${i}`,
+            severity: 'error',
+            stepId: step.id,
+            assetId: asset.id,
+            message: `${label} lists "${asset.name}" more than once.`,
+            fix: removeItem
+          });
+          return;
+        }
+        seenItems.add(item.assetId);
+
+        if (item.snapAnchorId && !assetsById.has(item.snapAnchorId)) {
+          issues.push({
+            id: `${step.id}:dangling-item-anchor:${i}`,
+            severity: 'error',
+            stepId: step.id,
+            assetId: asset.id,
+            message: `${label} places "${asset.name}" on a destination that no longer exists.`,
+            fix: {
+              label: 'Clear destination',
+              apply: (p) => updateItems(p, list => list.map((entry, j) => j === i ? { ...entry, snapAnchorId: undefined } : entry))
+            }
+          });
+        } else if (!item.snapAnchorId && !item.targetPosition) {
+          issues.push({
+            id: `${step.id}:item-no-destination:${i}`,
+            severity: 'error',
+            stepId: step.id,
+            assetId: asset.id,
+            message: `${label} has no destination for "${asset.name}".`
+          });
+        } else if (item.snapAnchorId && seenAnchors.has(item.snapAnchorId)) {
+          // The anchor disappears once the first item lands on it
+          issues.push({
+            id: `${step.id}:shared-item-anchor:${i}`,
+            severity: 'error',
+            stepId: step.id,
+            assetId: asset.id,
+            message: `${label} places "${asset.name}" on a destination another item already uses.`
+          });
+        }
+        if (item.snapAnchorId) seenAnchors.add(item.snapAnchorId);
+      });
+    }
+
+    if (step.targetAction === 'apply') {
+      const regionAsset = step.region ? assetsById.get(step.region.assetId) : undefined;
+      if (!step.region) {
+        issues.push({
+          id: `${step.id}:apply-no-region`,
+          severity: 'error',
+          stepId: step.id,
+          message: `${label} has no region to apply the tool to.`
+        });
+      } else if (!regionAsset) {
+        issues.push({
+          id: `${step.id}:dangling-region`,
+          severity: 'error',
+          stepId: step.id,
+          message: `${label} applies the tool to an object that no longer exists.`,
+          fix: {
+            label: 'Clear region',
+            apply: (p) => updateStep(p, step.id, { region: undefined })
+          }
+        });
+      } else if (regionAsset.id === step.targetAssetId) {
+        issues.push({
+          id: `${step.id}:region-is-tool`,
+          severity: 'error',
+          stepId: step.id,
+          assetId: regionAsset.id,
+          message: `${label} asks learners to touch "${regionAsset.name}" with itself.`
+        });
+      } else if (step.region.nodePath && regionAsset.type !== 'model') {
+        issues.push({
+          id: `${step.id}:region-node-on-non-model`,
+          severity: 'warning',
+          stepId: step.id,
+          assetId: regionAsset.id,
+          message: `${label} targets a model part, but region "${regionAsset.name}" is not a model.`,
+          fix: {
+            label: 'Use whole object',
+            apply: (p) => updateStep(p, step.id, { region: { assetId: regionAsset.id } })
+          }
+        });
+      }
+    }
+
+    const target = step.targetAssetId ? assetsById.get(step.targetAssetId) : undefined;
+    if (target && step.targetAction !== 'none' && step.targetAction !== 'quiz') {
+      // Visibility as the learner sees it once this step's scene changes are applied
+      const hiddenByStep = getAssetsAtStep(project.assets, project.steps, index).find(a => a.id === target.id)?.visible === false;
+      if (hiddenByStep) {
+        issues.push({
+          id: `${step.id}:hidden-target`,
+          severity: 'warning',
+          stepId: step.id,
+          assetId: target.id,
+          message: `${label} targets "${target.name}", which is hidden${target.visible === false ? '' : ' by a scene change'} at this step.`,
+          fix: {
+            // Revealing it from this step on also covers objects that are hidden in the base scene
+            label: 'Show at this step',
+            apply: (p) => updateStep(p, step.id, { assetStates: { ...step.assetStates, [target.id]: { ...step.assetStates?.[target.id], visible: true } } })
+          }
+        });
+      }
+      if (target.locked) {
+        issues.push({
+          id: `${step.id}:locked-target`,
+          severity: 'warning',
+          stepId: step.id,
+          assetId: target.id,
+          message: `${label} targets "${target.name}", which is locked.`,
+          fix: {
+            label: 'Unlock object',
+            apply: (p) => updateAsset(p, target.id, { locked: false })
+          }
+        });
+      }
+    }
+
+    if (step.targetNodePath && target && target.type !== 'model') {
+      issues.push({
+        id: `${step.id}:node-on-non-model`,
+        severity: 'warning',
+        stepId: step.id,
+        assetId: target.id,
+        message: `${label} targets a model part, but "${target.name}" is not a model.`,
+        fix: {
+          label: 'Target whole object',
+          apply: (p) => updateStep(p, step.id, { targetNodePath: undefined })
+        }
+      });
+    }
+
+    if (step.targetAction === 'reach' && target && target.type !== 'zone') {
+      issues.push({
+        id: `${step.id}:reach-target-not-zone`,
+        severity: 'error',
+        stepId: step.id,
+        assetId: target.id,
+        message: `${label} asks learners to reach "${target.name}", which is not a trigger zone.`,
+        fix: {
+          label: 'Make it a click step',
+          apply: (p) => updateStep(p, step.id, { targetAction: 'click' })
+        }
+      });
+    } else if (target && target.type === 'zone' && step.targetAction !== 'reach' && step.targetAction !== 'none' && step.targetAction !== 'quiz') {
+      // Zones are not drawn in the players, so learners could never click, grab or look at one
+      issues.push({
+        id: `${step.id}:zone-not-reach`,
+        severity: 'warning',
+        stepId: step.id,
+        assetId: target.id,
+        message: `${label} targets trigger zone "${target.name}", which learners cannot see.`,
+        fix: {
+          label: 'Make it a reach step',
+          apply: (p) => updateStep(p, step.id, { targetAction: 'reach', targetNodePath: undefined })
+        }
+      });
+    }
+
+    if (step.nextStepId && isMissingStep(step.nextStepId)) {
+      issues.push({
+        id: `${step.id}:dangling-next`,
+        severity: 'error',
+        stepId: step.id,
+        message: `${label} goes on to a step that no longer exists.`,
+        fix: {
+          label: 'Continue in list order',
+          apply: (p) => updateStep(p, step.id, { nextStepId: undefined })
+        }
+      });
+    } else if (step.nextStepId === step.id && !hasOutcomes(step)) {
+      issues.push({
+        id: `${step.id}:next-is-self`,
+        severity: 'warning',
+        stepId: step.id,
+        message: `${label} goes on to itself, so learners can never leave it.`,
+        fix: {
+          label: 'Continue in list order',
+          apply: (p) => updateStep(p, step.id, { nextStepId: undefined })
+        }
+      });
+    }
+
+    const timeLimit = step.timeLimit;
+    if (timeLimit && index === 0) {
+      issues.push({
+        id: `${step.id}:intro-time-limit`,
+        severity: 'warning',
+        stepId: step.id,
+        message: `${label} waits for the learner to press Start, so its time limit never runs.`,
+        fix: {
+          label: 'Remove time limit',
+          apply: (p) => updateStep(p, step.id, { timeLimit: undefined })
+        }
+      });
+    } else if (timeLimit?.onTimeout === 'branch') {
+      if (!timeLimit.branchStepId) {
+        issues.push({
+          id: `${step.id}:timeout-branch-unset`,
+          severity: 'warning',
+          stepId: step.id,
+          message: `${label} branches when time runs out, but has no step to branch to, so it fails instead.`
+        });
+      } else if (isMissingStep(timeLimit.branchStepId)) {
+        issues.push({
+          id: `${step.id}:dangling-timeout-branch`,
+          severity: 'error',
+          stepId: step.id,
+          message: `${label} branches to a step that no longer exists when time runs out.`,
+          fix: {
+            label: 'Fail instead',
+            apply: (p) => updateStep(p, step.id, { timeLimit: { seconds: timeLimit.seconds, onTimeout: 'fail' } })
+          }
+        });
+      }
+    } else if (timeLimit?.onTimeout === 'hint' && !step.hints?.length) {
+      issues.push({
+        id: `${step.id}:timeout-without-hints`,
+        severity: 'warning',
+        stepId: step.id,
+        message: `${label} shows a hint when time runs out, but has no hints.`,
+        fix: {
+          label: 'Go on instead',
+          apply: (p) => updateStep(p, step.id, { timeLimit: { seconds: timeLimit.seconds, onTimeout: 'advance' } })
+        }
+      });
+    }
+
+    if (step.branches && step.branches.length > 0) {
+      if (!hasOutcomes(step) && step.branches.some(b => b.outcome)) {
+        const kept = step.branches.filter(b => !b.outcome);
+        issues.push({
+          id: `${step.id}:unused-branches`,
+          severity: 'warning',
+          stepId: step.id,
+          message: `${label} has outcome branches, but only quiz and identify steps, and steps that fail when time runs out, can go wrong.`,
+          fix: {
+            label: 'Remove outcome branches',
+            apply: (p) => updateStep(p, step.id, { branches: kept.length > 0 ? kept : undefined })
+          }
+        });
+      }
+      step.branches.forEach((branch, i) => {
+        const removeBranch = { label: 'Remove branch', apply: (p: ProjectData) => updateStep(p, step.id, { branches: step.branches!.filter((_, j) => j !== i) }) };
+        if (isMissingStep(branch.nextStepId)) {
+          issues.push({
+            id: `${step.id}:dangling-branch:${i}`,
+            severity: 'error',
+            stepId: step.id,
+            message: `${label} branches to a step that no longer exists.`,
+            fix: removeBranch
+          });
+        }
+        if (!branch.condition) return;
+        const variable = variablesByName.get(branch.condition.variable);
+        if (!variable) {
+          issues.push({
+            id: `${step.id}:condition-unknown-variable:${i}`,
+            severity: 'error',
+            stepId: step.id,
+            message: `${label} branches on variable "${branch.condition.variable}", which does not exist.`,
+            fix: removeBranch
+          });
+        } else if (!isValueOfType(variable, branch.condition.value) || (variable.type === 'boolean' && !FLAG_CONDITION_OPS.includes(branch.condition.op))) {
+          issues.push({
+            id: `${step.id}:condition-type-mismatch:${i}`,
+            severity: 'error',
+            stepId: step.id,
+            message: `${label} compares ${variable.type === 'number' ? 'number' : 'flag'} "${variable.name}" in a way that never matches.`,
+            fix: removeBranch
+          });
+        }
+      });
+    }
+
+    (['onComplete', 'onMistake'] as const).forEach(key => {
+      (step[key] || []).forEach((effect, i) => {
+        const variable = variablesByName.get(effect.variable);
+        const problem = !variable
+          ? `changes variable "${effect.variable}", which does not exist`
+          : !isValueOfType(variable, effect.value) || (variable.type === 'boolean' && effect.op === 'add')
+            ? `changes ${variable.type === 'number' ? 'number' : 'flag'} "${variable.name}" with a value of the wrong kind`
+            : null;
+        if (!problem) return;
+        issues.push({
+          id: `${step.id}:${key === 'onComplete' ? 'complete' : 'mistake'}-effect:${i}`,
+          severity: 'error',
+          stepId: step.id,
+          message: `${label} ${problem}.`,
+          fix: {
+            label: 'Remove change',
+            apply: (p) => updateStep(p, step.id, { [key]: step[key]!.filter((_, j) => j !== i) })
+          }
+        });
+      });
+    });
+
+    if (step.onMistake && step.onMistake.length > 0 && !hasOutcomes(step)) {
+      issues.push({
+        id: `${step.id}:unused-mistake-effects`,
+        severity: 'warning',
+        stepId: step.id,
+        message: `${label} changes variables on mistakes, but only quiz and identify steps, and steps that fail when time runs out, register mistakes.`,
+        fix: {
+          label: 'Remove changes',
+          apply: (p) => updateStep(p, step.id, { onMistake: undefined })
+        }
+      });
+    }
+
+    (step.hints || []).forEach((hint, i) => {
+      if (!isEmptyHint(step, hint)) return;
+      issues.push({
+        id: `${step.id}:empty-hint:${i}`,
+        severity: 'warning',
+        stepId: step.id,
+        message: `${label} hint ${i + 1} has no text and shows nothing on this step.`,
+        fix: {
+          label: 'Remove hint',
+          apply: (p) => {
+            const hints = (p.steps.find(s => s.id === step.id)?.hints || []).filter((_, j) => j !== i);
+            return updateStep(p, step.id, { hints: hints.length > 0 ? hints : undefined });
+          }
+        }
+      });
+    });
+
+    // Lessons without variables never replace placeholders, so braces there are plain text
+    findPlaceholders(step.instruction).forEach(name => {
+      if (variablesByName.size === 0 || variablesByName.has(name)) return;
+      issues.push({
+        id: `${step.id}:unknown-placeholder:${name}`,
+        severity: 'warning',
+        stepId: step.id,
+        message: `${label} shows {${name}} in its instruction, but there is no variable with that name.`
+      });
+    });
+
+    (step.quiz?.answers || []).forEach((answer, i) => {
+      if (!answer.nextStepId || !isMissingStep(answer.nextStepId)) return;
+      issues.push({
+        id: `${step.id}:dangling-answer-next:${answer.id}`,
+        severity: 'error',
+        stepId: step.id,
+        message: `${label} answer ${i + 1} leads to a step that no longer exists.`,
+        fix: {
+          label: 'Clear link',
+          apply: (p) => updateQuiz(p, step.id, q => ({ ...q, answers: q.answers.map(a => a.id === answer.id ? { ...a, nextStepId: undefined } : a) }))
+        }
+      });
+    });
+
+    const anchor = step.snapAnchorId ? assetsById.get(step.snapAnchorId) : undefined;
+    if (anchor) {
+      const owner = anchorOwners.get(anchor.id);
+      if (owner) {
+        // Anchors are hidden once used, so a second step snapping to the same one has no visible destination
+        issues.push({
+          id: `${step.id}:reused-anchor`,
+          severity: 'warning',
+          stepId: step.id,
+          assetId: anchor.id,
+          message: `${label} reuses destination "${anchor.name}" from an earlier step.`,
+          fix: {
+            label: 'Duplicate destination',
+            apply: (p) => {
+              const source = p.assets.find(a => a.id === anchor.id);
+              if (!source) return p;
+              const copy: Asset = { ...source, id: createAssetId(), name: `${source.name} (copy)` };
+              return updateStep({ ...p, assets: [...p.assets, copy] }, step.id, { snapAnchorId: copy.id });
+            }
+          }
+        });
+      } else {
+        anchorOwners.set(anchor.id, step.id);
+      }
+    }
+  });
+
+  // Steps no transition leads to are never shown; this often means a branch skips past them by mistake
+  findUnreachableSteps(project.steps).forEach(stepId => {
+    const index = project.steps.findIndex(s => s.id === stepId);
+    issues.push({
+      id: `${stepId}:unreachable-step`,
+      severity: 'warning',
+      stepId,
+      message: `${stepLabel(project.steps[index], index)} can never be reached from the introduction.`
+    });
+  });
+
+  // Practice runs have no clock, so the limit only applies when the lesson is launched as an assessment
+  if (project.timeLimitSeconds && project.mode !== 'assessment') {
+    issues.push({
+      id: 'lesson:unused-time-limit',
+      severity: 'warning',
+      message: 'The lesson has a time limit, but it is set to practice mode. The limit only applies when launched as an assessment.',
+      fix: {
+        label: 'Switch to assessment',
+        apply: (p) => ({ ...p, mode: 'assessment' })
+      }
+    });
+  }
+
+  return issues;
+};
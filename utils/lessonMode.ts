@@ -0,0 +1,37 @@
+import { LessonMode, ProjectData, ScoringRubric } from '../types';
+import { DEFAULT_RUBRIC } from './scoring';
+
+export const LESSON_MODES: { value: LessonMode; label: string; description: string }[] = [
+  { value: 'practice', label: 'Practice', description: 'Targets and destinations are marked, answers are revealed after wrong picks and learners can go back.' },
+  { value: 'assessment', label: 'Assessment', description: 'No hints and no going back. Learners are always scored, with an optional time limit.' }
+];
+
+// What the players allow and show in a lesson mode
+export interface ModeRules {
+  mode: LessonMode;
+  showHints: boolean; // Ghost destinations, target and region highlights, revealed identify answers
+  allowBack: boolean;
+  rubric?: ScoringRubric;
+  timeLimitMs?: number;
+}
+
+export const parseLessonMode = (value: unknown): LessonMode | undefined =>
+  value === 'practice' || value === 'assessment' ? value : undefined;
+
+/**
+ * Rules for playing `project`, in the mode it was launched with or else the lesson's own.
+ * Assessments fall back to the default rubric so they always produce a score.
+ */
+export const getModeRules = (project: ProjectData | undefined, launchMode?: LessonMode): ModeRules => {
+  const mode = launchMode || project?.mode || 'practice';
+  if (mode === 'practice') {
+    return { mode, showHints: true, allowBack: true, rubric: project?.scoring };
+  }
+  return {
+    mode,
+    showHints: false,
+    allowBack: false,
+    rubric: project?.scoring || DEFAULT_RUBRIC,
+    timeLimitMs: project?.timeLimitSeconds ? project.timeLimitSeconds * 1000 : undefined
+  };
+};
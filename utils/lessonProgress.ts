@@ -0,0 +1,158 @@
+import { Asset, LessonMode, QuizResponse, Step, StepMetrics, Vector3Tuple } from '../types';
+import { VariableValues } from './variables';
+
+const DB_NAME = '3d_edtech';
+const DB_VERSION = 1;
+const STORE_NAME = 'lessonProgress';
+// Bump when the saved shape changes; older records are ignored rather than migrated
+const PROGRESS_VERSION = 2;
+
+// Where a learner is in a lesson, in the players' own terms
+export interface ProgressSnapshot {
+  currentStepIndex: number;
+  stepHistory: { index: number; values?: VariableValues }[]; // The headset player doesn't keep values per visit
+  variableValues: VariableValues;
+  sessionAssets: Asset[];
+  movedAssetIds: string[];
+  snappedObjects: string[];
+  snappedAnchors: string[];
+  quizResponses: Record<string, QuizResponse>;
+  identifyAttempts: Record<string, number>;
+  stepMetrics: Record<string, StepMetrics>;
+  deadline: number | null; // Assessment time limit; it keeps running while the lesson is closed
+}
+
+// Where the learner left an object they moved; carried objects may have left their parent
+export interface SavedTransform {
+  position: Vector3Tuple;
+  rotation: Vector3Tuple;
+  scale: Vector3Tuple;
+  parentId?: string;
+}
+
+// A snapshot as stored: steps by id, so a lesson edited since can still be resumed where it makes sense
+export interface LessonProgress extends Omit<ProgressSnapshot, 'currentStepIndex' | 'stepHistory' | 'sessionAssets'> {
+  version: number;
+  lessonKey: string; // Lesson code, or the Library scene path for scenes without one
+  mode: LessonMode;
+  savedAt: number;
+  currentStepId: string;
+  stepHistory: { stepId: string; values?: VariableValues }[];
+  assetTransforms: Record<string, SavedTransform>; // Moved and placed objects only; everything else comes from the lesson
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'lessonKey' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again, e.g. after the learner allows storage
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * The saved progress for a lesson, or null when there is none. Storage can be unavailable
+ * (private browsing, blocked by the browser), so failures are logged and read as no progress.
+ */
+export const loadProgress = async (lessonKey: string): Promise<LessonProgress | null> => {
+  try {
+    const progress = await runRequest<LessonProgress | undefined>('readonly', store => store.get(lessonKey));
+    return progress && progress.version === PROGRESS_VERSION ? progress : null;
+  } catch (e) {
+    console.warn('Could not read lesson progress', e);
+    return null;
+  }
+};
+
+export const saveProgress = async (progress: LessonProgress): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put(progress));
+  } catch (e) {
+    console.warn('Could not save lesson progress', e);
+  }
+};
+
+export const clearProgress = async (lessonKey: string): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.delete(lessonKey));
+  } catch (e) {
+    console.warn('Could not clear lesson progress', e);
+  }
+};
+
+// Null when the learner is past the last step, which has nothing to resume
+export const toProgress = (lessonKey: string, mode: LessonMode, steps: Step[], snapshot: ProgressSnapshot): LessonProgress | null => {
+  const current = steps[snapshot.currentStepIndex];
+  if (!current) return null;
+  const { currentStepIndex, stepHistory, sessionAssets, ...rest } = snapshot;
+  const movedIds = new Set([...snapshot.movedAssetIds, ...snapshot.snappedObjects]);
+  const assetTransforms: Record<string, SavedTransform> = {};
+  sessionAssets.filter(asset => movedIds.has(asset.id)).forEach(({ id, position, rotation, scale, parentId }) => {
+    assetTransforms[id] = parentId ? { position, rotation, scale, parentId } : { position, rotation, scale };
+  });
+  return {
+    ...rest,
+    assetTransforms,
+    version: PROGRESS_VERSION,
+    lessonKey,
+    mode,
+    savedAt: Date.now(),
+    currentStepId: current.id,
+    stepHistory: stepHistory
+      .filter(visit => steps[visit.index])
+      .map(visit => ({ stepId: steps[visit.index].id, values: visit.values }))
+  };
+};
+
+/**
+ * Turns saved progress back into a snapshot for the lesson as it is now. Returns null when it
+ * can't be resumed: it was saved in another mode, or its current step has been deleted. Visits
+ * to deleted steps are dropped. Assets are the lesson's own, with only the saved transforms of
+ * moved objects laid over them, so edits made since the save are kept.
+ */
+export const fromProgress = (progress: LessonProgress, mode: LessonMode, steps: Step[], assets: Asset[]): ProgressSnapshot | null => {
+  const currentStepIndex = steps.findIndex(s => s.id === progress.currentStepId);
+  if (progress.mode !== mode || currentStepIndex < 0) return null;
+  const assetIds = new Set(assets.map(a => a.id));
+  const { version, lessonKey, mode: _mode, savedAt, currentStepId, stepHistory, assetTransforms, ...rest } = progress;
+  return {
+    ...rest,
+    currentStepIndex,
+    stepHistory: stepHistory
+      .map(visit => ({ index: steps.findIndex(s => s.id === visit.stepId), values: visit.values }))
+      .filter(visit => visit.index >= 0),
+    sessionAssets: assets.map(asset => {
+      const saved = assetTransforms[asset.id];
+      if (!saved) return asset;
+      const { parentId, ...authored } = asset;
+      return { ...authored, ...saved };
+    }),
+    movedAssetIds: progress.movedAssetIds.filter(id => assetIds.has(id)),
+    snappedObjects: progress.snappedObjects.filter(id => assetIds.has(id)),
+    snappedAnchors: progress.snappedAnchors.filter(id => assetIds.has(id))
+  };
+};
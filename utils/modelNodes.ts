@@ -0,0 +1,183 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { NodeOverride } from '../types';
+
+/**
+ * Node paths address a part inside a GLB model, e.g. "Heart/LeftVentricle". Segments are node
+ * names (GLTFLoader already strips "/" from them); unnamed nodes use their child index as "#2".
+ * Paths are relative to the model's root scene, which is tagged with `userData.modelRoot`.
+ */
+export interface ModelNode {
+  path: string;
+  name: string;
+  depth: number;
+  isMesh: boolean;
+}
+
+export interface AssetHit {
+  assetId: string;
+  nodePath?: string; // Set when the hit landed inside a model
+}
+
+const pathSegment = (node: THREE.Object3D): string => {
+  if (node.name) return node.name;
+  const index = node.parent ? node.parent.children.indexOf(node) : 0;
+  return `#${index}`;
+};
+
+/**
+ * Marks a loaded model scene so hits inside it can be turned into node paths.
+ */
+export const markModelRoot = (root: THREE.Object3D, assetId: string) => {
+  root.userData.modelRoot = true;
+  root.userData.modelAssetId = assetId;
+};
+
+export const getNodePath = (root: THREE.Object3D, node: THREE.Object3D): string | undefined => {
+  const segments: string[] = [];
+  let current: THREE.Object3D | null = node;
+  while (current && current !== root) {
+    segments.unshift(pathSegment(current));
+    current = current.parent;
+  }
+  return current === root && segments.length > 0 ? segments.join('/') : undefined;
+};
+
+export const findNodeByPath = (root: THREE.Object3D, path: string): THREE.Object3D | undefined => {
+  let current: THREE.Object3D | undefined = root;
+  for (const segment of path.split('/')) {
+    if (!current) return undefined;
+    const parent: THREE.Object3D = current;
+    current = segment.startsWith('#') && !parent.children.some(c => c.name === segment)
+      ? parent.children[parseInt(segment.slice(1), 10)]
+      : parent.children.find(c => c.name === segment);
+  }
+  return current;
+};
+
+/**
+ * Finds an asset's object under `root`, or a part of it when a node path is given. Works in both
+ * players: the asset object may be the model root itself or hold it further down.
+ */
+export const findAssetNode = (root: THREE.Object3D, assetId: string, nodePath?: string): THREE.Object3D | undefined => {
+  const object = root.getObjectByName(assetId);
+  if (!object || !nodePath) return object;
+  let modelRoot: THREE.Object3D | undefined;
+  object.traverse(child => {
+    if (!modelRoot && child.userData.modelRoot && child.userData.modelAssetId === assetId) modelRoot = child;
+  });
+  return modelRoot ? findNodeByPath(modelRoot, nodePath) : undefined;
+};
+
+/**
+ * True when a clicked node path is the targeted node or lies inside it.
+ */
+export const isNodeWithin = (hitPath: string | undefined, targetPath: string): boolean => {
+  return !!hitPath && (hitPath === targetPath || hitPath.startsWith(`${targetPath}/`));
+};
+
+/**
+ * Walks up from a raycast hit to the asset it belongs to. Asset objects carry `userData.assetId`.
+ */
+export const resolveAssetHit = (object: THREE.Object3D): AssetHit | null => {
+  let modelRoot: THREE.Object3D | null = null;
+  let current: THREE.Object3D | null = object;
+  while (current) {
+    if (current.userData.modelRoot && !modelRoot) modelRoot = current;
+    if (current.userData.assetId) {
+      return {
+        assetId: current.userData.assetId,
+        nodePath: modelRoot && modelRoot.userData.modelAssetId === current.userData.assetId ? getNodePath(modelRoot, object) : undefined
+      };
+    }
+    current = current.parent;
+  }
+  return null;
+};
+
+/**
+ * Applies per-node visibility and material overrides to a model scene. Materials of affected
+ * meshes are cloned first, since clones of a loaded model share them with every other instance.
+ */
+export const applyNodeOverrides = (root: THREE.Object3D, overrides: Record<string, NodeOverride> | undefined) => {
+  if (!overrides) return;
+
+  Object.entries(overrides).forEach(([path, override]) => {
+    const node = findNodeByPath(root, path);
+    if (!node) return;
+
+    if (override.visible !== undefined) node.visible = override.visible;
+    if (override.color === undefined && override.emissive === undefined && override.opacity === undefined) return;
+
+    node.traverse(child => {
+      const mesh = child as THREE.Mesh;
+      if (!mesh.isMesh || !mesh.material) return;
+
+      const apply = (source: THREE.Material) => {
+        const material = source.clone() as THREE.MeshStandardMaterial;
+        if (override.color !== undefined && material.color) material.color.set(override.color);
+        if (override.emissive !== undefined && material.emissive) {
+          material.emissive.set(override.emissive);
+          material.emissiveIntensity = Math.max(material.emissiveIntensity ?? 0, 0.5);
+        }
+        if (override.opacity !== undefined) {
+          material.transparent = override.opacity < 1 || material.transparent;
+          material.opacity = override.opacity;
+        }
+        return material;
+      };
+
+      mesh.material = Array.isArray(mesh.material) ? mesh.material.map(apply) : apply(mesh.material);
+    });
+  });
+};
+
+/**
+ * Makes a node and everything under it glow, e.g. to reveal the answer of an identify step.
+ * Materials are cloned first for the same reason as in applyNodeOverrides.
+ */
+export const highlightNode = (node: THREE.Object3D, color: string) => {
+  node.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.material) return;
+
+    const apply = (source: THREE.Material) => {
+      const material = source.clone() as THREE.MeshStandardMaterial;
+      if (material.emissive) {
+        material.emissive.set(color);
+        material.emissiveIntensity = 0.6;
+      }
+      return material;
+    };
+
+    mesh.material = Array.isArray(mesh.material) ? mesh.material.map(apply) : apply(mesh.material);
+  });
+};
+
+const nodeListCache = new Map<string, Promise<ModelNode[]>>();
+
+/**
+ * Loads a model file and lists its nodes depth-first for the Editor's part picker.
+ */
+export const listModelNodes = (url: string): Promise<ModelNode[]> => {
+  if (!nodeListCache.has(url)) {
+    const promise = new GLTFLoader().loadAsync(url).then(gltf => {
+      const nodes: ModelNode[] = [];
+      const visit = (node: THREE.Object3D, depth: number) => {
+        nodes.push({
+          path: getNodePath(gltf.scene, node)!,
+          name: node.name || `(unnamed ${pathSegment(node)})`,
+          depth,
+          isMesh: (node as THREE.Mesh).isMesh === true
+        });
+        node.children.forEach(child => visit(child, depth + 1));
+      };
+      gltf.scene.children.forEach(child => visit(child, 0));
+      return nodes;
+    });
+    // Failed loads are not cached so a later attempt can retry
+    promise.catch(() => nodeListCache.delete(url));
+    nodeListCache.set(url, promise);
+  }
+  return nodeListCache.get(url)!;
+};
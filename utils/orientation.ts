@@ -0,0 +1,36 @@
+import * as THREE from 'three';
+import { Step, Vector3Tuple } from '../types';
+
+export const DEFAULT_ORIENTATION_TOLERANCE = 15; // degrees
+export const ROTATE_STEP = THREE.MathUtils.degToRad(15); // Per wheel notch or key press
+
+const AXES = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1)
+};
+
+export const toQuaternion = (rotation: Vector3Tuple): THREE.Quaternion =>
+  new THREE.Quaternion().setFromEuler(new THREE.Euler(...rotation));
+
+/**
+ * Angle in degrees between two orientations. With `axis` set only that local axis has to line up,
+ * so objects that may spin around it (a syringe around its barrel) match at any roll.
+ */
+export const orientationError = (current: THREE.Quaternion, target: THREE.Quaternion, axis?: Step['orientationAxis']): number => {
+  if (!axis) return THREE.MathUtils.radToDeg(current.angleTo(target));
+  const a = AXES[axis].clone().applyQuaternion(current);
+  const b = AXES[axis].clone().applyQuaternion(target);
+  return THREE.MathUtils.radToDeg(a.angleTo(b));
+};
+
+export const getOrientationTolerance = (step: Step): number => step.orientationTolerance ?? DEFAULT_ORIENTATION_TOLERANCE;
+
+/**
+ * Turns a rotation around a world-space axis, e.g. the camera's up or forward direction.
+ */
+export const rotateAroundAxis = (rotation: Vector3Tuple, axis: THREE.Vector3, angle: number): Vector3Tuple => {
+  const q = new THREE.Quaternion().setFromAxisAngle(axis, angle).multiply(toQuaternion(rotation));
+  const euler = new THREE.Euler().setFromQuaternion(q);
+  return [euler.x, euler.y, euler.z];
+};
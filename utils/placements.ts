@@ -0,0 +1,48 @@
+import { Placement, Step, Vector3Tuple } from '../types';
+import { isMoveAction } from './stepActions';
+
+/**
+ * Something the learner has to carry somewhere: the target of a move or orient step, or one item
+ * of a multi step. Destinations resolve like a move step's: the anchor if set, else the position.
+ */
+export interface CarryGoal {
+  assetId: string;
+  snapAnchorId?: string;
+  targetPosition?: Vector3Tuple;
+  targetRotation?: Vector3Tuple; // Orient steps without an anchor
+}
+
+export const createPlacement = (assetId: string): Placement => ({ assetId });
+
+const toGoal = (placement: Placement): CarryGoal => ({
+  assetId: placement.assetId,
+  snapAnchorId: placement.snapAnchorId,
+  targetPosition: placement.targetPosition
+});
+
+/**
+ * Goals the learner can work on right now. `placed` holds the ids of objects already snapped into
+ * place; ordered multi steps only open their first unplaced item.
+ */
+export const getOpenGoals = (step: Step, placed: Set<string>): CarryGoal[] => {
+  if (step.targetAction === 'multi') {
+    const pending = (step.placements?.items || []).filter(p => !placed.has(p.assetId));
+    return (step.placements?.ordered ? pending.slice(0, 1) : pending).map(toGoal);
+  }
+  if (isMoveAction(step.targetAction) && step.targetAssetId && !placed.has(step.targetAssetId)) {
+    return [{ assetId: step.targetAssetId, snapAnchorId: step.snapAnchorId, targetPosition: step.targetPosition, targetRotation: step.targetRotation }];
+  }
+  return [];
+};
+
+export const getOpenGoal = (step: Step, placed: Set<string>, assetId: string): CarryGoal | undefined =>
+  getOpenGoals(step, placed).find(g => g.assetId === assetId);
+
+// Every destination anchor a step uses, placed or not
+export const getStepAnchorIds = (step: Step): string[] => {
+  const ids = step.targetAction === 'multi' ? (step.placements?.items || []).map(p => p.snapAnchorId) : [step.snapAnchorId];
+  return ids.filter((id): id is string => !!id);
+};
+
+export const countPlaced = (step: Step, placed: Set<string>): number =>
+  (step.placements?.items || []).filter(p => placed.has(p.assetId)).length;
@@ -0,0 +1,55 @@
+import { ProjectData } from '../types';
+
+// Bump this whenever the saved lesson shape changes and add a migration below
+export const CURRENT_SCHEMA_VERSION = 1;
+
+type Migration = (data: any) => any;
+
+// Each entry upgrades a project from version `key` to `key + 1`
+const MIGRATIONS: Record<number, Migration> = {
+  // v0 -> v1: lessons saved before versioning identified the room by its "Environment" name
+  0: (data) => ({
+    ...data,
+    projectName: typeof data.projectName === 'string' ? data.projectName : 'Untitled Lesson',
+    assets: Array.isArray(data.assets)
+      ? data.assets.map((asset: any) => (
+        asset && asset.type === 'model' && asset.name === 'Environment' && !asset.geometryType
+          ? { ...asset, geometryType: 'room' }
+          : asset
+      ))
+      : data.assets,
+    steps: Array.isArray(data.steps) ? data.steps : []
+  })
+};
+
+export const getSchemaVersion = (data: any): number => {
+  return typeof data?.schemaVersion === 'number' ? data.schemaVersion : 0;
+};
+
+/**
+ * Upgrades lesson JSON of any older schema version to the current ProjectData shape.
+ * Throws when the data is not an object or was written by a newer version of the builder.
+ */
+export const migrateProject = (raw: unknown): ProjectData => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Lesson data is not a valid project object.');
+  }
+
+  let data: any = raw;
+  let version = getSchemaVersion(data);
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`This lesson was saved with a newer version of the builder (schema v${version}).`);
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available from schema v${version}.`);
+    }
+    data = migrate(data);
+    version++;
+  }
+
+  return { ...data, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
@@ -0,0 +1,660 @@
+import { Asset, LessonMode, LessonVariable, ProjectData, Step, StepOutcome, StepTimeLimit, VariableEffect, Vector3Tuple } from '../types';
+import { migrateProject } from './projectMigrations';
+import { canHaveChildren } from './hierarchy';
+import { ZONE_SHAPES } from './zones';
+import { CONDITION_OPS, VARIABLE_NAME_PATTERN, defaultValue } from './variables';
+import { DEFAULT_RUBRIC } from './scoring';
+
+export interface ValidationIssue {
+  path: string; // e.g. "assets[2].position"
+  message: string;
+  repaired: boolean; // false means the lesson could not be loaded, unless it is a warning
+  warning?: boolean; // Left as it is; the lesson still loads
+}
+
+export interface ValidationResult {
+  project: ProjectData | null;
+  issues: ValidationIssue[];
+}
+
+const ASSET_TYPES: Asset['type'][] = ['model', 'text', 'shape', 'player_start', 'zone'];
+const TARGET_ACTIONS: Step['targetAction'][] = ['click', 'move', 'orient', 'quiz', 'identify', 'gaze', 'reach', 'multi', 'apply', 'none'];
+const ORIENTATION_AXES: NonNullable<Step['orientationAxis']>[] = ['x', 'y', 'z'];
+const CAMERA_MODES: NonNullable<Step['cameraMode']>[] = ['none', 'fly', 'teleport'];
+const STEP_OUTCOMES: StepOutcome[] = ['correct', 'incorrect'];
+const VARIABLE_TYPES: LessonVariable['type'][] = ['number', 'boolean'];
+const EFFECT_OPS: VariableEffect['op'][] = ['set', 'add'];
+const LESSON_MODES: LessonMode[] = ['practice', 'assessment'];
+const TIMEOUT_ACTIONS: StepTimeLimit['onTimeout'][] = ['advance', 'fail', 'branch', 'hint'];
+const SHAPE_TYPES = ['box', 'sphere', 'cone', 'torus'];
+const MODEL_KINDS = ['human', 'facility', 'room', 'jewelry', 'custom'];
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isVariableValue = (value: unknown): value is number | boolean =>
+  typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+
+const isTuple = (value: unknown): value is Vector3Tuple =>
+  Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+// Collects issues for one project while repairing fields in place on copies
+const createChecker = () => {
+  const issues: ValidationIssue[] = [];
+
+  const repair = (path: string, message: string) => {
+    issues.push({ path, message, repaired: true });
+  };
+
+  const fail = (path: string, message: string) => {
+    issues.push({ path, message, repaired: false });
+  };
+
+  const warn = (path: string, message: string) => {
+    issues.push({ path, message, repaired: false, warning: true });
+  };
+
+  const string = (obj: Record<string, any>, key: string, path: string, fallback: string) => {
+    if (typeof obj[key] !== 'string') {
+      repair(`${path}.${key}`, `Expected text, using "${fallback}".`);
+      obj[key] = fallback;
+    }
+  };
+
+  const optionalString = (obj: Record<string, any>, key: string, path: string) => {
+    if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+      repair(`${path}.${key}`, 'Expected text, value removed.');
+      delete obj[key];
+    }
+  };
+
+  const boolean = (obj: Record<string, any>, key: string, path: string, fallback: boolean) => {
+    if (typeof obj[key] !== 'boolean') {
+      repair(`${path}.${key}`, `Expected true or false, using ${fallback}.`);
+      obj[key] = fallback;
+    }
+  };
+
+  const optionalBoolean = (obj: Record<string, any>, key: string, path: string) => {
+    if (obj[key] !== undefined && typeof obj[key] !== 'boolean') {
+      repair(`${path}.${key}`, 'Expected true or false, value removed.');
+      delete obj[key];
+    }
+  };
+
+  const optionalColor = (obj: Record<string, any>, key: string, path: string) => {
+    if (obj[key] !== undefined && (typeof obj[key] !== 'string' || !COLOR_PATTERN.test(obj[key]))) {
+      repair(`${path}.${key}`, `Invalid color "${obj[key]}", value removed.`);
+      delete obj[key];
+    }
+  };
+
+  const optionalNumber = (obj: Record<string, any>, key: string, path: string, min: number, max: number) => {
+    if (obj[key] === undefined) return;
+    if (typeof obj[key] !== 'number' || !Number.isFinite(obj[key])) {
+      repair(`${path}.${key}`, 'Expected a number, value removed.');
+      delete obj[key];
+    } else if (obj[key] < min || obj[key] > max) {
+      const clamped = Math.min(max, Math.max(min, obj[key]));
+      repair(`${path}.${key}`, `Value ${obj[key]} is outside ${min}–${max}, clamped to ${clamped}.`);
+      obj[key] = clamped;
+    }
+  };
+
+  const tuple = (obj: Record<string, any>, key: string, path: string, fallback: Vector3Tuple) => {
+    if (!isTuple(obj[key])) {
+      repair(`${path}.${key}`, `Expected [x, y, z] numbers, using [${fallback.join(', ')}].`);
+      obj[key] = [...fallback];
+    }
+  };
+
+  const optionalTuple = (obj: Record<string, any>, key: string, path: string) => {
+    if (obj[key] !== undefined && !isTuple(obj[key])) {
+      repair(`${path}.${key}`, 'Expected [x, y, z] numbers, value removed.');
+      delete obj[key];
+    }
+  };
+
+  const oneOf = <T extends string>(obj: Record<string, any>, key: string, path: string, allowed: T[], fallback: T) => {
+    if (!allowed.includes(obj[key])) {
+      repair(`${path}.${key}`, `"${obj[key]}" is not one of ${allowed.join(', ')}, using "${fallback}".`);
+      obj[key] = fallback;
+    }
+  };
+
+  const optionalOneOf = <T extends string>(obj: Record<string, any>, key: string, path: string, allowed: T[]) => {
+    if (obj[key] !== undefined && !allowed.includes(obj[key])) {
+      repair(`${path}.${key}`, `"${obj[key]}" is not one of ${allowed.join(', ')}, value removed.`);
+      delete obj[key];
+    }
+  };
+
+  // Gives every entry a unique string id, renaming later duplicates; links to the old id keep meaning the first entry
+  const uniqueId = (obj: Record<string, any>, path: string, seen: Set<string>, prefix: string) => {
+    let id = typeof obj.id === 'string' && obj.id ? obj.id : '';
+    if (!id) {
+      id = `${prefix}_${seen.size + 1}`;
+      repair(`${path}.id`, `Missing id, assigned "${id}".`);
+    } else if (seen.has(id)) {
+      let n = 2;
+      while (seen.has(`${id}_${n}`)) n++;
+      repair(`${path}.id`, `Duplicate id "${id}", renamed to "${id}_${n}". Links to "${id}" still lead to the first ${prefix} with it.`);
+      id = `${id}_${n}`;
+    }
+    obj.id = id;
+    seen.add(id);
+  };
+
+  return { issues, repair, fail, warn, string, optionalString, boolean, optionalBoolean, optionalColor, optionalNumber, tuple, optionalTuple, oneOf, optionalOneOf, uniqueId };
+};
+
+type Checker = ReturnType<typeof createChecker>;
+
+const validateNodeOverrides = (check: Checker, asset: Record<string, any>, path: string) => {
+  if (asset.nodeOverrides === undefined) return;
+  if (!isObject(asset.nodeOverrides)) {
+    check.repair(`${path}.nodeOverrides`, 'Expected an object keyed by node path, overrides removed.');
+    delete asset.nodeOverrides;
+    return;
+  }
+
+  const overrides: Record<string, any> = {};
+  Object.entries(asset.nodeOverrides).forEach(([nodePath, raw]) => {
+    const overridePath = `${path}.nodeOverrides["${nodePath}"]`;
+    if (!isObject(raw)) {
+      check.repair(overridePath, 'Override is not an object and was removed.');
+      return;
+    }
+    const override: Record<string, any> = { ...raw };
+    check.optionalBoolean(override, 'visible', overridePath);
+    check.optionalColor(override, 'color', overridePath);
+    check.optionalColor(override, 'emissive', overridePath);
+    check.optionalNumber(override, 'opacity', overridePath, 0, 1);
+    overrides[nodePath] = override;
+  });
+  asset.nodeOverrides = overrides;
+};
+
+const validateAsset = (check: Checker, raw: unknown, path: string, seenIds: Set<string>): Asset | null => {
+  if (!isObject(raw)) {
+    check.repair(path, 'Asset is not an object and was removed.');
+    return null;
+  }
+  if (!ASSET_TYPES.includes(raw.type)) {
+    check.repair(`${path}.type`, `Unknown asset type "${raw.type}", asset removed.`);
+    return null;
+  }
+
+  // Steps name assets by id, so a second asset with the same id can't be told apart from the first
+  if (typeof raw.id === 'string' && seenIds.has(raw.id)) {
+    check.repair(`${path}.id`, `Duplicate id "${raw.id}", asset removed. Steps using "${raw.id}" keep the first asset with it.`);
+    return null;
+  }
+
+  const asset: Record<string, any> = { ...raw };
+  check.uniqueId(asset, path, seenIds, 'asset');
+  check.string(asset, 'name', path, asset.type);
+  if (typeof asset.color !== 'string' || !COLOR_PATTERN.test(asset.color)) {
+    check.repair(`${path}.color`, `Invalid color "${asset.color}", using #ffffff.`);
+    asset.color = '#ffffff';
+  }
+  check.tuple(asset, 'position', path, [0, 0, 0]);
+  check.tuple(asset, 'rotation', path, [0, 0, 0]);
+  check.tuple(asset, 'scale', path, [1, 1, 1]);
+  check.optionalString(asset, 'content', path);
+  check.optionalString(asset, 'url', path);
+  check.optionalBoolean(asset, 'visible', path);
+  check.optionalBoolean(asset, 'locked', path);
+  check.optionalBoolean(asset, 'isCollidable', path);
+  check.optionalNumber(asset, 'opacity', path, 0, 1);
+  check.optionalString(asset, 'parentId', path);
+  validateNodeOverrides(check, asset, path);
+
+  if (asset.type === 'zone') {
+    check.oneOf(asset, 'geometryType', path, ZONE_SHAPES, 'box');
+  } else if (asset.type === 'shape') {
+    check.oneOf(asset, 'geometryType', path, SHAPE_TYPES, 'box');
+  } else if (asset.type === 'model') {
+    check.optionalOneOf(asset, 'geometryType', path, MODEL_KINDS);
+  } else {
+    check.optionalString(asset, 'geometryType', path);
+  }
+
+  if (asset.type === 'model' && !asset.url) {
+    check.warn(`${path}.url`, 'Model has no file and will not be displayed.');
+  }
+
+  return asset as Asset;
+};
+
+const validateAssetStates = (check: Checker, step: Record<string, any>, path: string) => {
+  if (step.assetStates === undefined) return;
+  if (!isObject(step.assetStates)) {
+    check.repair(`${path}.assetStates`, 'Expected an object keyed by asset id, scene changes removed.');
+    delete step.assetStates;
+    return;
+  }
+
+  const states: Record<string, any> = {};
+  Object.entries(step.assetStates).forEach(([assetId, raw]) => {
+    const statePath = `${path}.assetStates["${assetId}"]`;
+    if (!isObject(raw)) {
+      check.repair(statePath, 'Scene change is not an object and was removed.');
+      return;
+    }
+    const state: Record<string, any> = { ...raw };
+    check.optionalBoolean(state, 'visible', statePath);
+    check.optionalNumber(state, 'opacity', statePath, 0, 1);
+    check.optionalColor(state, 'color', statePath);
+    check.optionalTuple(state, 'position', statePath);
+    check.optionalTuple(state, 'rotation', statePath);
+    check.optionalTuple(state, 'scale', statePath);
+    states[assetId] = state;
+  });
+  step.assetStates = states;
+};
+
+// Answer counts and correctness are left to the lesson checks; this only repairs the shape
+const validateQuiz = (check: Checker, step: Record<string, any>, path: string) => {
+  if (step.quiz !== undefined && !isObject(step.quiz)) {
+    check.repair(`${path}.quiz`, 'Quiz is not an object and was removed.');
+    delete step.quiz;
+  }
+  if (step.quiz === undefined) {
+    if (step.targetAction === 'quiz') {
+      check.repair(`${path}.targetAction`, 'Quiz step has no quiz, using "none".');
+      step.targetAction = 'none';
+    }
+    return;
+  }
+
+  const quiz: Record<string, any> = { ...step.quiz };
+  const quizPath = `${path}.quiz`;
+  check.string(quiz, 'question', quizPath, '');
+  check.boolean(quiz, 'multiple', quizPath, false);
+  if (!Array.isArray(quiz.answers)) {
+    check.repair(`${quizPath}.answers`, 'Quiz has no answer list, starting with none.');
+    quiz.answers = [];
+  }
+
+  const answerIds = new Set<string>();
+  quiz.answers = quiz.answers
+    .map((raw: unknown, i: number) => {
+      const answerPath = `${quizPath}.answers[${i}]`;
+      if (!isObject(raw)) {
+        check.repair(answerPath, 'Answer is not an object and was removed.');
+        return null;
+      }
+      const answer: Record<string, any> = { ...raw };
+      check.uniqueId(answer, answerPath, answerIds, 'answer');
+      check.string(answer, 'text', answerPath, '');
+      check.boolean(answer, 'correct', answerPath, false);
+      check.optionalString(answer, 'assetId', answerPath);
+      check.optionalString(answer, 'feedback', answerPath);
+      check.optionalString(answer, 'nextStepId', answerPath);
+      return answer;
+    })
+    .filter(Boolean);
+  step.quiz = quiz;
+};
+
+const validateIdentify = (check: Checker, step: Record<string, any>, path: string) => {
+  if (step.identify !== undefined && !isObject(step.identify)) {
+    check.repair(`${path}.identify`, 'Identify settings are not an object and were removed.');
+    delete step.identify;
+  }
+  if (step.identify === undefined) {
+    if (step.targetAction === 'identify') {
+      check.repair(`${path}.identify`, 'Identify step has no settings, starting without wrong choices.');
+      step.identify = { candidates: [] };
+    }
+    return;
+  }
+
+  const identify: Record<string, any> = { ...step.identify };
+  const identifyPath = `${path}.identify`;
+  if (!Array.isArray(identify.candidates)) {
+    check.repair(`${identifyPath}.candidates`, 'Expected a list of wrong choices, starting with none.');
+    identify.candidates = [];
+  }
+  identify.candidates = identify.candidates
+    .map((raw: unknown, i: number) => {
+      const candidatePath = `${identifyPath}.candidates[${i}]`;
+      if (!isObject(raw) || typeof raw.assetId !== 'string' || !raw.assetId) {
+        check.repair(candidatePath, 'Wrong choice has no object and was removed.');
+        return null;
+      }
+      const candidate: Record<string, any> = { ...raw };
+      check.optionalString(candidate, 'nodePath', candidatePath);
+      check.optionalString(candidate, 'feedback', candidatePath);
+      return candidate;
+    })
+    .filter(Boolean);
+  check.optionalString(identify, 'wrongFeedback', identifyPath);
+  check.optionalNumber(identify, 'revealAfter', identifyPath, 1, 99);
+  step.identify = identify;
+};
+
+const validatePlacements = (check: Checker, step: Record<string, any>, path: string) => {
+  if (step.placements !== undefined && !isObject(step.placements)) {
+    check.repair(`${path}.placements`, 'Placements are not an object and were removed.');
+    delete step.placements;
+  }
+  if (step.placements === undefined) {
+    if (step.targetAction === 'multi') {
+      check.repair(`${path}.placements`, 'Multi step has no placements, starting without items.');
+      step.placements = { items: [] };
+    }
+    return;
+  }
+
+  const placements: Record<string, any> = { ...step.placements };
+  const placementsPath = `${path}.placements`;
+  if (!Array.isArray(placements.items)) {
+    check.repair(`${placementsPath}.items`, 'Expected a list of items, starting with none.');
+    placements.items = [];
+  }
+  placements.items = placements.items
+    .map((raw: unknown, i: number) => {
+      const itemPath = `${placementsPath}.items[${i}]`;
+      if (!isObject(raw) || typeof raw.assetId !== 'string' || !raw.assetId) {
+        check.repair(itemPath, 'Item has no object and was removed.');
+        return null;
+      }
+      const item: Record<string, any> = { ...raw };
+      check.optionalString(item, 'snapAnchorId', itemPath);
+      check.optionalTuple(item, 'targetPosition', itemPath);
+      return item;
+    })
+    .filter(Boolean);
+  check.optionalBoolean(placements, 'ordered', placementsPath);
+  step.placements = placements;
+};
+
+const validateRegion = (check: Checker, step: Record<string, any>, path: string) => {
+  if (step.region === undefined) return;
+  if (!isObject(step.region) || typeof step.region.assetId !== 'string' || !step.region.assetId) {
+    check.repair(`${path}.region`, 'Region has no object and was removed.');
+    delete step.region;
+    return;
+  }
+  const region: Record<string, any> = { ...step.region };
+  check.optionalString(region, 'nodePath', `${path}.region`);
+  step.region = region;
+};
+
+// A missing branch target is left to the lesson checks, like other step links
+const validateTimeLimit = (check: Checker, step: Record<string, any>, path: string) => {
+  if (step.timeLimit === undefined) return;
+  if (!isObject(step.timeLimit) || typeof step.timeLimit.seconds !== 'number' || !Number.isFinite(step.timeLimit.seconds)) {
+    check.repair(`${path}.timeLimit`, 'Time limit has no duration and was removed.');
+    delete step.timeLimit;
+    return;
+  }
+  const timeLimit: Record<string, any> = { ...step.timeLimit };
+  const limitPath = `${path}.timeLimit`;
+  check.optionalNumber(timeLimit, 'seconds', limitPath, 1, 3600);
+  check.oneOf(timeLimit, 'onTimeout', limitPath, TIMEOUT_ACTIONS, 'advance');
+  check.optionalString(timeLimit, 'branchStepId', limitPath);
+  step.timeLimit = timeLimit;
+};
+
+// Effects on unknown variables are left to the lesson checks; this only repairs the shape
+const validateEffects = (check: Checker, step: Record<string, any>, key: 'onComplete' | 'onMistake', path: string) => {
+  if (step[key] === undefined) return;
+  if (!Array.isArray(step[key])) {
+    check.repair(`${path}.${key}`, 'Variable changes are not a list and were removed.');
+    delete step[key];
+    return;
+  }
+  step[key] = step[key]
+    .map((raw: unknown, i: number) => {
+      const effectPath = `${path}.${key}[${i}]`;
+      if (!isObject(raw) || typeof raw.variable !== 'string' || !isVariableValue(raw.value)) {
+        check.repair(effectPath, 'Variable change is incomplete and was removed.');
+        return null;
+      }
+      const effect: Record<string, any> = { ...raw };
+      check.oneOf(effect, 'op', effectPath, EFFECT_OPS, 'set');
+      return effect;
+    })
+    .filter(Boolean);
+};
+
+const validateHints = (check: Checker, step: Record<string, any>, path: string) => {
+  if (step.hints === undefined) return;
+  if (!Array.isArray(step.hints)) {
+    check.repair(`${path}.hints`, 'Hints are not a list and were removed.');
+    delete step.hints;
+    return;
+  }
+  step.hints = step.hints
+    .map((raw: unknown, i: number) => {
+      const hintPath = `${path}.hints[${i}]`;
+      if (!isObject(raw)) {
+        check.repair(hintPath, 'Hint is not an object and was removed.');
+        return null;
+      }
+      const hint: Record<string, any> = { ...raw };
+      check.optionalString(hint, 'text', hintPath);
+      check.optionalBoolean(hint, 'highlightTarget', hintPath);
+      check.optionalBoolean(hint, 'showGhost', hintPath);
+      check.optionalBoolean(hint, 'showArrow', hintPath);
+      check.optionalNumber(hint, 'delaySeconds', hintPath, 0, 3600);
+      return hint;
+    })
+    .filter(Boolean);
+};
+
+// Links to missing steps are left to the lesson checks, which can offer to clear them
+const validateBranches = (check: Checker, step: Record<string, any>, path: string) => {
+  if (step.branches === undefined) return;
+  if (!Array.isArray(step.branches)) {
+    check.repair(`${path}.branches`, 'Branches are not a list and were removed.');
+    delete step.branches;
+    return;
+  }
+  step.branches = step.branches
+    .map((raw: unknown, i: number) => {
+      const branchPath = `${path}.branches[${i}]`;
+      if (!isObject(raw) || typeof raw.nextStepId !== 'string' || !raw.nextStepId) {
+        check.repair(branchPath, 'Branch has no step to go to and was removed.');
+        return null;
+      }
+      const branch: Record<string, any> = { ...raw };
+      check.optionalOneOf(branch, 'outcome', branchPath, STEP_OUTCOMES);
+      if (branch.condition !== undefined) {
+        const { condition } = branch;
+        // Without its condition the branch would always be taken, so a broken one drops the branch
+        if (!isObject(condition) || typeof condition.variable !== 'string' || !CONDITION_OPS.includes(condition.op) || !isVariableValue(condition.value)) {
+          check.repair(`${branchPath}.condition`, 'Branch condition is incomplete, branch removed.');
+          return null;
+        }
+      }
+      return branch;
+    })
+    .filter(Boolean);
+};
+
+const validateStep = (check: Checker, raw: unknown, path: string, seenIds: Set<string>): Step | null => {
+  if (!isObject(raw)) {
+    check.repair(path, 'Step is not an object and was removed.');
+    return null;
+  }
+
+  const step: Record<string, any> = { ...raw };
+  check.uniqueId(step, path, seenIds, 'step');
+  check.string(step, 'title', path, 'Untitled Step');
+  check.string(step, 'instruction', path, '');
+  check.tuple(step, 'cameraPosition', path, [5, 5, 5]);
+  check.optionalTuple(step, 'cameraTarget', path);
+  check.optionalOneOf(step, 'cameraMode', path, CAMERA_MODES);
+  check.oneOf(step, 'targetAction', path, TARGET_ACTIONS, 'none');
+  check.optionalString(step, 'targetAssetId', path);
+  check.optionalString(step, 'targetNodePath', path);
+  check.optionalTuple(step, 'targetPosition', path);
+  check.optionalString(step, 'snapAnchorId', path);
+  check.optionalTuple(step, 'targetRotation', path);
+  check.optionalNumber(step, 'orientationTolerance', path, 1, 180);
+  check.optionalOneOf(step, 'orientationAxis', path, ORIENTATION_AXES);
+  check.optionalNumber(step, 'dwellSeconds', path, 0.5, 30);
+  validateAssetStates(check, step, path);
+  validateQuiz(check, step, path);
+  validateIdentify(check, step, path);
+  validatePlacements(check, step, path);
+  validateRegion(check, step, path);
+  check.optionalString(step, 'nextStepId', path);
+  validateBranches(check, step, path);
+  validateEffects(check, step, 'onComplete', path);
+  validateEffects(check, step, 'onMistake', path);
+  validateHints(check, step, path);
+  validateTimeLimit(check, step, path);
+
+  return step as Step;
+};
+
+const validateVariables = (check: Checker, project: Record<string, any>) => {
+  if (project.variables === undefined) return;
+  if (!Array.isArray(project.variables)) {
+    check.repair('variables', 'Variables are not a list and were removed.');
+    delete project.variables;
+    return;
+  }
+  const names = new Set<string>();
+  project.variables = project.variables
+    .map((raw: unknown, i: number) => {
+      const path = `variables[${i}]`;
+      if (!isObject(raw) || typeof raw.name !== 'string' || !VARIABLE_NAME_PATTERN.test(raw.name)) {
+        check.repair(path, 'Variable has no usable name and was removed.');
+        return null;
+      }
+      if (names.has(raw.name)) {
+        check.repair(path, `Variable "${raw.name}" is defined twice, the later one was removed.`);
+        return null;
+      }
+      names.add(raw.name);
+      const variable: Record<string, any> = { ...raw };
+      check.oneOf(variable, 'type', path, VARIABLE_TYPES, typeof variable.initial === 'boolean' ? 'boolean' : 'number');
+      if (typeof variable.initial !== (variable.type === 'number' ? 'number' : 'boolean') || !isVariableValue(variable.initial)) {
+        const fallback = defaultValue(variable.type);
+        check.repair(`${path}.initial`, `Starting value does not match the variable type, using ${fallback}.`);
+        variable.initial = fallback;
+      }
+      check.optionalString(variable, 'label', path);
+      check.optionalString(variable, 'unit', path);
+      check.optionalNumber(variable, 'min', path, -1e9, 1e9);
+      check.optionalNumber(variable, 'max', path, -1e9, 1e9);
+      check.optionalBoolean(variable, 'hidden', path);
+      return variable;
+    })
+    .filter(Boolean);
+};
+
+const validateScoring = (check: Checker, project: Record<string, any>) => {
+  if (project.scoring === undefined) return;
+  if (!isObject(project.scoring)) {
+    check.repair('scoring', 'Scoring rubric is not an object and was removed.');
+    delete project.scoring;
+    return;
+  }
+  const rubric: Record<string, any> = { ...project.scoring };
+  (['stepPoints', 'wrongClickPenalty', 'missedDropPenalty', 'hintPenalty'] as const).forEach(key => {
+    check.optionalNumber(rubric, key, 'scoring', 0, 1000);
+    if (rubric[key] === undefined) {
+      check.repair(`scoring.${key}`, `Missing, using ${DEFAULT_RUBRIC[key]}.`);
+      rubric[key] = DEFAULT_RUBRIC[key];
+    }
+  });
+  check.optionalNumber(rubric, 'targetSeconds', 'scoring', 1, 3600);
+  check.optionalNumber(rubric, 'slowPenalty', 'scoring', 0, 1000);
+  check.optionalNumber(rubric, 'passPercent', 'scoring', 0, 100);
+  project.scoring = rubric;
+};
+
+// Parent links must point at an asset that can hold children and must not loop back on themselves.
+// Entries keep the path of each asset in the file, since dropped assets shift the indexes.
+const validateHierarchy = (check: Checker, entries: { asset: Asset; path: string }[]) => {
+  const byId = new Map(entries.map(({ asset }) => [asset.id, asset]));
+  entries.forEach(({ asset, path }) => {
+    if (!asset.parentId) return;
+    const parent = byId.get(asset.parentId);
+    if (!parent || !canHaveChildren(parent)) {
+      check.repair(`${path}.parentId`, `Parent "${asset.parentId}" is missing or cannot hold objects, moved to the top level.`);
+      delete asset.parentId;
+      return;
+    }
+    const visited = new Set([asset.id]);
+    let current: Asset | undefined = parent;
+    while (current) {
+      if (visited.has(current.id)) {
+        check.repair(`${path}.parentId`, 'Parent chain loops back on itself, moved to the top level.');
+        delete asset.parentId;
+        return;
+      }
+      visited.add(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+  });
+};
+
+/**
+ * Checks lesson JSON against the ProjectData shape. Recoverable problems are repaired
+ * and reported; the project is null only when the file cannot be used at all.
+ */
+export const validateProject = (raw: unknown): ValidationResult => {
+  const check = createChecker();
+
+  if (!isObject(raw)) {
+    check.fail('(root)', 'Lesson file does not contain a project object.');
+    return { project: null, issues: check.issues };
+  }
+  if (!Array.isArray(raw.assets)) {
+    check.fail('assets', 'Lesson has no asset list.');
+    return { project: null, issues: check.issues };
+  }
+
+  const project: Record<string, any> = { ...raw };
+  check.string(project, 'projectName', '(root)', 'Untitled Lesson');
+
+  const assetIds = new Set<string>();
+  const assetEntries: { asset: Asset; path: string }[] = [];
+  raw.assets.forEach((rawAsset: unknown, i: number) => {
+    const asset = validateAsset(check, rawAsset, `assets[${i}]`, assetIds);
+    if (asset) assetEntries.push({ asset, path: `assets[${i}]` });
+  });
+  validateHierarchy(check, assetEntries);
+  project.assets = assetEntries.map(entry => entry.asset);
+
+  if (!Array.isArray(raw.steps)) {
+    check.repair('steps', 'Lesson has no step list, starting with none.');
+    project.steps = [];
+  } else {
+    const stepIds = new Set<string>();
+    project.steps = raw.steps
+      .map((step: unknown, i: number) => validateStep(check, step, `steps[${i}]`, stepIds))
+      .filter(Boolean);
+  }
+  validateVariables(check, project);
+  validateScoring(check, project);
+  check.optionalOneOf(project, 'mode', '(root)', LESSON_MODES);
+  check.optionalNumber(project, 'timeLimitSeconds', '(root)', 10, 86400);
+
+  return { project: project as ProjectData, issues: check.issues };
+};
+
+/**
+ * Full load pipeline for lesson JSON from any source: upgrade to the current schema, then validate.
+ */
+export const loadProjectData = (raw: unknown): ValidationResult => {
+  let migrated: ProjectData;
+  try {
+    migrated = migrateProject(raw);
+  } catch (e) {
+    return {
+      project: null,
+      issues: [{ path: '(root)', message: e instanceof Error ? e.message : 'Lesson could not be upgraded.', repaired: false }]
+    };
+  }
+  return validateProject(migrated);
+};
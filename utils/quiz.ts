@@ -0,0 +1,43 @@
+import { Asset, Quiz, QuizAnswer, QuizResponse, Step } from '../types';
+import { createAnswerId } from './ids';
+
+export const MIN_QUIZ_ANSWERS = 2;
+export const MAX_QUIZ_ANSWERS = 6;
+
+export const createQuizAnswer = (correct = false): QuizAnswer => ({ id: createAnswerId(), text: '', correct });
+
+export const createQuiz = (): Quiz => ({
+  question: '',
+  multiple: false,
+  answers: [createQuizAnswer(true), createQuizAnswer()]
+});
+
+/**
+ * Text shown for an answer; answers that only point at an object use the object's name.
+ */
+export const getAnswerLabel = (answer: QuizAnswer, assets: Asset[]): string => {
+  if (answer.text.trim()) return answer.text;
+  const asset = answer.assetId ? assets.find(a => a.id === answer.assetId) : undefined;
+  return asset ? asset.name : 'Untitled answer';
+};
+
+/**
+ * Picking an answer: single-answer quizzes replace the choice, multiple-answer quizzes toggle it.
+ */
+export const toggleQuizAnswer = (quiz: Quiz, selected: string[], answerId: string): string[] => {
+  if (!quiz.multiple) return [answerId];
+  return selected.includes(answerId) ? selected.filter(id => id !== answerId) : [...selected, answerId];
+};
+
+// Correct means exactly the set of correct answers was picked
+export const isQuizCorrect = (quiz: Quiz, answerIds: string[]): boolean => {
+  const picked = new Set(answerIds);
+  return quiz.answers.every(answer => answer.correct === picked.has(answer.id));
+};
+
+export const createQuizResponse = (step: Step, answerIds: string[]): QuizResponse => ({
+  stepId: step.id,
+  answerIds,
+  correct: !!step.quiz && isQuizCorrect(step.quiz, answerIds),
+  answeredAt: Date.now()
+});
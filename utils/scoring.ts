@@ -0,0 +1,111 @@
+import { QuizResponse, ScoringRubric, Step, StepMetrics } from '../types';
+import { shouldRevealAnswer } from './identify';
+
+export const DEFAULT_RUBRIC: ScoringRubric = {
+  stepPoints: 10,
+  wrongClickPenalty: 2,
+  missedDropPenalty: 1,
+  hintPenalty: 3,
+  passPercent: 70
+};
+
+export const createMetrics = (): StepMetrics => ({ timeMs: 0, wrongClicks: 0, missedDrops: 0, hintsUsed: 0, timeouts: 0 });
+
+/**
+ * Adds to one counter of a step's metrics, creating them on first use. Returns a new record so
+ * it can be used as a React state updater.
+ */
+export const recordMetric = (
+  metrics: Record<string, StepMetrics>,
+  stepId: string,
+  key: keyof StepMetrics,
+  amount: number = 1
+): Record<string, StepMetrics> => {
+  const current = metrics[stepId] || createMetrics();
+  return { ...metrics, [stepId]: { ...current, [key]: current[key] + amount } };
+};
+
+// Info steps have nothing to get wrong, so they are timed but not scored
+export const isScoredStep = (step: Step): boolean => step.targetAction !== 'none';
+
+export interface StepScore {
+  stepId: string;
+  title: string;
+  metrics: StepMetrics;
+  mistakes: number; // Wrong clicks plus wrong identify picks
+  hints: number; // Hints used plus a revealed identify answer
+  correct?: boolean; // Quiz steps only
+  points?: number; // Unset for unscored steps or without a rubric
+  maxPoints?: number;
+}
+
+export interface LessonScore {
+  steps: StepScore[];
+  totalTimeMs: number;
+  points: number;
+  maxPoints: number;
+  percent: number;
+  passed?: boolean; // Set when the rubric has a pass mark
+}
+
+export interface ScoreOptions {
+  rubric?: ScoringRubric;
+  hintsShown?: boolean; // Identify answers are only revealed, and charged as a hint, when hints are shown; default true
+  unfinishedStepId?: string; // Step the learner was on when time ran out; it scores nothing
+}
+
+/**
+ * Scores the steps the learner visited, in lesson order. Steps left because their countdown ran
+ * out score nothing. Quiz steps score all or nothing on the submitted answer; every other step
+ * loses points per mistake, missed drop and hint, and for going over the target time.
+ */
+export const scoreLesson = (
+  steps: Step[],
+  metrics: Record<string, StepMetrics>,
+  quizResponses: Record<string, QuizResponse>,
+  identifyAttempts: Record<string, number>,
+  { rubric, hintsShown = true, unfinishedStepId }: ScoreOptions = {}
+): LessonScore => {
+  const scores = steps
+    .filter(step => metrics[step.id])
+    .map((step): StepScore => {
+      const stepMetrics = metrics[step.id];
+      const wrongPicks = identifyAttempts[step.id] || 0;
+      const mistakes = stepMetrics.wrongClicks + wrongPicks;
+      const hints = stepMetrics.hintsUsed + (hintsShown && step.targetAction === 'identify' && shouldRevealAnswer(step, wrongPicks) ? 1 : 0);
+      const response = step.targetAction === 'quiz' ? quizResponses[step.id] : undefined;
+      const score: StepScore = { stepId: step.id, title: step.title, metrics: stepMetrics, mistakes, hints, correct: response?.correct };
+      if (!rubric || !isScoredStep(step)) return score;
+
+      let points = rubric.stepPoints;
+      if (step.id === unfinishedStepId || stepMetrics.timeouts > 0) {
+        points = 0;
+      } else if (step.targetAction === 'quiz') {
+        points = response?.correct ? rubric.stepPoints : 0;
+      } else {
+        points -= mistakes * rubric.wrongClickPenalty + stepMetrics.missedDrops * rubric.missedDropPenalty;
+      }
+      points -= hints * rubric.hintPenalty;
+      if (rubric.targetSeconds && rubric.slowPenalty && stepMetrics.timeMs > rubric.targetSeconds * 1000) {
+        points -= rubric.slowPenalty;
+      }
+      return { ...score, points: Math.max(0, points), maxPoints: rubric.stepPoints };
+    });
+
+  const points = scores.reduce((sum, s) => sum + (s.points || 0), 0);
+  const maxPoints = scores.reduce((sum, s) => sum + (s.maxPoints || 0), 0);
+  const percent = maxPoints > 0 ? Math.round(points / maxPoints * 100) : 100;
+  return {
+    steps: scores,
+    totalTimeMs: scores.reduce((sum, s) => sum + s.metrics.timeMs, 0),
+    points,
+    maxPoints,
+    percent,
+    passed: rubric?.passPercent !== undefined ? percent >= rubric.passPercent : undefined
+  };
+};
+
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,11 @@
+import { Step } from '../types';
+
+// Steps where the learner carries the target object to a destination
+export const isMoveAction = (action: Step['targetAction']): boolean => action === 'move' || action === 'orient';
+
+// Steps where the learner carries one or more objects to destinations
+export const isCarryAction = (action: Step['targetAction']): boolean => isMoveAction(action) || action === 'multi';
+
+// Steps that need a target object to be playable
+export const needsTarget = (action: Step['targetAction']): boolean =>
+  action === 'click' || isMoveAction(action) || action === 'identify' || action === 'gaze' || action === 'reach' || action === 'apply';
@@ -0,0 +1,37 @@
+import { Asset, AssetState, Step } from '../types';
+
+const TRANSFORM_FIELDS: (keyof AssetState)[] = ['position', 'rotation', 'scale'];
+
+/**
+ * Builds the scene as it looks at the end of `visitedSteps` (in the order the learner went
+ * through them): each step's asset states are layered on top of the lesson's base assets.
+ * Going Back simply means resolving again with fewer steps.
+ *
+ * `pinnedIds` are assets the learner has moved (held or snapped); their transforms are left alone.
+ */
+export const applyStepStates = (assets: Asset[], visitedSteps: Step[], pinnedIds?: Set<string>): Asset[] => {
+  const merged = new Map<string, AssetState>();
+  visitedSteps.forEach(step => {
+    Object.entries(step.assetStates || {}).forEach(([assetId, state]) => {
+      merged.set(assetId, { ...merged.get(assetId), ...state });
+    });
+  });
+  if (merged.size === 0) return assets;
+
+  return assets.map(asset => {
+    const state = merged.get(asset.id);
+    if (!state) return asset;
+    const updates: AssetState = { ...state };
+    if (pinnedIds?.has(asset.id)) {
+      TRANSFORM_FIELDS.forEach(field => delete updates[field]);
+    }
+    return { ...asset, ...updates };
+  });
+};
+
+/**
+ * The scene at a given step index, assuming the steps were visited in list order.
+ */
+export const getAssetsAtStep = (assets: Asset[], steps: Step[], stepIndex: number): Asset[] => {
+  return applyStepStates(assets, steps.slice(0, stepIndex + 1));
+};
@@ -0,0 +1,21 @@
+import * as THREE from 'three';
+import { ApplyRegion, Asset } from '../types';
+import { findAssetNode } from './modelNodes';
+import { isPointInZone } from './zones';
+
+/**
+ * True when a held tool touches an apply step's region. Regions on objects and model parts are
+ * compared by bounding box; zones are not part of the scene, so the tool's center is tested
+ * against the zone volume instead. Hidden regions cannot be touched.
+ */
+export const isToolTouchingRegion = (tool: THREE.Object3D, root: THREE.Object3D, region: ApplyRegion, assets: Asset[]): boolean => {
+  const regionAsset = assets.find(a => a.id === region.assetId);
+  if (!regionAsset || regionAsset.visible === false) return false;
+
+  const toolBox = new THREE.Box3().setFromObject(tool);
+  if (toolBox.isEmpty()) return false;
+  if (regionAsset.type === 'zone') return isPointInZone(regionAsset, assets, toolBox.getCenter(new THREE.Vector3()));
+
+  const node = findAssetNode(root, region.assetId, region.nodePath);
+  return !!node && toolBox.intersectsBox(new THREE.Box3().setFromObject(node));
+};
@@ -0,0 +1,148 @@
+import { LessonVariable, ProjectData, Step, VariableCondition, VariableEffect } from '../types';
+
+export type VariableValues = Record<string, number | boolean>;
+
+// Names have to work inside {braces} in instructions, so they follow identifier rules
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export const EFFECT_OPS: { value: VariableEffect['op']; label: string }[] = [
+  { value: 'set', label: '=' },
+  { value: 'add', label: '+=' }
+];
+
+export const CONDITION_OPS: VariableCondition['op'][] = ['==', '!=', '<', '<=', '>', '>='];
+export const FLAG_CONDITION_OPS: VariableCondition['op'][] = ['==', '!='];
+
+export const createVariable = (existing: LessonVariable[]): LessonVariable => {
+  let n = existing.length + 1;
+  while (existing.some(v => v.name === `var${n}`)) n++;
+  return { name: `var${n}`, type: 'number', initial: 0 };
+};
+
+// The value to start from when a variable changes type, or when a stored value doesn't match it
+export const defaultValue = (type: LessonVariable['type']): number | boolean => type === 'number' ? 0 : false;
+
+const clamp = (variable: LessonVariable, value: number): number => {
+  let result = value;
+  if (variable.min !== undefined) result = Math.max(variable.min, result);
+  if (variable.max !== undefined) result = Math.min(variable.max, result);
+  return result;
+};
+
+export const getInitialValues = (variables: LessonVariable[] = []): VariableValues => {
+  return Object.fromEntries(variables.map(v => [v.name, typeof v.initial === 'number' ? clamp(v, v.initial) : v.initial]));
+};
+
+/**
+ * Applies effects in order. Effects on unknown variables or with the wrong value type are skipped;
+ * the lesson checks report them.
+ */
+export const applyEffects = (variables: LessonVariable[] = [], values: VariableValues, effects: VariableEffect[] = []): VariableValues => {
+  if (effects.length === 0) return values;
+  const next = { ...values };
+  effects.forEach(effect => {
+    const variable = variables.find(v => v.name === effect.variable);
+    if (!variable || typeof effect.value !== (variable.type === 'number' ? 'number' : 'boolean')) return;
+    if (variable.type === 'boolean') {
+      if (effect.op === 'set') next[variable.name] = effect.value;
+      return;
+    }
+    const current = typeof next[variable.name] === 'number' ? next[variable.name] as number : 0;
+    next[variable.name] = clamp(variable, effect.op === 'add' ? current + (effect.value as number) : effect.value as number);
+  });
+  return next;
+};
+
+// Unknown variables never match, so a condition on a deleted variable can't send learners somewhere unexpected
+export const checkCondition = (condition: VariableCondition, values: VariableValues): boolean => {
+  const current = values[condition.variable];
+  if (current === undefined || typeof current !== typeof condition.value) return false;
+  switch (condition.op) {
+    case '==': return current === condition.value;
+    case '!=': return current !== condition.value;
+    case '<': return current < condition.value;
+    case '<=': return current <= condition.value;
+    case '>': return current > condition.value;
+    case '>=': return current >= condition.value;
+    default: return false;
+  }
+};
+
+export const formatValue = (value: number | boolean | undefined, variable?: LessonVariable): string => {
+  if (value === undefined) return '?';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  const text = Number.isInteger(value) ? String(value) : value.toFixed(1);
+  return variable?.unit ? `${text} ${variable.unit}` : text;
+};
+
+export const describeCondition = (condition: VariableCondition): string => `${condition.variable} ${condition.op} ${formatValue(condition.value)}`;
+
+/**
+ * Replaces {name} placeholders with the variables' current values. Unknown names are left as typed.
+ */
+export const interpolate = (text: string, variables: LessonVariable[] = [], values: VariableValues): string => {
+  if (variables.length === 0) return text;
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const variable = variables.find(v => v.name === name);
+    return variable ? formatValue(values[name], variable) : match;
+  });
+};
+
+export const findPlaceholders = (text: string): string[] => [...text.matchAll(PLACEHOLDER_PATTERN)].map(m => m[1]);
+
+// One line for players without room for a monitor panel, e.g. "Heart rate 72 bpm · SpO2 95 %"
+export const formatMonitor = (variables: LessonVariable[] = [], values: VariableValues): string => {
+  return variables
+    .filter(v => !v.hidden)
+    .map(v => `${v.label || v.name} ${formatValue(values[v.name], v)}`)
+    .join(' · ');
+};
+
+const mapStepVariables = (steps: Step[], mapEffects: (effects: VariableEffect[]) => VariableEffect[], mapBranches: (branches: Step['branches']) => Step['branches'], mapText: (text: string) => string): Step[] => {
+  return steps.map(step => {
+    const next: Step = { ...step, instruction: mapText(step.instruction) };
+    if (step.onComplete) next.onComplete = mapEffects(step.onComplete);
+    if (step.onMistake) next.onMistake = mapEffects(step.onMistake);
+    if (step.branches) next.branches = mapBranches(step.branches);
+    return next;
+  });
+};
+
+/**
+ * Renames a variable along with every effect, condition and {placeholder} that uses it.
+ */
+export const renameVariable = (project: ProjectData, oldName: string, newName: string): ProjectData => {
+  const rename = (name: string) => name === oldName ? newName : name;
+  return {
+    ...project,
+    variables: (project.variables || []).map(v => v.name === oldName ? { ...v, name: newName } : v),
+    steps: mapStepVariables(
+      project.steps,
+      effects => effects.map(e => ({ ...e, variable: rename(e.variable) })),
+      branches => branches!.map(b => b.condition ? { ...b, condition: { ...b.condition, variable: rename(b.condition.variable) } } : b),
+      text => text.split(`{${oldName}}`).join(`{${newName}}`)
+    )
+  };
+};
+
+/**
+ * Removes a variable together with the effects and conditional branches that use it.
+ * Placeholders stay in the text so authors can see what to rewrite.
+ */
+export const removeVariable = (project: ProjectData, name: string): ProjectData => {
+  const cleanEffects = (effects: VariableEffect[]) => effects.filter(e => e.variable !== name);
+  const steps = mapStepVariables(
+    project.steps,
+    cleanEffects,
+    branches => branches!.filter(b => b.condition?.variable !== name),
+    text => text
+  ).map(step => {
+    const next = { ...step };
+    if (next.onComplete?.length === 0) delete next.onComplete;
+    if (next.onMistake?.length === 0) delete next.onMistake;
+    if (next.branches?.length === 0) delete next.branches;
+    return next;
+  });
+  return { ...project, variables: (project.variables || []).filter(v => v.name !== name), steps };
+};
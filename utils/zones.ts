@@ -0,0 +1,43 @@
+import * as THREE from 'three';
+import { Asset } from '../types';
+import { getWorldMatrix } from './hierarchy';
+
+/**
+ * Zones are unit volumes standing on their origin, so a zone placed on the floor covers the space
+ * above it: x and z run from -0.5 to 0.5 and y from 0 to 1, scaled by the asset's scale.
+ */
+export type ZoneShape = 'box' | 'sphere' | 'cylinder';
+
+export const ZONE_SHAPES: ZoneShape[] = ['box', 'sphere', 'cylinder'];
+
+export const ZONE_COLOR = '#22c55e';
+
+export const getZoneShape = (zone: Asset): ZoneShape =>
+  ZONE_SHAPES.includes(zone.geometryType as ZoneShape) ? zone.geometryType as ZoneShape : 'box';
+
+const isLocalPointInside = (shape: ZoneShape, p: THREE.Vector3): boolean => {
+  if (shape === 'sphere') return p.distanceTo(new THREE.Vector3(0, 0.5, 0)) <= 0.5;
+  if (p.y < 0 || p.y > 1) return false;
+  if (shape === 'cylinder') return p.x * p.x + p.z * p.z <= 0.25;
+  return Math.abs(p.x) <= 0.5 && Math.abs(p.z) <= 0.5;
+};
+
+export const isPointInZone = (zone: Asset, assets: Asset[], point: THREE.Vector3): boolean => {
+  const toLocal = getWorldMatrix(assets, zone.id).invert();
+  return isLocalPointInside(getZoneShape(zone), point.clone().applyMatrix4(toLocal));
+};
+
+// Points along the learner's body, from just above the feet up to the eyes
+const BODY_SAMPLES = [0.1, 0.5, 1];
+
+/**
+ * True when any part of a standing learner (feet position plus eye height) is inside the zone.
+ */
+export const isLearnerInZone = (zone: Asset, assets: Asset[], feet: THREE.Vector3, eyeHeight: number): boolean => {
+  const toLocal = getWorldMatrix(assets, zone.id).invert();
+  const shape = getZoneShape(zone);
+  return BODY_SAMPLES.some(t => {
+    const point = new THREE.Vector3(feet.x, feet.y + eyeHeight * t, feet.z).applyMatrix4(toLocal);
+    return isLocalPointInside(shape, point);
+  });
+};